@@ -0,0 +1,102 @@
+import { parseArgs } from "node:util";
+import { Language } from "../src/types";
+import { ALL_TOPICS } from "../src/utils/topics";
+import { foldText } from "../src/utils/text";
+
+export type CliMode = "practice" | "test" | "review-mistakes";
+
+export interface CliOptions {
+  mode: CliMode;
+  count: number | null; // null: every matching question
+  language: Language;
+  topics: string[];
+  progressFile: string;
+}
+
+const MODES: CliMode[] = ["practice", "test", "review-mistakes"];
+
+// Same default as the web app's test length
+const DEFAULT_TEST_COUNT = 100;
+
+export const USAGE = `Usage: npm run quiz -- [practice|test|review-mistakes] [options]
+
+Modes:
+  practice         every question (or --count of them) in random order (default)
+  test             ${DEFAULT_TEST_COUNT} random questions unless --count is given
+  review-mistakes  questions whose last answer was wrong
+
+Options:
+  --count <n>      number of questions
+  --lang <ro|en>   question bank language (default: ro)
+  --topic <name>   only questions on a topic; repeat for several topics
+                   (${ALL_TOPICS.join(", ")})
+  --progress <file> progress file, in the web app's backup format
+                   (default: quiz-progress.json)
+  --help           show this message`;
+
+export class UsageError extends Error {}
+
+// Topics can be given in any case and shortened: "memory" for "Memory management"
+const resolveTopic = (name: string) => {
+  const wanted = foldText(name.trim());
+  const matches = ALL_TOPICS.filter((topic) => foldText(topic).startsWith(wanted));
+  const exact = matches.find((topic) => foldText(topic) === wanted);
+  if (exact) return exact;
+  if (matches.length === 1) return matches[0];
+  throw new UsageError(
+    matches.length
+      ? `--topic "${name}" is ambiguous: ${matches.join(", ")}`
+      : `unknown topic "${name}", expected one of: ${ALL_TOPICS.join(", ")}`
+  );
+};
+
+// Returns null when only the usage was asked for
+export const parseCliArgs = (argv: string[]): CliOptions | null => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        count: { type: "string" },
+        lang: { type: "string", default: "ro" },
+        topic: { type: "string", multiple: true, default: [] },
+        progress: { type: "string", default: "quiz-progress.json" },
+        help: { type: "boolean", default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  const [mode = "practice", ...extra] = positionals;
+  if (!MODES.includes(mode as CliMode)) {
+    throw new UsageError(`unknown mode "${mode}", expected ${MODES.join(", ")}`);
+  }
+  if (extra.length) {
+    throw new UsageError(`unexpected argument "${extra[0]}"`);
+  }
+
+  if (values.lang !== "ro" && values.lang !== "en") {
+    throw new UsageError(`--lang must be ro or en, got "${values.lang}"`);
+  }
+
+  let count: number | null = mode === "test" ? DEFAULT_TEST_COUNT : null;
+  if (values.count !== undefined) {
+    count = Number(values.count);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new UsageError(`--count must be a positive whole number, got "${values.count}"`);
+    }
+  }
+
+  return {
+    mode: mode as CliMode,
+    count,
+    language: values.lang,
+    topics: values.topic.map(resolveTopic),
+    progressFile: values.progress,
+  };
+};
@@ -0,0 +1,99 @@
+// Checks the three question bank files: the one main.py reads and the RO/EN
+// pair the web app and the terminal quiz read.
+// Run with: npm run lint:banks [-- --json]
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  LintIssue,
+  lintBankFile,
+  lintMissingEntries,
+  lintTranslations,
+} from "../src/utils/bankLint";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+const BANK_FILES = {
+  python: "questions.json",
+  ro: "public/questions.json",
+  en: "public/questions-en.json",
+};
+
+const USAGE = `Usage: npm run lint:banks [-- --json]
+
+Checks ${Object.values(BANK_FILES).join(", ")} for invalid entries,
+duplicates, RO/EN mismatches, entries missing from a file and encoding problems.
+Exits with 1 when an error is found.
+
+Options:
+  --json   print the report as JSON
+  --help   show this message`;
+
+const loadBank = async (file: string) =>
+  lintBankFile(file, await readFile(`${ROOT}${file}`, "utf8"));
+
+const printIssues = (issues: LintIssue[]) => {
+  for (const file of new Set(issues.map((i) => i.file))) {
+    console.log(`\n${file}`);
+    for (const i of issues.filter((i) => i.file === file)) {
+      const where = [i.index !== undefined && `entry ${i.index}`, i.id && `id ${i.id}`]
+        .filter(Boolean)
+        .join(", ");
+      console.log(`  ${i.severity.padEnd(7)} ${i.rule.padEnd(20)} ${where ? `${where}: ` : ""}${i.message}`);
+      if (i.question) console.log(`          ${i.question.split("\n")[0].slice(0, 100)}`);
+    }
+  }
+};
+
+const main = async () => {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const [python, ro, en] = await Promise.all(
+    [BANK_FILES.python, BANK_FILES.ro, BANK_FILES.en].map(loadBank)
+  );
+  const issues = [
+    ...python.issues,
+    ...ro.issues,
+    ...en.issues,
+    ...lintTranslations(ro, en),
+    // main.py has its own copy of the Romanian bank, which drifts from the app's
+    ...lintMissingEntries(python, ro),
+    ...lintMissingEntries(ro, python),
+  ];
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.length - errors;
+
+  if (values.json) {
+    const files = [python, ro, en].map((bank) => ({
+      file: bank.file,
+      questions: bank.questions.length,
+    }));
+    console.log(JSON.stringify({ files, errors, warnings, issues }, null, 2));
+  } else {
+    printIssues(issues);
+    console.log(`\n${errors} error(s), ${warnings} warning(s)`);
+  }
+
+  if (errors) process.exitCode = 1;
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,39 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { BackupData, createBackup, parseBackup } from "../src/utils/backup";
+
+export const emptyProgress = (): BackupData => ({
+  sessions: [],
+  answerEvents: [],
+  reviewCards: [],
+  overrides: [],
+  flags: [],
+  notes: [],
+  preferences: {},
+});
+
+// The progress file is a web app backup, so it can be restored in the browser
+// (Settings → Backup & Restore) and a browser backup can be used here
+export const loadProgress = async (path: string): Promise<BackupData> => {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptyProgress();
+    throw error;
+  }
+
+  const { backup, errors } = parseBackup(text);
+  if (!backup) {
+    throw new Error(`${path} is not a usable progress file: ${errors.join("; ")}`);
+  }
+
+  const { sessions, answerEvents, reviewCards, overrides, flags, notes, preferences } = backup;
+  return { sessions, answerEvents, reviewCards, overrides, flags, notes, preferences };
+};
+
+// Written to a temporary file first, so an interrupted save keeps the old progress
+export const saveProgress = async (path: string, data: BackupData) => {
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, JSON.stringify(createBackup(data), null, 2) + "\n");
+  await rename(temporary, path);
+};
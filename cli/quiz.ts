@@ -0,0 +1,269 @@
+// Terminal quiz over the same banks, scoring and progress format as the web app.
+// Run with: npm run quiz -- [practice|test|review-mistakes] [options]
+import { readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import { AnswerValue, Language, Question, Session } from "../src/types";
+import { BackupData } from "../src/utils/backup";
+import { applyOverrides, parseQuestionBank } from "../src/utils/questionBank";
+import {
+  answerLetter,
+  formatResponse,
+  formatScore,
+  getCorrectAnswers,
+  getQuestionKind,
+  gradeAnswer,
+} from "../src/utils/scoring";
+import { createCard, reviewCard } from "../src/utils/scheduler";
+import { filterByTopics } from "../src/utils/topics";
+import { CliOptions, USAGE, UsageError, parseCliArgs } from "./args";
+import { loadProgress, saveProgress } from "./progress";
+
+const BANK_FILES: Record<Language, string> = {
+  ro: "../public/questions.json",
+  en: "../public/questions-en.json",
+};
+
+// The colors main.py uses
+const COLORS = {
+  correct: "\x1b[92m",
+  incorrect: "\x1b[91m",
+  blue: "\x1b[94m",
+  normal: "\x1b[0m",
+};
+
+const loadBank = async (language: Language, progress: BackupData) => {
+  const file = fileURLToPath(new URL(BANK_FILES[language], import.meta.url));
+  const text = (await readFile(file, "utf8")).replace(/^\uFEFF/, "");
+  const { questions, errors } = parseQuestionBank(JSON.parse(text));
+  if (errors.length) {
+    console.warn(`Skipped ${errors.length} invalid question(s) in ${file}`);
+  }
+  // Edits made in the browser come along in the progress file
+  return applyOverrides(questions, progress.overrides, language);
+};
+
+const shuffle = <T>(items: T[]) => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+const pickQuestions = (
+  bank: Question[],
+  options: CliOptions,
+  progress: BackupData
+) => {
+  let candidates = filterByTopics(bank, options.topics);
+
+  if (options.mode === "review-mistakes") {
+    const lastAnswer = new Map<string, boolean>();
+    for (const event of progress.answerEvents) {
+      lastAnswer.set(event.questionId, event.correct);
+    }
+    candidates = candidates.filter((q) => lastAnswer.get(q.id) === false);
+  }
+
+  const picked = shuffle([...candidates]);
+  return options.count === null ? picked : picked.slice(0, options.count);
+};
+
+// Letters ("ac", "a c", "a,c") or numbers ("1 3") for choice questions, any
+// text for free text ones and a command for tasks; null when the input does
+// not fit the question
+const parseResponse = (question: Question, input: string): AnswerValue | null => {
+  const kind = getQuestionKind(question);
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  if (kind === "text" || kind === "task") return trimmed;
+
+  const parts = trimmed.toLowerCase().split(/[\s,]+/);
+  const indexes = parts.every((part) => /^\d+$/.test(part))
+    ? parts.map((part) => Number(part) - 1)
+    : /^[a-z]+$/.test(parts.join(""))
+      ? [...parts.join("")].map((letter) => letter.charCodeAt(0) - 97)
+      : null;
+
+  if (
+    !indexes ||
+    indexes.some((i) => i < 0 || i >= question.answers.length) ||
+    new Set(indexes).size !== indexes.length
+  ) {
+    return null;
+  }
+
+  const answers = indexes.map((i) => question.answers[i]);
+  if (kind === "multiple") return answers;
+  return answers.length === 1 ? answers[0] : null;
+};
+
+const printQuestion = (question: Question, position: number, total: number) => {
+  console.log(`\n${COLORS.normal}Question ${position + 1}/${total}`);
+  console.log(question.question);
+  if (question.image) {
+    console.log(`${COLORS.blue}Image: public/${question.image}${COLORS.normal}`);
+  }
+
+  question.answers.forEach((answer, index) => {
+    console.log(`${answerLetter(index)}) ${answer}`);
+  });
+  if (getQuestionKind(question) === "multiple") {
+    console.log(`${COLORS.blue}Select all that apply, e.g. "ac"${COLORS.normal}`);
+  }
+  if (getQuestionKind(question) === "task") {
+    console.log(`${COLORS.blue}Type a shell command; it runs on the question's sandbox files${COLORS.normal}`);
+  }
+};
+
+const run = async (options: CliOptions) => {
+  const progress = await loadProgress(options.progressFile);
+  const bank = await loadBank(options.language, progress);
+  const questions = pickQuestions(bank, options, progress);
+
+  if (!questions.length) {
+    console.log(
+      options.mode === "review-mistakes"
+        ? "No mistakes to review, well done!"
+        : "No questions match these options."
+    );
+    return;
+  }
+
+  const scoring = progress.preferences.multiScoring ?? "all-or-nothing";
+  const flaggedIds = new Set(progress.flags.map((f) => f.questionId));
+
+  const session: Session = {
+    id: Date.now().toString(),
+    timestamp: Date.now(),
+    totalQuestions: questions.length,
+    currentQuestionIndex: 0,
+    score: 0,
+    isTest: options.mode === "test",
+    // Like "Retry Mistakes" in the browser, reviewing mistakes is practice
+    mode: options.mode === "test" ? "test" : "practice",
+    topics: options.topics,
+    answers: [],
+    questionIds: questions.map((q) => q.id),
+    answeredQuestions: [],
+    completed: false,
+    updatedAt: Date.now(),
+  };
+  progress.sessions.push(session);
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  rl.on("SIGINT", () => rl.close());
+  // The iterator buffers lines, so answers piped in ahead of time are not lost
+  const lines = rl[Symbol.asyncIterator]();
+
+  // null once the user quits (q, Ctrl+C or end of input)
+  const ask = async (prompt: string) => {
+    rl.setPrompt(prompt);
+    rl.prompt();
+    const { value, done } = await lines.next();
+    return done || /^(q|quit)$/i.test(value.trim()) ? null : (value as string);
+  };
+
+  console.log(
+    `${questions.length} question(s). Answer with the letter(s) or type the answer; q quits.`
+  );
+
+  for (const [position, question] of questions.entries()) {
+    printQuestion(question, position, questions.length);
+    const shownAt = Date.now();
+
+    let response: AnswerValue | null = null;
+    while (response === null) {
+      const input = await ask(`${COLORS.normal}Your answer: `);
+      if (input === null) break;
+      response = parseResponse(question, input);
+      if (response === null) {
+        console.log(`Answer with ${question.answers.length ? "the letters shown" : "some text"}.`);
+      }
+    }
+    if (response === null) break;
+
+    const credit = gradeAnswer(question, response, scoring);
+    const correct = credit === 1;
+    if (correct) {
+      console.log(`${COLORS.correct}Correct!`);
+    } else {
+      console.log(
+        `${COLORS.incorrect}Incorrect! The correct answer is: ${getCorrectAnswers(question).join(" / ")}`
+      );
+    }
+    if (question.explanation) {
+      console.log(`${COLORS.blue}${question.explanation}${COLORS.normal}`);
+    }
+
+    const now = Date.now();
+    // A question reported as broken can be left out of the score, as in the browser
+    if (!(progress.preferences.excludeFlagged && flaggedIds.has(question.id))) {
+      session.score += credit;
+    }
+    session.answers!.push({ position, questionId: question.id, answer: response, correct });
+    session.answeredQuestions.push(position);
+    session.currentQuestionIndex = Math.min(position + 1, questions.length - 1);
+    session.completed = position === questions.length - 1;
+    session.updatedAt = now;
+
+    const card =
+      progress.reviewCards.find((c) => c.questionId === question.id) ??
+      createCard(question.id, now);
+    progress.reviewCards = [
+      ...progress.reviewCards.filter((c) => c.questionId !== question.id),
+      reviewCard(card, correct, now),
+    ];
+    progress.answerEvents.push({
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      questionId: question.id,
+      answer: response,
+      correct,
+      timeTaken: now - shownAt,
+      sessionId: session.id,
+      language: options.language,
+      timestamp: now,
+    });
+
+    // Saved after every answer, so quitting never loses progress
+    await saveProgress(options.progressFile, progress);
+  }
+  rl.close();
+
+  const mistakes = (session.answers ?? []).filter((a) => !a.correct);
+  console.log(
+    `\n${COLORS.normal}Score: ${formatScore(session.score)}/${session.answeredQuestions.length}` +
+      (session.completed ? "" : ` (stopped after ${session.answeredQuestions.length} of ${questions.length})`)
+  );
+  for (const mistake of mistakes) {
+    const question = questions[mistake.position];
+    console.log(`\n${question.question}`);
+    console.log(`${COLORS.incorrect}Your answer: ${formatResponse(mistake.answer)}`);
+    console.log(`${COLORS.correct}Correct: ${getCorrectAnswers(question).join(" / ")}${COLORS.normal}`);
+  }
+  if (session.answeredQuestions.length) {
+    console.log(`\nProgress saved to ${options.progressFile}`);
+  }
+};
+
+const main = async () => {
+  try {
+    const options = parseCliArgs(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return;
+    }
+    await run(options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      console.error((error as Error).message);
+      process.exitCode = 1;
+    }
+  }
+};
+
+main();
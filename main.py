@@ -67,6 +67,9 @@ while True:
         q = questions[index_of_question]
 
         print(bcolors.NORMAL + q['question'])
+        # images are stored next to the React app's banks, in public/
+        if q.get('image'):
+            open_image(os.path.join('public', q['image']))
 
         # for each answer, display the answer
         for i in range(len(q['answers'])):
@@ -0,0 +1,113 @@
+// Offline support: precache the app shell and both question banks.
+// Bank files are fetched network first so updates are picked up when online.
+// Question images live in their own cache, filled when the app sends their URLs.
+const CACHE_NAME = "os-exam-v1";
+const IMAGE_CACHE_NAME = "os-exam-images";
+const BANK_FILES = ["/questions.json", "/questions-en.json"];
+const PRECACHE_URLS = [
+  "/",
+  "/index.html",
+  "/manifest.webmanifest",
+  "/icon.svg",
+  ...BANK_FILES,
+];
+
+// Also cache the scripts and styles referenced by index.html
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(PRECACHE_URLS);
+
+  const html = await (await cache.match("/index.html")).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(
+    (match) => match[1]
+  );
+  await cache.addAll(assets);
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME && key !== IMAGE_CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Build assets have content hashes in their names, so a cached copy is never stale
+const cacheFirst = async (request, cacheName = CACHE_NAME) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Download the images of every question, not only the ones already shown
+const cacheImages = async (urls) => {
+  const cache = await caches.open(IMAGE_CACHE_NAME);
+  await Promise.all(
+    urls
+      .map((url) => new URL(url, self.location.origin))
+      .filter((url) => url.origin === self.location.origin)
+      .map(async (url) => {
+        if (await cache.match(url)) return;
+        try {
+          const response = await fetch(url);
+          if (response.ok) await cache.put(url, response);
+        } catch {
+          // Offline or missing; tried again the next time the app starts
+        }
+      })
+  );
+};
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "cache-images") {
+    event.waitUntil(cacheImages(event.data.urls));
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      networkFirst(request).catch(() => caches.match("/index.html"))
+    );
+  } else if (BANK_FILES.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  } else if (request.destination === "image" && !url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE_NAME));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});
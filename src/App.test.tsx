@@ -0,0 +1,152 @@
+// @vitest-environment jsdom
+import "fake-indexeddb/auto";
+import { act, cleanup, fireEvent, render, screen, within } from "@testing-library/react";
+import axe from "axe-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+
+const BANK = [
+  {
+    id: "q1",
+    question: "Which page replacement policy evicts the least recently used page?",
+    answers: ["FIFO", "LRU", "Optimal"],
+    correct: "LRU",
+  },
+  {
+    id: "q2",
+    kind: "multiple",
+    question: "Which calls create or wait for a process?",
+    answers: ["fork", "exec", "wait"],
+    correct: ["fork", "wait"],
+  },
+];
+
+// WCAG A and AA rules; contrast needs real layout, which jsdom does not do
+const checkA11y = async (element: Element) => {
+  const { violations } = await axe.run(element, {
+    runOnly: { type: "tag", values: ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"] },
+    rules: { "color-contrast": { enabled: false } },
+  });
+  return violations.map(({ id, nodes }) => `${id}: ${nodes.map((n) => n.html).join(", ")}`);
+};
+
+const renderQuiz = async () => {
+  render(<App />);
+  return screen.findByRole("radiogroup", { name: "Answers" });
+};
+
+beforeEach(() => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify(BANK)))
+  );
+  vi.stubGlobal(
+    "matchMedia",
+    vi.fn((query: string) => ({
+      matches: false,
+      media: query,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      addListener: () => {},
+      removeListener: () => {},
+    }))
+  );
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  localStorage.clear();
+});
+
+describe("quiz card", () => {
+  it("offers single choice answers as a radio group", async () => {
+    const group = await renderQuiz();
+    const radios = within(group).getAllByRole("radio");
+
+    expect(radios).toHaveLength(3);
+    expect(radios.map((radio) => radio.getAttribute("aria-checked"))).toEqual([
+      "false",
+      "false",
+      "false",
+    ]);
+
+    fireEvent.click(radios[1]);
+    expect(radios.map((radio) => radio.getAttribute("aria-checked"))).toEqual([
+      "false",
+      "true",
+      "false",
+    ]);
+    expect(await checkA11y(document.body)).toEqual([]);
+  });
+
+  it("offers multiple choice answers as a group of checkboxes", async () => {
+    await renderQuiz();
+    fireEvent.click(screen.getByRole("radio", { name: /LRU/ }));
+    fireEvent.click(screen.getByRole("button", { name: "Submit" }));
+    fireEvent.click(screen.getByRole("button", { name: "Next Question" }));
+
+    const group = await screen.findByRole("group", { name: "Answers" });
+    const checkboxes = within(group).getAllByRole("checkbox");
+    expect(checkboxes).toHaveLength(3);
+
+    fireEvent.click(checkboxes[0]);
+    fireEvent.click(checkboxes[2]);
+    expect(checkboxes.map((box) => box.getAttribute("aria-checked"))).toEqual([
+      "true",
+      "false",
+      "true",
+    ]);
+    expect(await checkA11y(document.body)).toEqual([]);
+  });
+
+  it("announces a correct answer", async () => {
+    await renderQuiz();
+    fireEvent.click(screen.getByRole("radio", { name: /LRU/ }));
+    fireEvent.click(screen.getByRole("button", { name: "Submit" }));
+
+    const status = await screen.findByText(/^Correct\. Score 1 of 2\.$/);
+    expect(status.getAttribute("role")).toBe("status");
+  });
+
+  it("announces a wrong answer with the expected one", async () => {
+    await renderQuiz();
+    fireEvent.click(screen.getByRole("radio", { name: /FIFO/ }));
+    fireEvent.click(screen.getByRole("button", { name: "Submit" }));
+
+    const status = await screen.findByText(/^Incorrect, the answer was b\) LRU\. Score 0 of 2\.$/);
+    expect(status.getAttribute("role")).toBe("status");
+  });
+});
+
+describe("dialogs", () => {
+  it("labels the settings dialog", async () => {
+    await renderQuiz();
+    fireEvent.click(screen.getByRole("button", { name: "Settings" }));
+
+    await screen.findByRole("dialog", { name: "Settings" });
+    expect(await checkA11y(document.body)).toEqual([]);
+  });
+
+  it("labels the keyboard shortcuts dialog", async () => {
+    await renderQuiz();
+    act(() => {
+      fireEvent.keyDown(window, { key: "?" });
+    });
+
+    const dialog = await screen.findByRole("dialog", { name: "Keyboard Shortcuts" });
+    expect(dialog.getAttribute("aria-describedby")).toBeTruthy();
+    expect(await checkA11y(document.body)).toEqual([]);
+  });
+
+  it("labels the command palette", async () => {
+    await renderQuiz();
+    act(() => {
+      fireEvent.keyDown(window, { key: "k", ctrlKey: true });
+    });
+
+    const dialog = await screen.findByRole("dialog", { name: "Search questions" });
+    within(dialog).getByRole("textbox", { name: "Search questions" });
+    expect(await checkA11y(document.body)).toEqual([]);
+  });
+});
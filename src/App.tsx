@@ -1,54 +1,170 @@
-import { useState, useEffect, useRef } from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import {
   ChevronLeft,
   Moon,
   Sun,
   Settings2,
   HelpCircle,
-  Globe 
+  Globe,
+  Flag,
+  Timer,
+  AlertTriangle,
 } from "lucide-react";
 import "./ios.css";
 import "./App.css";
 import * as Dialog from "@radix-ui/react-dialog";
-import { Session, Language } from "./types";
+import {
+  Question,
+  Session,
+  Language,
+  SessionMode,
+  ReviewCard,
+  AnswerEvent,
+  AnswerValue,
+  MultiScoring,
+  ExamSettings,
+  ExamState,
+  SessionAnswer,
+  QuestionOverride,
+  QuestionFlag,
+  QuestionNote,
+  Deletion,
+  CustomBank,
+  Theme,
+  KeyBindings,
+} from "./types";
 import { storage } from "./utils/storage";
 import { CommandPalette } from "./components/CommandPalette";
+import { StatisticsView } from "./components/StatisticsView";
+import { ExamQuestionGrid } from "./components/ExamQuestionGrid";
+import { ReviewMistakes } from "./components/ReviewMistakes";
+import { QuestionEditor } from "./components/QuestionEditor";
+import { FlagDialog } from "./components/FlagDialog";
+import { QuestionExplanation } from "./components/QuestionExplanation";
+import { QuestionText } from "./components/Markdown";
+import { ZoomableImage } from "./components/ZoomableImage";
+import { ShellTerminal } from "./components/ShellTerminal";
+import { ShellSandbox } from "./components/ShellSandbox";
+import { ResultMark } from "./components/ResultMark";
+import { ShortcutsDialog } from "./components/ShortcutsDialog";
+import { DifficultyBadge } from "./components/DifficultyBadge";
+import { FlaggedView } from "./components/FlaggedView";
+import { BankImportDialog } from "./components/BankImportDialog";
+import { BankUpdateNotice } from "./components/BankUpdateNotice";
+import { BackupDialog } from "./components/BackupDialog";
+import { SyncDialog } from "./components/SyncDialog";
+import { BackupData } from "./utils/backup";
+import { SyncState, withProgress } from "./utils/sync";
 import { questionCache } from "./utils/questionCache";
-
-interface Question {
-  question: string;
-  answers: string[];
-  correct: string;
-}
+import { ALL_TOPICS, filterByTopics } from "./utils/topics";
+import { accuracy, getTopicAccuracy } from "./utils/statistics";
+import {
+  loadQuestionBank,
+  checkBankPairing,
+  applyOverrides,
+  serializeQuestionBank,
+  checkForBankUpdate,
+  countBankChanges,
+  getImageUrls,
+  BankUpdate,
+  DEFAULT_BANK_ID,
+} from "./utils/questionBank";
+import { downloadFile } from "./utils/download";
+import {
+  formatKeys,
+  getAction,
+  getKeymap,
+  hasOpenDialog,
+  isTypingTarget,
+} from "./utils/keymap";
+import {
+  LANGUAGE_NAMES,
+  TRANSLATION_MISMATCHES,
+  checkTranslationMismatches,
+  findTranslationMismatch,
+} from "./utils/translation";
+import {
+  needsIdMigration,
+  migrateSessions,
+  migrateCards,
+} from "./utils/migrations";
+import {
+  createCard,
+  reviewCard,
+  getDueCards,
+  getDueForecast,
+} from "./utils/scheduler";
+import {
+  answerLetter,
+  getQuestionKind,
+  describeAcceptedAnswers,
+  getCorrectAnswers,
+  isCorrectOption,
+  isSelected,
+  hasResponse,
+  gradeAnswer,
+  formatResponse,
+  formatScore,
+} from "./utils/scoring";
+import {
+  DEFAULT_EXAM_SETTINGS,
+  gradeExam,
+  formatDuration,
+} from "./utils/exam";
+import {
+  createGeneratedIds,
+  generateQuestion,
+  isGeneratedId,
+} from "./utils/generatedQuestions";
+import { createRandom, randomSeed, shuffled } from "./utils/random";
+import {
+  buildDifficultyModel,
+  getDifficultyLevel,
+  getSessionAbility,
+  estimateScore,
+  pickAdaptiveQuestion,
+} from "./utils/difficulty";
 
 function App() {
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [banks, setBanks] = useState<Partial<Record<Language, Question[]>>>({});
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<string>("");
+  const [selectedAnswers, setSelectedAnswers] = useState<string[]>([]);
   const [isAnswerSubmitted, setIsAnswerSubmitted] = useState(false);
   const [score, setScore] = useState(0);
   const [direction, setDirection] = useState(0);
-  const [wrongAnswers, setWrongAnswers] = useState<Array<[Question, string]>>(
-    []
-  );
   const [showReview, setShowReview] = useState(false);
   const [gameOver, setGameOver] = useState(false);
   const [numberOfQuestions] = useState<number | "all">(
     "all"
   );
-  const [isDark, setIsDark] = useState(false);
+  const [theme, setTheme] = useState<Theme>(() => {
+    const saved = localStorage.getItem('theme') as Theme | null;
+    if (saved) return saved;
+    if (window.matchMedia("(prefers-contrast: more)").matches) return 'high-contrast';
+    return window.matchMedia("(prefers-color-scheme: dark)").matches ? 'dark' : 'light';
+  });
+  const isDark = theme !== "light";
   const [textAnswer, setTextAnswer] = useState<string>("");
   const [focusedAnswerIndex, setFocusedAnswerIndex] = useState<number>(-1);
+  const answerRefs = useRef<(HTMLButtonElement | null)[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
+  const reduceMotion = useReducedMotion();
   const [answeredQuestions, setAnsweredQuestions] = useState<Set<number>>(
     new Set()
   );
   const [sessions, setSessions] = useState<Session[]>([]);
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [testQuestionCount, setTestQuestionCount] = useState(100);
+  const [testQuestionCount, setTestQuestionCount] = useState(() => {
+    return Number(localStorage.getItem('test-question-count')) || 100;
+  });
   const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(() =>
+    JSON.parse(localStorage.getItem('key-bindings') || '{}')
+  );
+  const keymap = useMemo(() => getKeymap(keyBindings), [keyBindings]);
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const [isViewMode, setIsViewMode] = useState(false);
   const [previousQuestionIndex, setPreviousQuestionIndex] = useState<
@@ -57,33 +173,64 @@ function App() {
   const [language, setLanguage] = useState<Language>(() => {
     return (localStorage.getItem('preferred-language') as Language) || 'ro';
   });
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+  const [isSessionsLoaded, setIsSessionsLoaded] = useState(false);
+  const [answerHistory, setAnswerHistory] = useState<AnswerEvent[]>([]);
+  const [isStatisticsOpen, setIsStatisticsOpen] = useState(false);
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
+  const [multiScoring, setMultiScoring] = useState<MultiScoring>(() => {
+    return (localStorage.getItem('multi-scoring') as MultiScoring) || 'all-or-nothing';
+  });
+  const [examSettings, setExamSettings] = useState<ExamSettings>(() => ({
+    ...DEFAULT_EXAM_SETTINGS,
+    ...JSON.parse(localStorage.getItem('exam-settings') || '{}'),
+  }));
+  const [now, setNow] = useState(Date.now());
+  const [reviewedSession, setReviewedSession] = useState<Session | null>(null);
+  const [overrides, setOverrides] = useState<QuestionOverride[]>([]);
+  const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
+  const [flags, setFlags] = useState<QuestionFlag[]>([]);
+  const [reportedQuestion, setReportedQuestion] = useState<Question | null>(null);
+  const [isFlaggedOpen, setIsFlaggedOpen] = useState(false);
+  const [notes, setNotes] = useState<QuestionNote[]>([]);
+  const [deletions, setDeletions] = useState<Deletion[]>([]);
+  const [excludeFlagged, setExcludeFlagged] = useState(() => {
+    return localStorage.getItem('exclude-flagged') === 'true';
+  });
+  // Fraction of a practice or test session made of generated problems
+  const [generatedShare, setGeneratedShare] = useState(() => {
+    return Number(localStorage.getItem('generated-share')) || 0;
+  });
+  const [customBanks, setCustomBanks] = useState<CustomBank[]>([]);
+  const [activeBankId, setActiveBankId] = useState(() => {
+    return localStorage.getItem('active-bank') || DEFAULT_BANK_ID;
+  });
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [bankUpdates, setBankUpdates] = useState<BankUpdate[]>([]);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isSandboxOpen, setIsSandboxOpen] = useState(false);
+  const [bilingualView, setBilingualView] = useState(() => {
+    return localStorage.getItem('bilingual-view') === 'true';
+  });
+  // The question showing its translation after pressing L
+  const [translatedQuestionId, setTranslatedQuestionId] = useState<string | null>(null);
+  const questionShownAt = useRef(Date.now());
 
   useEffect(() => {
     const loadQuestions = async () => {
       try {
-        // Try to get questions from cache first
-        const cachedQuestions = await questionCache.getCachedQuestions(language);
-        if (cachedQuestions) {
-          setQuestions(cachedQuestions);
-          return;
-        }
-
-        // If not in cache, fetch from file
-        const questionFile = language === 'en' ? '/questions-en.json' : '/questions.json';
-        const response = await fetch(questionFile);
-        const data = await response.json();
-        setQuestions(data);
-
-        // Cache the questions for future use
-        await questionCache.cacheQuestions(data, language);
+        const data = await loadQuestionBank(language);
+        setBanks((prev) => ({ ...prev, [language]: data }));
+        await checkPairing(language, data);
+        checkForUpdate('ro');
+        checkForUpdate('en');
       } catch (error) {
         console.error("Error loading questions:", error);
         if (language === 'en') {
           try {
-            const response = await fetch("/questions.json");
-            const data = await response.json();
-            setQuestions(data);
-            await questionCache.cacheQuestions(data, 'ro');
+            const fallback = await loadQuestionBank('ro');
+            setBanks((prev) => ({ ...prev, en: fallback }));
           } catch (fallbackError) {
             console.error("Fallback error:", fallbackError);
           }
@@ -91,28 +238,187 @@ function App() {
       }
     };
 
+    // Warn about RO/EN entries that no longer pair up by id
+    const checkPairing = async (loaded: Language, data: Question[]) => {
+      try {
+        const otherLanguage = loaded === 'ro' ? 'en' : 'ro';
+        const other = await loadQuestionBank(otherLanguage);
+        setBanks((prev) => ({ ...prev, [otherLanguage]: other }));
+        const issues =
+          loaded === 'ro'
+            ? checkBankPairing(data, other)
+            : checkBankPairing(other, data);
+        if (issues.length) {
+          console.warn(`${issues.length} question(s) do not pair up between RO and EN:`);
+          console.table(issues);
+        }
+        const mismatches =
+          loaded === 'ro'
+            ? checkTranslationMismatches(data, other)
+            : checkTranslationMismatches(other, data);
+        if (mismatches.length) {
+          console.warn(`${mismatches.length} question(s) differ between RO and EN:`);
+          console.table(mismatches);
+        }
+      } catch (error) {
+        console.error("Error checking question bank pairing:", error);
+      }
+    };
+
+    // Cached banks are shown right away; a changed bank file replaces them
+    const checkForUpdate = async (bankLanguage: Language) => {
+      try {
+        const update = await checkForBankUpdate(bankLanguage);
+        if (!update) return;
+
+        setBanks((prev) => ({ ...prev, [bankLanguage]: update.questions }));
+        if (countBankChanges(update.changes) > 0) {
+          setBankUpdates((prev) => [
+            ...prev.filter((u) => u.language !== bankLanguage),
+            update,
+          ]);
+        }
+      } catch (error) {
+        // Offline: keep using the cached bank
+        console.warn(`Could not check for ${bankLanguage} bank updates:`, error);
+      }
+    };
+
     loadQuestions();
   }, [language]);
 
+  // Local edits from the question editor replace the fetched entries
+  const editedBanks = useMemo(
+    () => ({
+      ro: applyOverrides(banks.ro ?? [], overrides, 'ro'),
+      en: applyOverrides(banks.en ?? [], overrides, 'en'),
+    }),
+    [banks, overrides]
+  );
+  const activeCustomBank = customBanks.find((b) => b.id === activeBankId);
+  const questions = useMemo(
+    () =>
+      activeBankId === DEFAULT_BANK_ID
+        ? editedBanks[language]
+        : activeCustomBank?.questions ?? [],
+    [activeBankId, activeCustomBank, editedBanks, language]
+  );
+  // The same questions in the other language; imported banks have only one
+  const translations = useMemo(
+    () =>
+      activeBankId === DEFAULT_BANK_ID
+        ? editedBanks[language === 'ro' ? 'en' : 'ro']
+        : [],
+    [activeBankId, editedBanks, language]
+  );
+
+  // Generated problems in saved sessions, rebuilt from their ids
+  const generatedIds = useMemo(
+    () => [...new Set(sessions.flatMap((s) => s.questionIds.filter(isGeneratedId)))].join(" "),
+    [sessions]
+  );
+  const generatedQuestions = useMemo(() => {
+    const build = (lang: Language) =>
+      generatedIds
+        .split(" ")
+        .flatMap((id) => generateQuestion(id, lang) ?? []);
+    return { ro: build("ro"), en: build("en") };
+  }, [generatedIds]);
+
+  const questionsById = useMemo(
+    () =>
+      new Map(
+        [...questions, ...generatedQuestions[language]].map((q) => [q.id, q])
+      ),
+    [questions, generatedQuestions, language]
+  );
+  const translationsById = useMemo(
+    () =>
+      new Map(
+        [...translations, ...generatedQuestions[language === 'ro' ? 'en' : 'ro']].map(
+          (q) => [q.id, q]
+        )
+      ),
+    [translations, generatedQuestions, language]
+  );
+  const otherLanguage: Language = language === 'ro' ? 'en' : 'ro';
+
+  const flaggedIds = useMemo(
+    () => new Set(flags.map((f) => f.questionId)),
+    [flags]
+  );
+
+  const difficultyModel = useMemo(
+    () => buildDifficultyModel(answerHistory),
+    [answerHistory]
+  );
+
+  // Let the service worker download every question image, so they work offline
   useEffect(() => {
-    // Check system preference
-    if (window.matchMedia("(prefers-color-scheme: dark)").matches) {
-      setIsDark(true);
-      document.documentElement.classList.add("dark");
-    }
-  }, []);
+    const urls = getImageUrls([
+      ...editedBanks.ro,
+      ...editedBanks.en,
+      ...customBanks.flatMap((bank) => bank.questions),
+    ]);
+    if (!urls.length || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.ready.then((registration) =>
+      registration.active?.postMessage({ type: "cache-images", urls })
+    );
+  }, [editedBanks, customBanks]);
+
+  const notesById = useMemo(
+    () => new Map(notes.map((n) => [n.questionId, n])),
+    [notes]
+  );
+
+  // The saved theme, or the system preference until one is picked
+  useEffect(() => {
+    document.documentElement.classList.toggle("dark", isDark);
+    document.documentElement.classList.toggle("high-contrast", theme === "high-contrast");
+  }, [theme, isDark]);
 
   // Initialize storage on mount
   useEffect(() => {
     storage.init();
   }, []);
 
+  // Load imported banks, falling back to the built-in one if the active bank is gone
+  useEffect(() => {
+    questionCache
+      .getBanks()
+      .then((banks) => {
+        setCustomBanks(banks);
+        setActiveBankId((prev) =>
+          banks.some((b) => b.id === prev) ? prev : DEFAULT_BANK_ID
+        );
+      })
+      .catch((error) => console.error("Error loading imported banks:", error));
+  }, []);
+
   // Load sessions from file
   useEffect(() => {
     const loadSavedSessions = async () => {
       try {
-        const { sessions: savedSessions, currentSessionId } =
-          await storage.loadSessions();
+        const saved = await storage.loadSessions();
+        let savedSessions = saved.sessions;
+        let savedCards = await storage.loadCards();
+        const { currentSessionId } = saved;
+
+        // Convert sessions and cards saved with array indices to question ids
+        if (needsIdMigration(savedSessions, savedCards)) {
+          const bank = await loadQuestionBank('ro');
+          savedSessions = migrateSessions(savedSessions, bank);
+          savedCards = migrateCards(savedCards, bank);
+          await storage.saveSessions(savedSessions, currentSessionId);
+          await storage.replaceCards(savedCards);
+        }
+
+        setReviewCards(savedCards);
+        setAnswerHistory(await storage.loadAnswerEvents());
+        setOverrides(await storage.loadOverrides());
+        setFlags(await storage.loadFlags());
+        setNotes(await storage.loadNotes());
+        setDeletions(await storage.loadDeletions());
         if (savedSessions.length) {
           setSessions(savedSessions);
 
@@ -130,6 +436,8 @@ function App() {
         }
       } catch (error) {
         console.error("Error loading sessions:", error);
+      } finally {
+        setIsSessionsLoaded(true);
       }
     };
 
@@ -138,6 +446,9 @@ function App() {
 
   // Save sessions to file when updated
   useEffect(() => {
+    // Don't overwrite saved sessions before they have been loaded
+    if (!isSessionsLoaded) return;
+
     const saveSessionsToFile = async () => {
       try {
         await storage.saveSessions(sessions, currentSession?.id);
@@ -147,49 +458,188 @@ function App() {
     };
 
     saveSessionsToFile();
-  }, [sessions, currentSession]);
+  }, [sessions, currentSession, isSessionsLoaded]);
+
+  // View mode shows a question picked from the whole bank
+  const currentQuestion: Question | undefined =
+    currentSession && !isViewMode
+      ? questionsById.get(currentSession.questionIds[currentQuestionIndex])
+      : questions[currentQuestionIndex];
+
+  const currentKind = currentQuestion
+    ? getQuestionKind(currentQuestion)
+    : "single";
+
+  const currentTranslation = currentQuestion
+    ? translationsById.get(currentQuestion.id)
+    : undefined;
+  // Shown next to the question in bilingual view, or for one question with L
+  const shownTranslation =
+    bilingualView || translatedQuestionId === currentQuestion?.id
+      ? currentTranslation
+      : undefined;
+  const currentDifficulty = currentQuestion
+    ? getDifficultyLevel(difficultyModel, currentQuestion.id)
+    : null;
+  const translationMismatch =
+    currentQuestion && currentTranslation
+      ? findTranslationMismatch(currentQuestion, currentTranslation)
+      : null;
+
+  // Exam answers are kept in the session and only graded on submission
+  const exam = currentSession?.mode === "exam" ? currentSession.exam : undefined;
+  const isExam = !!exam && !isViewMode;
+  const isExamRunning = !!exam && !exam.submittedAt && !gameOver;
+
+  // The answer given so far, in the shape the question kind expects
+  const response: AnswerValue = isExam
+    ? (exam.responses[currentQuestionIndex] ??
+      (currentKind === "multiple" ? [] : ""))
+    : currentKind === "multiple"
+      ? selectedAnswers
+      : currentKind === "text" || currentKind === "task"
+        ? textAnswer
+        : selectedAnswer;
+
+  const updateCurrentSession = (changes: Partial<Session>) => {
+    if (!currentSession) return;
+
+    const updatedSession = { ...currentSession, ...changes, updatedAt: Date.now() };
+    setSessions((prev) =>
+      prev.map((s) => (s.id === updatedSession.id ? updatedSession : s))
+    );
+    setCurrentSession(updatedSession);
+  };
 
-  const currentQuestion = currentSession
-    ? questions[currentSession.questionIds[currentQuestionIndex]]
-    : questions[currentQuestionIndex];
+  const updateExam = (changes: Partial<ExamState>) => {
+    if (!currentSession?.exam) return;
+    updateCurrentSession({ exam: { ...currentSession.exam, ...changes } });
+  };
 
-  const handleAnswerSelect = (answer: string) => {
-    if (!isAnswerSubmitted) {
-      setSelectedAnswer(answer);
-    }
+  const setExamResponse = (value: AnswerValue) => {
+    if (!exam) return;
+    updateExam({
+      responses: { ...exam.responses, [currentQuestionIndex]: value },
+    });
   };
 
-  const isCorrectAnswer = (
-    answer: string,
-    question: Question
-  ): boolean => {
-    if (question.answers.length === 0) {
-      // For text input questions
-      return answer.toLowerCase() === question.correct.toLowerCase();
-    }
+  const handleTextChange = (value: string) => {
+    if (isExam) setExamResponse(value);
+    else setTextAnswer(value);
+  };
+
+  const toggleExamFlag = () => {
+    if (!exam) return;
+    updateExam({
+      flagged: exam.flagged.includes(currentQuestionIndex)
+        ? exam.flagged.filter((p) => p !== currentQuestionIndex)
+        : [...exam.flagged, currentQuestionIndex],
+    });
+  };
 
-    // For True/False questions - direct comparison
-    return answer === question.correct;
+  const handleAnswerSelect = (answer: string) => {
+    if (isAnswerSubmitted) return;
+
+    if (isExam) {
+      setExamResponse(
+        currentKind !== "multiple"
+          ? answer
+          : isSelected(response, answer)
+            ? (response as string[]).filter((a) => a !== answer)
+            : [...(response as string[]), answer]
+      );
+    } else if (currentKind === "multiple") {
+      setSelectedAnswers((prev) =>
+        prev.includes(answer)
+          ? prev.filter((a) => a !== answer)
+          : [...prev, answer]
+      );
+    } else {
+      setSelectedAnswer(answer);
+    }
   };
 
   const handleSubmit = async () => {
-    if ((!selectedAnswer && !textAnswer) || isAnswerSubmitted) return;
+    if (!hasResponse(response) || isAnswerSubmitted || !currentQuestion || isExam)
+      return;
 
     setIsAnswerSubmitted(true);
 
     if (!answeredQuestions.has(currentQuestionIndex)) {
-      if (isCorrectAnswer(selectedAnswer, currentQuestion)) {
-        setScore((prev) => prev + 1);
-      } else {
-        setWrongAnswers((prev) => [
-          ...prev,
-          [currentQuestion, selectedAnswer],
-        ]);
+      const credit = gradeAnswer(currentQuestion, response, multiScoring);
+      const isCorrect = credit === 1;
+      // A question reported as broken can be left out of the score
+      const isExcluded = excludeFlagged && flaggedIds.has(currentQuestion.id);
+      if (!isExcluded) {
+        setScore((prev) => prev + credit);
+      }
+      if (currentSession && !isViewMode) {
+        updateCurrentSession({
+          answers: [
+            ...(currentSession.answers ?? []),
+            {
+              position: currentQuestionIndex,
+              questionId: currentQuestion.id,
+              answer: response,
+              correct: isCorrect,
+            },
+          ],
+          ...(isExcluded && {
+            excludedQuestions: [
+              ...(currentSession.excludedQuestions ?? []),
+              currentQuestionIndex,
+            ],
+          }),
+        });
       }
       setAnsweredQuestions((prev) => new Set(prev).add(currentQuestionIndex));
+      updateReviewCard(currentQuestion.id, isCorrect);
+      recordAnswer(currentQuestion.id, response, isCorrect);
     }
   };
 
+  const recordAnswer = (
+    questionId: string,
+    answer: AnswerValue,
+    correct: boolean,
+    timeTaken?: number
+  ) => {
+    const now = Date.now();
+    const event: AnswerEvent = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      questionId,
+      answer,
+      correct,
+      timeTaken: timeTaken ?? now - questionShownAt.current,
+      sessionId: currentSession?.id ?? null,
+      language,
+      timestamp: now,
+    };
+
+    setAnswerHistory((prev) => [...prev, event]);
+    storage
+      .addAnswerEvent(event)
+      .catch((error) => console.error("Error saving answer:", error));
+  };
+
+  const updateReviewCard = (questionId: string, isCorrect: boolean) => {
+    // A generated problem is never asked again, so there is nothing to schedule
+    if (isGeneratedId(questionId)) return;
+
+    const card =
+      reviewCards.find((c) => c.questionId === questionId) ??
+      createCard(questionId);
+    const updatedCard = reviewCard(card, isCorrect);
+
+    setReviewCards((prev) => [
+      ...prev.filter((c) => c.questionId !== questionId),
+      updatedCard,
+    ]);
+    storage
+      .saveCard(updatedCard)
+      .catch((error) => console.error("Error saving review card:", error));
+  };
+
   const handleNext = () => {
     const maxQuestions = currentSession 
       ? currentSession.totalQuestions
@@ -197,114 +647,222 @@ function App() {
         ? questions.length
         : Math.min(numberOfQuestions, questions.length);
 
+    // Adaptive sessions pick the next question only once it is needed
+    if (
+      currentSession?.mode === "adaptive" &&
+      currentQuestionIndex === currentSession.questionIds.length - 1 &&
+      currentQuestionIndex < maxQuestions - 1
+    ) {
+      const { model, estimate } = getSessionAbility(currentSession, answerHistory);
+      const next = pickAdaptiveQuestion(
+        filterByTopics(questions, currentSession.topics ?? []),
+        model,
+        estimate.ability,
+        currentSession.questionIds
+      );
+      if (!next) {
+        setGameOver(true);
+        return;
+      }
+      updateCurrentSession({ questionIds: [...currentSession.questionIds, next.id] });
+    }
+
     if (currentQuestionIndex < maxQuestions - 1) {
       setDirection(1);
       setCurrentQuestionIndex((prev) => prev + 1);
       setSelectedAnswer("");
+      setSelectedAnswers([]);
       setTextAnswer("");
       setIsAnswerSubmitted(false);
-    } else {
+    } else if (!isExam) {
+      // Exams only end when they are submitted
       setGameOver(true);
     }
   };
 
+  const goToExamQuestion = (position: number) => {
+    setDirection(position > currentQuestionIndex ? 1 : -1);
+    setCurrentQuestionIndex(position);
+  };
+
+  const submitExam = () => {
+    if (!currentSession?.exam || currentSession.exam.submittedAt) return;
+
+    const submittedAt = Date.now();
+    const result = gradeExam(currentSession, questionsById, multiScoring);
+    const answered = result.items.filter((item) => item.response !== undefined);
+    const timePerAnswer = answered.length
+      ? (submittedAt - currentSession.exam.startedAt) / answered.length
+      : 0;
+
+    answered.forEach((item) => {
+      updateReviewCard(item.question.id, item.credit === 1);
+      recordAnswer(item.question.id, item.response!, item.credit === 1, timePerAnswer);
+    });
+
+    // Unanswered questions are recorded as mistakes too
+    updateCurrentSession({
+      exam: { ...currentSession.exam, submittedAt },
+      answers: result.items.map((item) => ({
+        position: item.position,
+        questionId: item.question.id,
+        answer: item.response ?? "",
+        correct: item.credit === 1,
+      })),
+    });
+    setAnsweredQuestions(new Set(answered.map((item) => item.position)));
+    setScore(result.score);
+    setGameOver(true);
+  };
+
+  // The timer effect below calls the latest submitExam, with the session and
+  // answers of the current render
+  const submitExamRef = useRef(submitExam);
+  submitExamRef.current = submitExam;
+
+  const handleSubmitExam = () => {
+    if (!exam) return;
+    const unanswered =
+      (currentSession?.totalQuestions ?? 0) -
+      Object.values(exam.responses).filter(hasResponse).length;
+
+    if (
+      unanswered === 0 ||
+      window.confirm(`${unanswered} question(s) are unanswered. Submit the exam anyway?`)
+    ) {
+      submitExam();
+    }
+  };
+
+  // Tick the exam countdown
+  useEffect(() => {
+    if (!isExamRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isExamRunning]);
+
+  // Auto-submit when time runs out, including an exam resumed after its deadline
+  useEffect(() => {
+    if (isExamRunning && questions.length && Date.now() >= exam.deadline) {
+      submitExamRef.current();
+    }
+  }, [now, isExamRunning, questions.length, exam?.deadline, submitExamRef]);
+
   const handlePrevious = () => {
     if (currentQuestionIndex > 0) {
       setDirection(-1);
       setCurrentQuestionIndex((prev) => prev - 1);
       setSelectedAnswer("");
+      setSelectedAnswers([]);
       setIsAnswerSubmitted(false);
     }
   };
 
-  const toggleDarkMode = () => {
-    setIsDark(!isDark);
-    document.documentElement.classList.toggle("dark");
+  const changeTheme = (next: Theme) => {
+    setTheme(next);
+    localStorage.setItem('theme', next);
+  };
+
+  const toggleDarkMode = () => changeTheme(isDark ? "light" : "dark");
+
+  const changeKeyBindings = (bindings: KeyBindings) => {
+    setKeyBindings(bindings);
+    localStorage.setItem("key-bindings", JSON.stringify(bindings));
   };
 
   const toggleLanguage = () => {
     const newLanguage = language === 'ro' ? 'en' : 'ro';
+    // Answers are selected by text, so carry the selection over by position
+    if (currentQuestion && currentTranslation) {
+      const translate = (answer: string) =>
+        currentTranslation.answers[currentQuestion.answers.indexOf(answer)] ?? answer;
+      setSelectedAnswer((prev) => (prev ? translate(prev) : prev));
+      setSelectedAnswers((prev) => prev.map(translate));
+    }
     setLanguage(newLanguage);
     localStorage.setItem('preferred-language', newLanguage);
   };
 
-  // Update the keyboard event handler
+  const toggleQuestionTranslation = () => {
+    if (!currentQuestion) return;
+    setTranslatedQuestionId((prev) =>
+      prev === currentQuestion.id ? null : currentQuestion.id
+    );
+  };
+
+  // Question shortcuts; the review screens and dialogs have their own
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't handle shortcuts if we're in an input field
-      if (e.target instanceof HTMLInputElement) return;
-      if (!currentQuestion) return;
-
-      switch (e.key) {
-        case "Enter":
+      if (isTypingTarget(e.target) || hasOpenDialog()) return;
+      if (!currentQuestion || reviewedSession || gameOver) return;
+
+      const answers = currentQuestion.answers;
+      // True/False questions can be answered with a single key
+      const trueFalseAnswer = (value: string) =>
+        answers.find((answer) => answer.trim().toLowerCase() === value);
+
+      const action = getAction(keymap, "quiz", e);
+      switch (action) {
+        case "submit":
+          // Other buttons keep Enter for themselves; on an answer it submits instead of clicking
+          if (
+            e.target instanceof HTMLButtonElement &&
+            !answerRefs.current.includes(e.target)
+          ) {
+            break;
+          }
+          e.preventDefault();
           // Submit answer or go to next question
-          if (isAnswerSubmitted) {
+          if (isAnswerSubmitted || isExam) {
             handleNext();
-                      } else if (
-              (currentQuestion.answers.length > 0 &&
-                selectedAnswer) ||
-              (currentQuestion.answers.length === 0 && textAnswer.length > 0)
-            ) {
+          } else if (hasResponse(response)) {
             handleSubmit();
           }
           break;
 
-        case " ": // Space
-          if (
-            currentQuestion.answers.length > 0 &&
-            focusedAnswerIndex >= 0 &&
-            !isAnswerSubmitted
-          ) {
+        case "toggleAnswer":
+          if (answers.length > 0 && focusedAnswerIndex >= 0 && !isAnswerSubmitted) {
             e.preventDefault(); // Prevent page scroll
-            handleAnswerSelect(currentQuestion.answers[focusedAnswerIndex]);
+            handleAnswerSelect(answers[focusedAnswerIndex]);
           }
           break;
 
-        case "ArrowUp":
-          if (currentQuestion.answers.length > 0) {
+        case "previousAnswer":
+          if (answers.length > 0) {
             e.preventDefault();
-            setFocusedAnswerIndex((prev) =>
-              prev <= 0 ? currentQuestion.answers.length - 1 : prev - 1
-            );
+            setFocusedAnswerIndex((prev) => (prev <= 0 ? answers.length - 1 : prev - 1));
           }
           break;
 
-        case "ArrowDown":
-          if (currentQuestion.answers.length > 0) {
+        case "nextAnswer":
+          if (answers.length > 0) {
             e.preventDefault();
-            setFocusedAnswerIndex((prev) =>
-              prev >= currentQuestion.answers.length - 1 ? 0 : prev + 1
-            );
+            setFocusedAnswerIndex((prev) => (prev >= answers.length - 1 ? 0 : prev + 1));
           }
           break;
 
-        case "Tab":
-          if (currentQuestion.answers.length > 0) {
+        case "answerTrue":
+        case "answerFalse": {
+          const answer = trueFalseAnswer(action === "answerTrue" ? "true" : "false");
+          if (answer && !isAnswerSubmitted) {
             e.preventDefault();
-            if (e.shiftKey) {
-              setFocusedAnswerIndex((prev) =>
-                prev <= 0 ? currentQuestion.answers.length - 1 : prev - 1
-              );
-            } else {
-              setFocusedAnswerIndex((prev) =>
-                prev >= currentQuestion.answers.length - 1 ? 0 : prev + 1
-              );
-            }
+            handleAnswerSelect(answer);
           }
           break;
+        }
+
+        case "toggleTranslation":
+          toggleQuestionTranslation();
+          break;
 
         // Number keys 1-9 for quick answer selection
-        default:
+        case "selectAnswer": {
           const num = parseInt(e.key);
-          if (
-            !isAnswerSubmitted &&
-            currentQuestion.answers.length > 0 &&
-            num >= 1 &&
-            num <= currentQuestion.answers.length
-          ) {
-            handleAnswerSelect(currentQuestion.answers[num - 1]);
+          if (!isAnswerSubmitted && num <= answers.length) {
+            handleAnswerSelect(answers[num - 1]);
           }
           break;
+        }
       }
     };
 
@@ -314,8 +872,11 @@ function App() {
     currentQuestion,
     focusedAnswerIndex,
     isAnswerSubmitted,
-    selectedAnswer,
-    textAnswer,
+    response,
+    isExam,
+    keymap,
+    reviewedSession,
+    gameOver,
   ]);
 
   // Reset focused answer when question changes
@@ -323,6 +884,16 @@ function App() {
     setFocusedAnswerIndex(-1);
   }, [currentQuestionIndex]);
 
+  // Arrow keys move the real focus, so screen readers follow along
+  useEffect(() => {
+    if (focusedAnswerIndex >= 0) answerRefs.current[focusedAnswerIndex]?.focus();
+  }, [focusedAnswerIndex]);
+
+  // Start timing the answer whenever a new question is shown
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+  }, [currentQuestion?.id]);
+
   // Add a new useEffect to focus the input when the question changes
   useEffect(() => {
     if (currentQuestion && currentQuestion.answers.length === 0) {
@@ -336,30 +907,125 @@ function App() {
   const cardClass =
     "bg-[var(--ios-card-background)] border border-[var(--ios-border)]";
 
-  const createNewSession = (questionCount: number, isTest: boolean = false) => {
-    let questionIds: number[];
-    
-    const allIndices = Array.from({ length: questions.length }, (_, i) => i);
-    questionIds = [];
-    const count = Math.min(questionCount, questions.length);
+  const createNewSession = (
+    questionCount: number,
+    isTest: boolean = false,
+    topics: string[] = selectedTopics
+  ) => {
+    // The seed is kept with the session, so its questions can be drawn again
+    const seed = randomSeed();
+    const random = createRandom(seed);
+    const allIds = shuffled(
+      random,
+      filterByTopics(questions, topics).map((q) => q.id)
+    );
+    const count = Math.min(questionCount, allIds.length);
+
+    // Generated problems are about operating systems, so only the built-in
+    // bank gets them
+    const newProblemIds =
+      activeBankId === DEFAULT_BANK_ID
+        ? createGeneratedIds(Math.round(count * generatedShare), topics, random)
+        : [];
+    const questionIds = shuffled(random, [
+      ...allIds.slice(0, count - newProblemIds.length),
+      ...newProblemIds,
+    ]);
+
+    if (questionIds.length) {
+      startSession(
+        questionIds,
+        isTest ? "test" : "practice",
+        topics,
+        undefined,
+        undefined,
+        seed
+      );
+    }
+  };
+
+  // Build a session from the cards that are due, most overdue first
+  const createReviewSession = () => {
+    const questionIds = getDueCards(reviewCards)
+      .map((card) => card.questionId)
+      .filter((id) => questionsById.has(id));
+
+    if (questionIds.length) {
+      startSession(questionIds, "review");
+    }
+  };
+
+  const createExamSession = () => {
+    const seed = randomSeed();
+    const allIds = shuffled(
+      createRandom(seed),
+      filterByTopics(questions, selectedTopics).map((q) => q.id)
+    );
+    const questionIds = allIds.slice(0, examSettings.questionCount);
+    if (!questionIds.length) return;
+
+    const startedAt = Date.now();
+    const examState: ExamState = {
+      timeLimitMinutes: examSettings.timeLimitMinutes,
+      passMark: examSettings.passMark,
+      negativeMarking: examSettings.negativeMarking,
+      startedAt,
+      deadline: startedAt + examSettings.timeLimitMinutes * 60 * 1000,
+      responses: {},
+      flagged: [],
+      submittedAt: null,
+    };
+    startSession(questionIds, "exam", selectedTopics, examState, undefined, seed);
+  };
 
-    for (let i = allIndices.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [allIndices[i], allIndices[j]] = [allIndices[j], allIndices[i]];
+  // Starts with one question near the current ability; handleNext picks the rest
+  const createAdaptiveSession = (
+    questionCount: number,
+    topics: string[] = selectedTopics
+  ) => {
+    const pool = filterByTopics(questions, topics);
+    const first = pickAdaptiveQuestion(pool, difficultyModel, difficultyModel.ability, []);
+    if (first) {
+      startSession(
+        [first.id],
+        "adaptive",
+        topics,
+        undefined,
+        Math.min(questionCount, pool.length)
+      );
     }
+  };
 
-    questionIds = allIndices.slice(0, count);
+  const updateExamSettings = (changes: Partial<ExamSettings>) => {
+    const updated = { ...examSettings, ...changes };
+    setExamSettings(updated);
+    localStorage.setItem("exam-settings", JSON.stringify(updated));
+  };
 
+  const startSession = (
+    questionIds: string[],
+    mode: SessionMode,
+    topics: string[] = [],
+    exam?: ExamState,
+    totalQuestions = questionIds.length,
+    seed?: number
+  ) => {
     const newSession: Session = {
       id: Date.now().toString(),
       timestamp: Date.now(),
-      totalQuestions: questionIds.length,
+      totalQuestions,
       currentQuestionIndex: 0,
       score: 0,
-      isTest,
+      isTest: mode === "test",
+      mode,
+      topics,
+      bankId: activeBankId === DEFAULT_BANK_ID ? undefined : activeBankId,
+      exam,
+      answers: [],
       questionIds,
       answeredQuestions: [],
       completed: false,
+      seed,
     };
 
     setSessions((prev) => [...prev, newSession]);
@@ -367,10 +1033,11 @@ function App() {
     setCurrentQuestionIndex(0);
     setScore(0);
     setAnsweredQuestions(new Set());
-    setWrongAnswers([]);
     setShowReview(false);
+    setReviewedSession(null);
     setGameOver(false);
     setSelectedAnswer("");
+    setSelectedAnswers([]);
     setTextAnswer("");
     setIsAnswerSubmitted(false);
     setFocusedAnswerIndex(-1);
@@ -378,6 +1045,26 @@ function App() {
     setPreviousQuestionIndex(null);
   };
 
+  // Questions answered wrongly in a session, paired with the answer given
+  const getMistakes = (session: Session | null) =>
+    (session?.answers ?? []).flatMap(
+      (answer: SessionAnswer): Array<[Question, AnswerValue]> => {
+        const question = questionsById.get(answer.questionId);
+        return !answer.correct && question ? [[question, answer.answer]] : [];
+      }
+    );
+
+  const retryMistakes = (session: Session | null) => {
+    const questionIds = [
+      ...new Set(getMistakes(session).map(([question]) => question.id)),
+    ];
+    if (questionIds.length) {
+      startSession(questionIds, "practice");
+    }
+  };
+
+  const wrongAnswers = getMistakes(currentSession);
+
   const resumeSession = (session: Session) => {
     setCurrentSession(session);
     setCurrentQuestionIndex(session.currentQuestionIndex);
@@ -388,13 +1075,13 @@ function App() {
   // Update the current session progress
   useEffect(() => {
     if (currentSession) {
-      const updatedSession = {
-        ...currentSession,
+      const updatedSession = withProgress(currentSession, {
         currentQuestionIndex,
         score,
         answeredQuestions: Array.from(answeredQuestions),
         completed: gameOver,
-      };
+      });
+      if (updatedSession === currentSession) return;
       setSessions((prev) =>
         prev.map((s) => (s.id === currentSession.id ? updatedSession : s))
       );
@@ -402,26 +1089,250 @@ function App() {
     }
   }, [currentQuestionIndex, score, answeredQuestions, gameOver]);
 
+  // Remembered so that a sync removes the same entries on the other device
+  const recordDeletions = (kind: Deletion["kind"], keys: string[]) => {
+    const deletedAt = Date.now();
+    const recorded = keys.map((key) => ({ kind, key, deletedAt }));
+    setDeletions((prev) => [
+      ...prev.filter((d) => d.kind !== kind || !keys.includes(d.key)),
+      ...recorded,
+    ]);
+    storage
+      .saveDeletions(recorded)
+      .catch((error) => console.error("Error saving deletions:", error));
+  };
+
   // Add delete session function
   const deleteSession = (sessionId: string) => {
     setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    recordDeletions("session", [sessionId]);
     if (currentSession?.id === sessionId) {
       setCurrentSession(null);
     }
   };
   
-  // Add keyboard shortcut for command palette
+  // Sessions started from the active bank
+  const bankSessions = sessions.filter(
+    (s) => (s.bankId ?? DEFAULT_BANK_ID) === activeBankId
+  );
+
+  // Go back to browsing without an active session
+  const leaveSession = () => {
+    setCurrentSession(null);
+    setCurrentQuestionIndex(0);
+    setScore(0);
+    setAnsweredQuestions(new Set());
+    setShowReview(false);
+    setReviewedSession(null);
+    setGameOver(false);
+    setSelectedAnswer("");
+    setSelectedAnswers([]);
+    setTextAnswer("");
+    setIsAnswerSubmitted(false);
+    setIsViewMode(false);
+    setPreviousQuestionIndex(null);
+  };
+
+  const switchBank = (bankId: string) => {
+    setActiveBankId(bankId);
+    localStorage.setItem("active-bank", bankId);
+    // Each bank has its own sessions, so leave the current one
+    leaveSession();
+  };
+
+  // The progress alone, as it is sent to another device
+  const syncData = useMemo(
+    (): SyncState => ({
+      sessions,
+      answerEvents: answerHistory,
+      reviewCards,
+      overrides,
+      flags,
+      notes,
+      deletions,
+    }),
+    [sessions, answerHistory, reviewCards, overrides, flags, notes, deletions]
+  );
+
+  const backupData = useMemo(
+    (): BackupData => ({
+      sessions,
+      answerEvents: answerHistory,
+      reviewCards,
+      overrides,
+      flags,
+      notes,
+      preferences: {
+        language,
+        testQuestionCount,
+        theme,
+        keyBindings,
+        multiScoring,
+        examSettings,
+        excludeFlagged,
+        generatedShare,
+      },
+    }),
+    [
+      sessions,
+      answerHistory,
+      reviewCards,
+      overrides,
+      flags,
+      notes,
+      language,
+      testQuestionCount,
+      theme,
+      keyBindings,
+      multiScoring,
+      examSettings,
+      excludeFlagged,
+      generatedShare,
+    ]
+  );
+
+  const replaceProgress = async (data: Omit<BackupData, "preferences">) => {
+    setSessions(data.sessions);
+    setAnswerHistory(data.answerEvents);
+    setReviewCards(data.reviewCards);
+    setOverrides(data.overrides);
+    setFlags(data.flags);
+    setNotes(data.notes);
+
+    // Sessions are saved by the effect watching them
+    try {
+      await Promise.all([
+        storage.replaceAnswerEvents(data.answerEvents),
+        storage.replaceCards(data.reviewCards),
+        storage.replaceOverrides(data.overrides),
+        storage.replaceFlags(data.flags),
+        storage.replaceNotes(data.notes),
+      ]);
+    } catch (error) {
+      console.error("Error saving progress:", error);
+    }
+  };
+
+  const restoreBackup = async (data: BackupData) => {
+    const { preferences } = data;
+
+    leaveSession();
+    const restored = replaceProgress(data);
+
+    if (preferences.language) {
+      setLanguage(preferences.language);
+      localStorage.setItem("preferred-language", preferences.language);
+    }
+    if (preferences.testQuestionCount) {
+      setTestQuestionCount(preferences.testQuestionCount);
+      localStorage.setItem("test-question-count", String(preferences.testQuestionCount));
+    }
+    if (preferences.theme) {
+      setTheme(preferences.theme);
+      localStorage.setItem("theme", preferences.theme);
+    }
+    if (preferences.keyBindings) changeKeyBindings(preferences.keyBindings);
+    if (preferences.multiScoring) {
+      setMultiScoring(preferences.multiScoring);
+      localStorage.setItem("multi-scoring", preferences.multiScoring);
+    }
+    if (preferences.examSettings) {
+      updateExamSettings(preferences.examSettings);
+    }
+    if (preferences.excludeFlagged !== undefined) {
+      setExcludeFlagged(preferences.excludeFlagged);
+      localStorage.setItem("exclude-flagged", String(preferences.excludeFlagged));
+    }
+    if (preferences.generatedShare !== undefined) {
+      setGeneratedShare(preferences.generatedShare);
+      localStorage.setItem("generated-share", String(preferences.generatedShare));
+    }
+
+    await restored;
+  };
+
+  // Unlike a restore, a sync keeps the open session, unless the other device
+  // deleted it. When the other device changed it last, carry on from where
+  // that device got to
+  const applySyncedState = async (state: SyncState) => {
+    const synced = currentSession && state.sessions.find((s) => s.id === currentSession.id);
+    if (currentSession && !synced) {
+      leaveSession();
+    } else if (synced && JSON.stringify(synced) !== JSON.stringify(currentSession)) {
+      if (synced.currentQuestionIndex !== currentQuestionIndex) {
+        setSelectedAnswer("");
+        setSelectedAnswers([]);
+        setTextAnswer("");
+        setIsAnswerSubmitted(false);
+        setPreviousQuestionIndex(null);
+      }
+      resumeSession(synced);
+      setGameOver(synced.completed);
+    }
+    setDeletions(state.deletions);
+    await Promise.all([
+      replaceProgress(state),
+      storage
+        .replaceDeletions(state.deletions)
+        .catch((error) => console.error("Error saving deletions:", error)),
+    ]);
+  };
+
+  const importBank = async (bank: CustomBank) => {
+    try {
+      await questionCache.saveBank(bank);
+      setCustomBanks((prev) => [...prev, bank]);
+      switchBank(bank.id);
+    } catch (error) {
+      console.error("Error importing question bank:", error);
+    }
+  };
+
+  const deleteBank = async (bank: CustomBank) => {
+    const sessionCount = sessions.filter((s) => s.bankId === bank.id).length;
+    if (
+      !window.confirm(
+        `Delete "${bank.name}" and its ${sessionCount} session(s)?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await questionCache.deleteBank(bank.id);
+      setCustomBanks((prev) => prev.filter((b) => b.id !== bank.id));
+      setSessions((prev) => prev.filter((s) => s.bankId !== bank.id));
+      recordDeletions(
+        "session",
+        sessions.filter((s) => s.bankId === bank.id).map((s) => s.id)
+      );
+      if (activeBankId === bank.id) switchBank(DEFAULT_BANK_ID);
+    } catch (error) {
+      console.error("Error deleting question bank:", error);
+    }
+  };
+
+  // Shortcuts that work on every screen; with a modifier they work in text fields too
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === "k") {
-        e.preventDefault();
-        setIsCommandPaletteOpen(true);
+      const hasModifier = e.metaKey || e.ctrlKey || e.altKey;
+      if (!hasModifier && (isTypingTarget(e.target) || hasOpenDialog())) return;
+
+      switch (getAction(keymap, "global", e)) {
+        case "openSearch":
+          e.preventDefault();
+          setIsCommandPaletteOpen(true);
+          break;
+        case "showShortcuts":
+          e.preventDefault();
+          setIsHelpOpen(true);
+          break;
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, []);
+  }, [keymap]);
 
   // Add command palette handler
   const handleQuestionSelect = (index: number) => {
@@ -430,11 +1341,80 @@ function App() {
     }
     setCurrentQuestionIndex(index);
     setSelectedAnswer("");
+    setSelectedAnswers([]);
     setTextAnswer("");
     setIsAnswerSubmitted(false);
     setIsViewMode(true);
   };
 
+  const saveQuestionOverride = async (override: QuestionOverride) => {
+    setOverrides((prev) => [
+      ...prev.filter((o) => o.id !== override.id),
+      override,
+    ]);
+    try {
+      await storage.saveOverride(override);
+    } catch (error) {
+      console.error("Error saving question edit:", error);
+    }
+  };
+
+  const resetQuestionOverride = async (id: string) => {
+    setOverrides((prev) => prev.filter((o) => o.id !== id));
+    recordDeletions("override", [id]);
+    try {
+      await storage.deleteOverride(id);
+    } catch (error) {
+      console.error("Error reverting question edit:", error);
+    }
+  };
+
+  const saveFlag = async (flag: QuestionFlag) => {
+    setFlags((prev) => [
+      ...prev.filter((f) => f.questionId !== flag.questionId),
+      flag,
+    ]);
+    try {
+      await storage.saveFlag(flag);
+    } catch (error) {
+      console.error("Error saving flag:", error);
+    }
+  };
+
+  const removeFlag = async (questionId: string) => {
+    setFlags((prev) => prev.filter((f) => f.questionId !== questionId));
+    recordDeletions("flag", [questionId]);
+    try {
+      await storage.deleteFlag(questionId);
+    } catch (error) {
+      console.error("Error removing flag:", error);
+    }
+  };
+
+  // An empty note removes it
+  const saveNote = async (questionId: string, text: string) => {
+    setNotes((prev) => [
+      ...prev.filter((n) => n.questionId !== questionId),
+      ...(text ? [{ questionId, text, updatedAt: Date.now() }] : []),
+    ]);
+    if (!text) recordDeletions("note", [questionId]);
+    try {
+      if (text) {
+        await storage.saveNote({ questionId, text, updatedAt: Date.now() });
+      } else {
+        await storage.deleteNote(questionId);
+      }
+    } catch (error) {
+      console.error("Error saving note:", error);
+    }
+  };
+
+  // Download both banks with local edits applied, ready to replace the files in public/
+  const exportQuestionBanks = () => {
+    downloadFile("questions.json", serializeQuestionBank(editedBanks.ro));
+    downloadFile("questions-en.json", serializeQuestionBank(editedBanks.en));
+  };
+
   // Add handler for resuming practice
   const handleResumePractice = () => {
     setIsViewMode(false);
@@ -448,6 +1428,33 @@ function App() {
     }
   };
 
+  const getSessionLabel = (session: Session | null) => {
+    if (session?.mode === "review") return "Review";
+    if (session?.mode === "exam") return "Exam";
+    if (session?.mode === "adaptive") return "Adaptive Test";
+    return session?.isTest ? "Test" : "Practice";
+  };
+
+  const toggleTopic = (topic: string) => {
+    setSelectedTopics((prev) =>
+      prev.includes(topic) ? prev.filter((t) => t !== topic) : [...prev, topic]
+    );
+  };
+
+  const topicCounts = useMemo(
+    () =>
+      new Map(
+        ALL_TOPICS.map((topic) => [
+          topic,
+          filterByTopics(questions, [topic]).length,
+        ])
+      ),
+    [questions]
+  );
+
+  const dueCount = getDueCards(reviewCards).length;
+  const dueForecast = getDueForecast(reviewCards);
+
   if (!questions.length) {
     return (
       <div className={`${containerClass} flex items-center justify-center p-4`}>
@@ -460,66 +1467,104 @@ function App() {
     );
   }
 
+  const flagDialog = (
+    <FlagDialog
+      question={reportedQuestion}
+      flag={flags.find((f) => f.questionId === reportedQuestion?.id)}
+      onSave={saveFlag}
+      onRemove={removeFlag}
+      onClose={() => setReportedQuestion(null)}
+    />
+  );
+
+  const shortcutsDialog = (
+    <ShortcutsDialog
+      isOpen={isHelpOpen}
+      onOpenChange={setIsHelpOpen}
+      keymap={keymap}
+      bindings={keyBindings}
+      onChange={changeKeyBindings}
+    />
+  );
+
+  // Review a session picked from the history list
+  if (reviewedSession) {
+    return (
+      <>
+        <ReviewMistakes
+          mistakes={getMistakes(reviewedSession)}
+          backLabel="Back"
+          onBack={() => setReviewedSession(null)}
+          onRetry={() => retryMistakes(reviewedSession)}
+          flaggedIds={flaggedIds}
+          onReport={setReportedQuestion}
+          notes={notesById}
+          onSaveNote={saveNote}
+          keymap={keymap}
+        />
+        {flagDialog}
+        {shortcutsDialog}
+      </>
+    );
+  }
+
+  // Questions left out of the score don't count towards its total either
+  const scoredTotal =
+    (currentSession?.totalQuestions || questions.length) -
+    (currentSession?.excludedQuestions?.length ?? 0);
+
   if (gameOver) {
     const totalQuestions = currentSession?.totalQuestions || questions.length;
-    const percentage = (score / totalQuestions) * 100;
-    const wrongCount = wrongAnswers.length;
-    const correctCount = score;
+    const excludedCount = totalQuestions - scoredTotal;
+    const percentage = scoredTotal > 0 ? (score / scoredTotal) * 100 : 0;
+    // Reported questions stay in the review list, but aren't counted as wrong
+    const wrongCount = (currentSession?.answers ?? []).filter(
+      (answer) =>
+        !answer.correct &&
+        questionsById.has(answer.questionId) &&
+        !currentSession?.excludedQuestions?.includes(answer.position)
+    ).length;
+    const correctCount = formatScore(score);
+    const topicAccuracy = getTopicAccuracy(
+      answerHistory.filter((e) => e.sessionId === currentSession?.id),
+      questionsById
+    );
+    const examResult =
+      currentSession?.exam &&
+      gradeExam(currentSession, questionsById, multiScoring);
+    // What the answers suggest about a full exam on the same topics
+    const adaptiveAbility =
+      currentSession?.mode === "adaptive"
+        ? getSessionAbility(currentSession, answerHistory)
+        : undefined;
+    const adaptiveResult =
+      adaptiveAbility &&
+      estimateScore(
+        adaptiveAbility.estimate,
+        filterByTopics(questions, currentSession?.topics ?? []),
+        adaptiveAbility.model
+      );
 
     // Add review mistakes interface
     if (showReview) {
       return (
-        <div className={`${containerClass} flex flex-col items-center gap-4 p-4`}>
-          <div
-            className={`w-full max-w-3xl ${cardClass} rounded-[18px] overflow-hidden shadow-lg p-6`}
-          >
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-[22px] font-semibold">Review Mistakes</h2>
-              <button
-                onClick={() => setShowReview(false)}
-                className="text-[var(--ios-blue)] text-[17px]"
-              >
-                Back to Results
-              </button>
-            </div>
-
-            <div className="space-y-6 max-h-[70vh] overflow-y-auto">
-              {wrongAnswers.map(([question, userAnswer], index) => (
-                <div key={index} className="p-4 rounded-[14px] bg-[var(--ios-background)] border border-[var(--ios-border)]">
-                  <h3 className="text-[17px] font-medium mb-4">{question.question}</h3>
-                  
-                  <div className="space-y-2">
-                    {question.answers.map((answer, answerIndex) => (
-                      <div
-                        key={answerIndex}
-                        className={`p-3 rounded-[10px] text-[15px] ${
-                          answer === question.correct
-                            ? "bg-[var(--ios-green-light)] text-[var(--ios-green)] border border-[var(--ios-green)]"
-                            : answer === userAnswer
-                            ? "bg-[var(--ios-red-light)] text-[var(--ios-red)] border border-[var(--ios-red)]"
-                            : "bg-[var(--ios-card-background)]"
-                        }`}
-                      >
-                        <span className="font-medium">
-                          {String.fromCharCode(97 + answerIndex)})
-                        </span>{" "}
-                        {answer}
-                        {answer === question.correct && (
-                          <span className="ml-2 text-[13px] font-medium">✓ Correct</span>
-                        )}
-                        {answer === userAnswer && answer !== question.correct && (
-                          <span className="ml-2 text-[13px] font-medium">✗ Your Answer</span>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      );
-    }
+        <>
+          <ReviewMistakes
+            mistakes={wrongAnswers}
+            backLabel="Back to Results"
+            onBack={() => setShowReview(false)}
+            onRetry={() => retryMistakes(currentSession)}
+            flaggedIds={flaggedIds}
+            onReport={setReportedQuestion}
+            notes={notesById}
+            onSaveNote={saveNote}
+            keymap={keymap}
+          />
+          {flagDialog}
+          {shortcutsDialog}
+        </>
+      );
+    }
 
     return (
       <div className={`${containerClass} flex flex-col items-center gap-4 p-4`}>
@@ -534,7 +1579,7 @@ function App() {
                 Session Type
               </span>
               <span className="font-medium">
-                {currentSession?.isTest ? "Test" : "Practice"}
+                {getSessionLabel(currentSession)}
               </span>
             </div>
 
@@ -549,9 +1594,20 @@ function App() {
               <span className="text-[var(--ios-text-secondary)]">
                 Correct Answers
               </span>
-              <span className="text-[var(--ios-green)]">{correctCount}</span>
+              <span className="text-[var(--ios-green)]">
+                {correctCount}/{scoredTotal}
+              </span>
             </div>
 
+            {excludedCount > 0 && (
+              <div className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]">
+                <span className="text-[var(--ios-text-secondary)]">
+                  Not Scored (reported)
+                </span>
+                <span className="font-medium">{excludedCount}</span>
+              </div>
+            )}
+
             <div className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]">
               <span className="text-[var(--ios-text-secondary)]">
                 Wrong Answers
@@ -567,8 +1623,97 @@ function App() {
                 {percentage.toFixed(1)}%
               </span>
             </div>
+
+            {adaptiveResult && (
+              <div className="flex justify-between items-center gap-4 py-2 border-b border-[var(--ios-border)]">
+                <span className="text-[var(--ios-text-secondary)]">
+                  Estimated Exam Score
+                </span>
+                <span className="text-right">
+                  <span className="text-[var(--ios-blue)] font-semibold">
+                    {adaptiveResult.score.toFixed(0)}%
+                  </span>
+                  <span className="block text-[13px] text-[var(--ios-text-secondary)]">
+                    95% interval {adaptiveResult.low.toFixed(0)}–
+                    {adaptiveResult.high.toFixed(0)}%
+                  </span>
+                </span>
+              </div>
+            )}
+
+            {examResult && currentSession?.exam && (
+              <>
+                <div className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]">
+                  <span className="text-[var(--ios-text-secondary)]">
+                    Unanswered
+                  </span>
+                  <span className="font-medium">{examResult.unanswered}</span>
+                </div>
+
+                {currentSession.exam.negativeMarking && (
+                  <div className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]">
+                    <span className="text-[var(--ios-text-secondary)]">
+                      Guessing Penalty
+                    </span>
+                    <span className="text-[var(--ios-red)]">
+                      -{formatScore(examResult.penalty)}
+                    </span>
+                  </div>
+                )}
+
+                <div className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]">
+                  <span className="text-[var(--ios-text-secondary)]">
+                    Time Used
+                  </span>
+                  <span className="font-medium">
+                    {formatDuration(
+                      Math.min(
+                        currentSession.exam.submittedAt ?? Date.now(),
+                        currentSession.exam.deadline
+                      ) - currentSession.exam.startedAt
+                    )}
+                  </span>
+                </div>
+
+                <div className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]">
+                  <span className="text-[var(--ios-text-secondary)]">
+                    Result (pass mark {currentSession.exam.passMark}%)
+                  </span>
+                  <span
+                    className={`font-semibold ${
+                      examResult.passed
+                        ? "text-[var(--ios-green)]"
+                        : "text-[var(--ios-red)]"
+                    }`}
+                  >
+                    {examResult.passed ? "✓ Passed" : "✗ Failed"}
+                  </span>
+                </div>
+              </>
+            )}
           </div>
 
+          {topicAccuracy.length > 0 && (
+            <div className="mb-8">
+              <h3 className="text-[17px] mb-3">Accuracy by Topic</h3>
+              <div className="space-y-2">
+                {topicAccuracy.map((point) => (
+                  <div
+                    key={point.key}
+                    className="flex justify-between items-center py-2 border-b border-[var(--ios-border)]"
+                  >
+                    <span className="text-[var(--ios-text-secondary)]">
+                      {point.label}
+                    </span>
+                    <span className="font-medium">
+                      {accuracy(point).toFixed(0)}% ({point.correct}/{point.total})
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex flex-col gap-3">
             {wrongCount > 0 && (
               <button
@@ -578,14 +1723,72 @@ function App() {
                 Review Mistakes
               </button>
             )}
+
+            {wrongCount > 0 && (
+              <button
+                className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                onClick={() => retryMistakes(currentSession)}
+              >
+                Retry Mistakes
+              </button>
+            )}
             
-            {currentSession?.isTest ? (
+            {currentSession?.mode === "exam" ? (
+              // Exam completion options
+              <>
+                <button
+                  className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                  onClick={createExamSession}
+                >
+                  Take Exam Again
+                </button>
+                <button
+                  className="w-full py-3 rounded-[14px] bg-[var(--ios-green-light)] text-[var(--ios-green)]"
+                  onClick={() => {
+                    createNewSession(questions.length, false);
+                  }}
+                >
+                  Switch to Practice Mode
+                </button>
+              </>
+            ) : currentSession?.mode === "adaptive" ? (
+              // Adaptive test completion options
+              <>
+                <button
+                  className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                  onClick={() => {
+                    createAdaptiveSession(
+                      currentSession.totalQuestions,
+                      currentSession.topics ?? []
+                    );
+                  }}
+                >
+                  Take Adaptive Test Again
+                </button>
+                <button
+                  className="w-full py-3 rounded-[14px] bg-[var(--ios-green-light)] text-[var(--ios-green)]"
+                  onClick={() => {
+                    createNewSession(
+                      questions.length,
+                      false,
+                      currentSession.topics ?? []
+                    );
+                  }}
+                >
+                  Switch to Practice Mode
+                </button>
+              </>
+            ) : currentSession?.isTest ? (
               // Test completion options
               <>
                 <button
                   className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
                   onClick={() => {
-                    createNewSession(testQuestionCount, true);
+                    createNewSession(
+                      testQuestionCount,
+                      true,
+                      currentSession.topics ?? []
+                    );
                   }}
                 >
                   Take Test Again
@@ -593,18 +1796,36 @@ function App() {
                 <button
                   className="w-full py-3 rounded-[14px] bg-[var(--ios-green-light)] text-[var(--ios-green)]"
                   onClick={() => {
-                    createNewSession(questions.length, false);
+                    createNewSession(
+                      questions.length,
+                      false,
+                      currentSession.topics ?? []
+                    );
                   }}
                 >
                   Switch to Practice Mode
                 </button>
               </>
+            ) : currentSession?.mode === "review" ? (
+              // Review completion options
+              <button
+                className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                onClick={() => {
+                  createNewSession(questions.length, false);
+                }}
+              >
+                Switch to Practice Mode
+              </button>
             ) : (
               // Practice completion options
               <button
                 className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
                 onClick={() => {
-                  createNewSession(questions.length, false);
+                  createNewSession(
+                    questions.length,
+                    false,
+                    currentSession?.topics ?? []
+                  );
                 }}
               >
                 Practice Again
@@ -616,8 +1837,52 @@ function App() {
     );
   }
 
+  // The session points at a question that was removed from the bank
+  if (!currentQuestion) {
+    return (
+      <div className={`${containerClass} flex items-center justify-center p-4`}>
+        <div
+          className={`w-full max-w-3xl ${cardClass} rounded-[18px] overflow-hidden shadow-lg p-6 flex flex-col gap-4`}
+        >
+          <p className="text-[17px] text-[var(--ios-text-secondary)]">
+            This question is no longer in the question bank.
+          </p>
+          <button
+            onClick={handleNext}
+            className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+          >
+            Skip Question
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Read out by screen readers whenever it changes: the result once an answer is
+  // submitted, otherwise where the session is
+  const totalQuestions = currentSession?.totalQuestions || questions.length;
+  const submittedCredit =
+    isAnswerSubmitted && !isExam ? gradeAnswer(currentQuestion, response, multiScoring) : null;
+  const expectedAnswer =
+    currentKind === "text" || currentKind === "task"
+      ? describeAcceptedAnswers(currentQuestion)
+      : getCorrectAnswers(currentQuestion)
+          .map((answer) => `${answerLetter(currentQuestion.answers.indexOf(answer))}) ${answer}`)
+          .join(", ");
+  const announcement =
+    submittedCredit === null
+      ? `Question ${currentQuestionIndex + 1} of ${totalQuestions}`
+      : `${
+          submittedCredit === 1
+            ? "Correct."
+            : `${submittedCredit > 0 ? "Partly correct" : "Incorrect"}, the answer was ${expectedAnswer}.`
+        } Score ${formatScore(score)} of ${scoredTotal}.`;
+
   return (
     <>
+      <p role="status" className="sr-only">
+        {announcement}
+      </p>
       <div
         className={`${containerClass} flex flex-col items-center justify-center p-4`}
       >
@@ -635,9 +1900,23 @@ function App() {
               <ChevronLeft className="w-5 h-5" />
               <span className="text-[17px]">Back</span>
             </button>
-            <span className="text-[17px]">Quiz</span>
+            {isExam ? (
+              <span
+                role="timer"
+                className={`flex items-center gap-1 text-[17px] tabular-nums ${
+                  exam.deadline - now < 60 * 1000 ? "text-[var(--ios-red)]" : ""
+                }`}
+              >
+                <Timer size={18} aria-hidden="true" />
+                <span className="sr-only">Time left:</span>
+                {formatDuration(exam.deadline - now)}
+              </span>
+            ) : (
+              <span className="text-[17px]">Quiz</span>
+            )}
             <button
               onClick={toggleDarkMode}
+              aria-label={isDark ? "Switch to light theme" : "Switch to dark theme"}
               className="w-[60px] flex justify-end text-[var(--ios-blue)]"
             >
               {isDark ? <Sun size={20} /> : <Moon size={20} />}
@@ -645,21 +1924,66 @@ function App() {
           </div>
 
           <div className="p-6 overflow-hidden">
-            <div className="text-[17px] text-[var(--ios-text-secondary)] mb-2">
-              Question {currentQuestionIndex + 1} of{" "}
-              {currentSession?.totalQuestions || questions.length}
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <div className="text-[17px] text-[var(--ios-text-secondary)]">
+                Question {currentQuestionIndex + 1} of{" "}
+                {currentSession?.totalQuestions || questions.length}
+                {isExam && exam.flagged.includes(currentQuestionIndex) && (
+                  <span className="ml-2 text-[var(--ios-red)]">· Flagged</span>
+                )}
+                {currentDifficulty && <DifficultyBadge level={currentDifficulty} />}
+              </div>
+              <div className="flex items-center gap-3">
+                {currentTranslation && (
+                  <button
+                    onClick={toggleQuestionTranslation}
+                    aria-pressed={!!shownTranslation}
+                    disabled={bilingualView}
+                    className={`flex items-center gap-1 text-[15px] ${
+                      shownTranslation
+                        ? "text-[var(--ios-blue)]"
+                        : "text-[var(--ios-text-secondary)]"
+                    }`}
+                  >
+                    <Globe size={16} />
+                    {otherLanguage.toUpperCase()}
+                  </button>
+                )}
+                <button
+                  onClick={() => setReportedQuestion(currentQuestion)}
+                  className={`flex items-center gap-1 text-[15px] ${
+                    flaggedIds.has(currentQuestion.id)
+                      ? "text-[var(--ios-red)]"
+                      : "text-[var(--ios-text-secondary)]"
+                  }`}
+                >
+                  <AlertTriangle size={16} />
+                  {flaggedIds.has(currentQuestion.id) ? "Reported" : "Report"}
+                </button>
+              </div>
             </div>
 
+            {translationMismatch && (
+              <p className="flex items-center gap-2 mb-2 text-[15px] text-[var(--ios-red)]">
+                <AlertTriangle size={16} className="shrink-0" />
+                {TRANSLATION_MISMATCHES[translationMismatch]}
+              </p>
+            )}
+
             <AnimatePresence mode="wait">
               <motion.div
                 key={currentQuestionIndex}
                 initial={{
                   opacity: 0,
                   x: direction * 20,
-                  filter: "blur(10px)",
+                  filter: reduceMotion ? "blur(0px)" : "blur(10px)",
                 }}
                 animate={{ opacity: 1, x: 0, filter: "blur(0px)" }}
-                exit={{ opacity: 0, x: direction * -20, filter: "blur(10px)" }}
+                exit={{
+                  opacity: 0,
+                  x: direction * -20,
+                  filter: reduceMotion ? "blur(0px)" : "blur(10px)",
+                }}
                 transition={{
                   x: { type: "spring", stiffness: 300, damping: 30 },
                   opacity: { duration: 0.2 },
@@ -667,45 +1991,235 @@ function App() {
                 }}
                 className="relative"
               >
-                <p className="text-[22px] mb-8">{currentQuestion.question}</p>
-
-                <div className="space-y-3">
+                {shownTranslation ? (
+                  <div className="grid md:grid-cols-2 gap-x-6 gap-y-2 mb-8">
+                    <div className="text-[22px]">
+                      <QuestionText question={currentQuestion} text={currentQuestion.question} />
+                    </div>
+                    <div
+                      lang={otherLanguage}
+                      className="text-[22px] text-[var(--ios-text-secondary)]"
+                    >
+                      <span className="block text-[13px] uppercase">
+                        {LANGUAGE_NAMES[otherLanguage]}
+                      </span>
+                      <QuestionText
+                        question={shownTranslation}
+                        text={shownTranslation.question}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-[22px] mb-8">
+                    <QuestionText question={currentQuestion} text={currentQuestion.question} />
+                  </div>
+                )}
+
+                {currentQuestion.image && (
+                  <ZoomableImage
+                    key={currentQuestion.image}
+                    image={currentQuestion.image}
+                    alt={`Image for question ${currentQuestionIndex + 1}`}
+                    className="-mt-4 mb-6"
+                  />
+                )}
+
+                {currentKind === "multiple" && (
+                  <p className="text-[15px] text-[var(--ios-text-secondary)] -mt-6 mb-4">
+                    Select all that apply
+                  </p>
+                )}
+
+                {currentKind === "task" ? (
+                  <div className="space-y-3">
+                    <ShellTerminal
+                      key={currentQuestion.id}
+                      task={currentQuestion.task}
+                      onRun={isAnswerSubmitted ? undefined : handleTextChange}
+                      inputRef={inputRef}
+                    />
+                    <p
+                      className={`py-2.5 px-4 rounded-[14px] text-[15px] border ${
+                        !isAnswerSubmitted
+                          ? "bg-[var(--ios-background)] border-[var(--ios-border)] text-[var(--ios-text-secondary)]"
+                          : gradeAnswer(currentQuestion, textAnswer) === 1
+                            ? "bg-[var(--ios-green-light)] text-[var(--ios-green)] border-[var(--ios-green)]"
+                            : "bg-[var(--ios-red-light)] text-[var(--ios-red)] border-[var(--ios-red)]"
+                      }`}
+                    >
+                      {isAnswerSubmitted && (
+                        <ResultMark
+                          correct={gradeAnswer(currentQuestion, textAnswer) === 1}
+                          className="mr-2 align-middle"
+                        />
+                      )}
+                      {hasResponse(response) ? (
+                        <>
+                          Your answer: <code className="font-mono">{formatResponse(response)}</code>
+                        </>
+                      ) : (
+                        "Your answer is the last command you run; it is checked on a fresh copy of the files"
+                      )}
+                    </p>
+                    {isAnswerSubmitted && (
+                      <p className="text-[15px] text-[var(--ios-text-secondary)]">
+                        For example: <code className="font-mono">{describeAcceptedAnswers(currentQuestion)}</code>
+                      </p>
+                    )}
+                  </div>
+                ) : currentKind === "text" ? (
+                  <div className="space-y-3">
+                    <input
+                      ref={inputRef}
+                      value={formatResponse(response)}
+                      onChange={(e) => handleTextChange(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          if (isAnswerSubmitted || isExam) handleNext();
+                          else handleSubmit();
+                        }
+                      }}
+                      readOnly={isAnswerSubmitted}
+                      aria-label="Your answer"
+                      inputMode={currentQuestion.answerFormat === "number" ? "decimal" : undefined}
+                      placeholder={
+                        currentQuestion.answerFormat === "number" ? "Type a number" : "Type your answer"
+                      }
+                      className={`w-full py-3.5 px-5 rounded-[14px] text-[17px] outline-none border ${
+                        !isAnswerSubmitted
+                          ? "bg-[var(--ios-background)] border-[var(--ios-border)]"
+                          : gradeAnswer(currentQuestion, textAnswer) === 1
+                            ? "bg-[var(--ios-green-light)] text-[var(--ios-green)] border-[var(--ios-green)]"
+                            : "bg-[var(--ios-red-light)] text-[var(--ios-red)] border-[var(--ios-red)]"
+                      }`}
+                    />
+                    {isAnswerSubmitted && (
+                      <p className="text-[15px] text-[var(--ios-text-secondary)]">
+                        <ResultMark
+                          correct={gradeAnswer(currentQuestion, textAnswer) === 1}
+                          className={`mr-2 align-middle ${
+                            gradeAnswer(currentQuestion, textAnswer) === 1
+                              ? "text-[var(--ios-green)]"
+                              : "text-[var(--ios-red)]"
+                          }`}
+                        />
+                        Accepted: {describeAcceptedAnswers(currentQuestion)}
+                        {shownTranslation &&
+                          ` (${LANGUAGE_NAMES[otherLanguage]}: ${describeAcceptedAnswers(
+                            shownTranslation
+                          )})`}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                <div
+                  role={currentKind === "multiple" ? "group" : "radiogroup"}
+                  aria-label="Answers"
+                  className="space-y-3"
+                >
                   {currentQuestion.answers.map((answer, index) => (
                     <motion.button
                       key={index}
+                      ref={(element) => {
+                        answerRefs.current[index] = element;
+                      }}
+                      role={currentKind === "multiple" ? "checkbox" : "radio"}
+                      aria-checked={isSelected(response, answer)}
+                      // One tab stop for the whole list; arrow keys move within it
+                      tabIndex={index === Math.max(focusedAnswerIndex, 0) ? 0 : -1}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
-                      transition={{ duration: 0.2, delay: index * 0.05 }}
+                      transition={{ duration: 0.2, delay: reduceMotion ? 0 : index * 0.05 }}
                       onClick={() => handleAnswerSelect(answer)}
                       onFocus={() => setFocusedAnswerIndex(index)}
                       disabled={isAnswerSubmitted}
-                      className={`w-full text-left py-3.5 px-5 rounded-[14px] text-[17px] transition-all outline-none
+                      className={`w-full text-left py-3.5 px-5 rounded-[14px] text-[17px] transition-all outline-none flex items-center gap-3
                         ${
-                          selectedAnswer === answer &&
+                          isSelected(response, answer) &&
                           !isAnswerSubmitted
                             ? "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
                             : "bg-[var(--ios-background)]"
                         } ${
                         isAnswerSubmitted &&
-                        isCorrectAnswer(answer, currentQuestion)
+                        isCorrectOption(currentQuestion, answer)
                           ? "bg-[var(--ios-green-light)] text-[var(--ios-green)]"
                           : ""
                       } ${
                         isAnswerSubmitted &&
-                        selectedAnswer === answer &&
-                        !isCorrectAnswer(answer, currentQuestion)
+                        isSelected(response, answer) &&
+                        !isCorrectOption(currentQuestion, answer)
                           ? "bg-[var(--ios-red-light)] text-[var(--ios-red)]"
                           : ""
-                      } ${
-                        focusedAnswerIndex === index
-                          ? "ring-2 ring-[var(--ios-blue)] ring-offset-2"
-                          : ""
-                      }`}
+                      } focus-visible:ring-2 focus-visible:ring-[var(--ios-blue)] focus-visible:ring-offset-2`}
                     >
-                      {String.fromCharCode(97 + index)}) {answer}
+                      {currentKind === "multiple" ? (
+                        <span
+                          aria-hidden="true"
+                          className={`w-5 h-5 shrink-0 rounded-[6px] border-2 flex items-center justify-center text-[13px] ${
+                            isSelected(response, answer)
+                              ? "border-current bg-current"
+                              : "border-[var(--ios-text-secondary)]"
+                          }`}
+                        >
+                          {isSelected(response, answer) && (
+                            <span className="text-[var(--ios-card-background)]">✓</span>
+                          )}
+                        </span>
+                      ) : (
+                        <span
+                          aria-hidden="true"
+                          className={`w-5 h-5 shrink-0 rounded-full border-2 flex items-center justify-center ${
+                            isSelected(response, answer)
+                              ? "border-current"
+                              : "border-[var(--ios-text-secondary)]"
+                          }`}
+                        >
+                          {isSelected(response, answer) && (
+                            <span className="w-2.5 h-2.5 rounded-full bg-current" />
+                          )}
+                        </span>
+                      )}
+                      {shownTranslation ? (
+                        <span className="flex-1 grid md:grid-cols-2 gap-x-6">
+                          <span>
+                            {answerLetter(index)}){" "}
+                            <QuestionText question={currentQuestion} text={answer} inline />
+                          </span>
+                          <span lang={otherLanguage} className="opacity-70">
+                            <QuestionText
+                              question={shownTranslation}
+                              text={shownTranslation.answers[index] ?? ""}
+                              inline
+                            />
+                          </span>
+                        </span>
+                      ) : (
+                        <span>
+                          {answerLetter(index)}){" "}
+                          <QuestionText question={currentQuestion} text={answer} inline />
+                        </span>
+                      )}
+                      {isAnswerSubmitted && isCorrectOption(currentQuestion, answer) ? (
+                        <ResultMark correct label="Correct answer" className="ml-auto" />
+                      ) : (
+                        isAnswerSubmitted &&
+                        isSelected(response, answer) && (
+                          <ResultMark correct={false} label="Your answer" className="ml-auto" />
+                        )
+                      )}
                     </motion.button>
                   ))}
                 </div>
+                )}
+
+                {isAnswerSubmitted && !isExam && (
+                  <QuestionExplanation
+                    question={currentQuestion}
+                    note={notesById.get(currentQuestion.id)}
+                    onSaveNote={saveNote}
+                  />
+                )}
               </motion.div>
             </AnimatePresence>
           </div>
@@ -715,10 +2229,15 @@ function App() {
               <div className="text-[17px] text-[var(--ios-text-secondary)]">
                 View Mode
               </div>
+            ) : isExam ? (
+              <div className="text-[17px] text-[var(--ios-text-secondary)]">
+                Answered:{" "}
+                {Object.values(exam.responses).filter(hasResponse).length}/
+                {currentSession?.totalQuestions}
+              </div>
             ) : (
               <div className="text-[17px] text-[var(--ios-text-secondary)]">
-                Score: {score}/
-                {currentSession?.totalQuestions || questions.length}
+                Score: {formatScore(score)}/{scoredTotal}
               </div>
             )}
             <div className="flex gap-2">
@@ -730,16 +2249,46 @@ function App() {
                   Resume Practice
                 </button>
               )}
-              {!isViewMode && (
+              {isExam && (
+                <>
+                  <button
+                    onClick={toggleExamFlag}
+                    aria-pressed={exam.flagged.includes(currentQuestionIndex)}
+                    aria-label="Flag question"
+                    className={`px-3 py-2.5 rounded-[14px] ${
+                      exam.flagged.includes(currentQuestionIndex)
+                        ? "bg-[var(--ios-red-light)] text-[var(--ios-red)]"
+                        : "bg-[var(--ios-background)] text-[var(--ios-text-secondary)]"
+                    }`}
+                  >
+                    <Flag size={18} />
+                  </button>
+                  {currentQuestionIndex < (currentSession?.totalQuestions ?? 0) - 1 && (
+                    <button
+                      onClick={handleNext}
+                      className="px-7 py-2.5 rounded-[14px] text-[17px] bg-[var(--ios-background)] text-[var(--ios-blue)]"
+                    >
+                      Next
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSubmitExam}
+                    className="px-7 py-2.5 rounded-[14px] text-[17px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                  >
+                    Submit Exam
+                  </button>
+                </>
+              )}
+              {!isViewMode && !isExam && (
                 <>
 
                   {!isAnswerSubmitted ? (
                     <button
                       onClick={handleSubmit}
-                      disabled={!selectedAnswer}
+                      disabled={!hasResponse(response)}
                       className={`px-7 py-2.5 rounded-[14px] text-[17px] transition-all
                         ${
-                          !selectedAnswer
+                          !hasResponse(response)
                             ? "bg-[var(--ios-background)] text-[var(--ios-text-secondary)]"
                             : "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
                         }`}
@@ -759,28 +2308,51 @@ function App() {
             </div>
           </div>
 
-
+          {isExam && (
+            <ExamQuestionGrid
+              total={currentSession?.totalQuestions ?? 0}
+              current={currentQuestionIndex}
+              answered={
+                new Set(
+                  Object.entries(exam.responses)
+                    .filter(([, value]) => hasResponse(value))
+                    .map(([position]) => Number(position))
+                )
+              }
+              flagged={exam.flagged}
+              onSelect={goToExamQuestion}
+            />
+          )}
         </div>
       </div>
 
       {/* Add keyboard shortcut hint */}
-      <div className="fixed bottom-24 left-1/2 -translate-x-1/2 text-[13px] text-[var(--ios-text-secondary)]">
-        Press {navigator.platform.includes("Mac") ? "⌘" : "Ctrl"} + K to search
-        questions
-      </div>
+      {keymap.openSearch.length > 0 && (
+        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 text-[13px] text-[var(--ios-text-secondary)]">
+          Press {formatKeys(keymap, "openSearch")} to search questions
+          {keymap.showShortcuts.length > 0 &&
+            `, ${formatKeys(keymap, "showShortcuts")} for all shortcuts`}
+        </div>
+      )}
 
       {/* Settings and History Panel */}
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 flex gap-4">
         <Dialog.Root open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
           <Dialog.Trigger asChild>
-            <button className="p-3 rounded-full bg-[var(--ios-card-background)] border border-[var(--ios-border)] text-[var(--ios-text-secondary)] hover:text-[var(--ios-text)] transition-colors">
+            <button
+              aria-label="Settings"
+              className="p-3 rounded-full bg-[var(--ios-card-background)] border border-[var(--ios-border)] text-[var(--ios-text-secondary)] hover:text-[var(--ios-text)] transition-colors"
+            >
               <Settings2 size={20} />
             </button>
           </Dialog.Trigger>
 
           <Dialog.Portal>
             <Dialog.Overlay className="fixed inset-0 bg-black/50" />
-            <Dialog.Content className="fixed bottom-[100px] left-1/2 -translate-x-1/2 w-[90%] max-w-md p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+            <Dialog.Content
+              aria-describedby={undefined}
+              className="fixed bottom-[100px] left-1/2 -translate-x-1/2 w-[90%] max-w-md max-h-[calc(100vh-140px)] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]"
+            >
               <Dialog.Title className="text-[22px] mb-4">Settings</Dialog.Title>
               
               <div className="space-y-4 mb-3">
@@ -800,6 +2372,76 @@ function App() {
                       {language === 'ro' ? 'Switch to English' : 'Switch to Romanian'}
                     </div>
                   </button>
+                  <label className="flex items-center justify-between gap-3 mt-2">
+                    <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                      Show both languages side by side
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={bilingualView}
+                      onChange={(e) => {
+                        setBilingualView(e.target.checked);
+                        localStorage.setItem("bilingual-view", String(e.target.checked));
+                      }}
+                      className="w-5 h-5 accent-[var(--ios-blue)]"
+                    />
+                  </label>
+                </div>
+
+                <label className="flex items-center justify-between gap-3">
+                  <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                    Theme
+                  </span>
+                  <select
+                    value={theme}
+                    onChange={(e) => changeTheme(e.target.value as Theme)}
+                    className="px-3 py-1 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] text-[var(--ios-text)]"
+                  >
+                    <option value="light">Light</option>
+                    <option value="dark">Dark</option>
+                    <option value="high-contrast">High contrast</option>
+                  </select>
+                </label>
+
+                <div>
+                  <label
+                    htmlFor="question-bank"
+                    className="text-[15px] text-[var(--ios-text-secondary)]"
+                  >
+                    Question Bank
+                  </label>
+                  <div className="flex gap-2 mt-1">
+                    <select
+                      id="question-bank"
+                      value={activeBankId}
+                      onChange={(e) => switchBank(e.target.value)}
+                      className="flex-1 min-w-0 px-4 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[var(--ios-text)]"
+                    >
+                      <option value={DEFAULT_BANK_ID}>Operating Systems (built-in)</option>
+                      {customBanks.map((bank) => (
+                        <option key={bank.id} value={bank.id}>
+                          {bank.name} ({bank.questions.length})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        setIsSettingsOpen(false);
+                        setIsImportOpen(true);
+                      }}
+                      className="px-4 py-2 rounded-[10px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                    >
+                      Import
+                    </button>
+                  </div>
+                  {activeCustomBank && (
+                    <button
+                      onClick={() => deleteBank(activeCustomBank)}
+                      className="mt-1 text-[13px] text-[var(--ios-red)]"
+                    >
+                      Delete this bank
+                    </button>
+                  )}
                 </div>
                 
                 <div>
@@ -815,6 +2457,7 @@ function App() {
                         Math.min(questions.length, Number(e.target.value))
                       );
                       setTestQuestionCount(value);
+                      localStorage.setItem("test-question-count", String(value));
                     }}
                     className="w-full mt-1 px-4 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[var(--ios-text)]"
                     min="1"
@@ -822,6 +2465,89 @@ function App() {
                     placeholder="Enter number of questions"
                   />
                 </div>
+
+                <label className="flex items-center justify-between gap-3">
+                  <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                    Partial credit for multiple selection
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={multiScoring === "partial"}
+                    onChange={(e) => {
+                      const value = e.target.checked ? "partial" : "all-or-nothing";
+                      setMultiScoring(value);
+                      localStorage.setItem("multi-scoring", value);
+                    }}
+                    className="w-5 h-5 accent-[var(--ios-blue)]"
+                  />
+                </label>
+
+                <label className="flex items-center justify-between gap-3 mt-2">
+                  <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                    Don't score reported questions
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={excludeFlagged}
+                    onChange={(e) => {
+                      setExcludeFlagged(e.target.checked);
+                      localStorage.setItem("exclude-flagged", String(e.target.checked));
+                    }}
+                    className="w-5 h-5 accent-[var(--ios-blue)]"
+                  />
+                </label>
+
+                <label className="flex items-center justify-between gap-3 mt-2">
+                  <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                    Generated problems
+                  </span>
+                  <select
+                    value={generatedShare}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      setGeneratedShare(value);
+                      localStorage.setItem("generated-share", String(value));
+                    }}
+                    className="px-3 py-1 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] text-[var(--ios-text)]"
+                  >
+                    <option value={0}>Off</option>
+                    <option value={0.1}>10% of questions</option>
+                    <option value={0.25}>25% of questions</option>
+                    <option value={0.5}>50% of questions</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="mb-4">
+                <div className="flex justify-between items-baseline">
+                  <label className="text-[15px] text-[var(--ios-text-secondary)]">
+                    Topics
+                  </label>
+                  {selectedTopics.length > 0 && (
+                    <button
+                      onClick={() => setSelectedTopics([])}
+                      className="text-[13px] text-[var(--ios-blue)]"
+                    >
+                      All topics
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {ALL_TOPICS.map((topic) => (
+                    <button
+                      key={topic}
+                      onClick={() => toggleTopic(topic)}
+                      aria-pressed={selectedTopics.includes(topic)}
+                      className={`px-3 py-1 rounded-full text-[13px] border ${
+                        selectedTopics.includes(topic)
+                          ? "bg-[var(--ios-blue-light)] text-[var(--ios-blue)] border-[var(--ios-blue)]"
+                          : "bg-[var(--ios-background)] text-[var(--ios-text)] border-[var(--ios-border)]"
+                      }`}
+                    >
+                      {topic} ({topicCounts.get(topic)})
+                    </button>
+                  ))}
+                </div>
               </div>
 
               <div className="space-y-4">
@@ -835,6 +2561,15 @@ function App() {
                   >
                     Start Test
                   </button>
+                  <button
+                    onClick={() => {
+                      createAdaptiveSession(testQuestionCount);
+                      setIsSettingsOpen(false);
+                    }}
+                    className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)] text-[17px]"
+                  >
+                    Start Adaptive Test
+                  </button>
                   <button
                     onClick={() => {
                       createNewSession(questions.length, false);
@@ -847,10 +2582,183 @@ function App() {
                 </div>
               </div>
 
+              <div className="mt-6">
+                <h3 className="text-[17px] mb-3">Exam Simulation</h3>
+                <div className="grid grid-cols-3 gap-2 mb-3">
+                  <label className="text-[13px] text-[var(--ios-text-secondary)]">
+                    Questions
+                    <input
+                      type="number"
+                      min="1"
+                      max={questions.length}
+                      value={examSettings.questionCount}
+                      onChange={(e) =>
+                        updateExamSettings({
+                          questionCount: Math.max(
+                            1,
+                            Math.min(questions.length, Number(e.target.value))
+                          ),
+                        })
+                      }
+                      className="w-full mt-1 px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] text-[var(--ios-text)]"
+                    />
+                  </label>
+                  <label className="text-[13px] text-[var(--ios-text-secondary)]">
+                    Minutes
+                    <input
+                      type="number"
+                      min="1"
+                      value={examSettings.timeLimitMinutes}
+                      onChange={(e) =>
+                        updateExamSettings({
+                          timeLimitMinutes: Math.max(1, Number(e.target.value)),
+                        })
+                      }
+                      className="w-full mt-1 px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] text-[var(--ios-text)]"
+                    />
+                  </label>
+                  <label className="text-[13px] text-[var(--ios-text-secondary)]">
+                    Pass mark %
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={examSettings.passMark}
+                      onChange={(e) =>
+                        updateExamSettings({
+                          passMark: Math.max(0, Math.min(100, Number(e.target.value))),
+                        })
+                      }
+                      className="w-full mt-1 px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] text-[var(--ios-text)]"
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center justify-between gap-3 mb-3">
+                  <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                    Negative marking for wrong guesses
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={examSettings.negativeMarking}
+                    onChange={(e) =>
+                      updateExamSettings({ negativeMarking: e.target.checked })
+                    }
+                    className="w-5 h-5 accent-[var(--ios-blue)]"
+                  />
+                </label>
+                <button
+                  onClick={() => {
+                    createExamSession();
+                    setIsSettingsOpen(false);
+                  }}
+                  className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)] text-[17px]"
+                >
+                  Start Exam
+                </button>
+              </div>
+
+              <div className="mt-6">
+                <div className="flex justify-between items-baseline mb-3">
+                  <h3 className="text-[17px]">Review Due</h3>
+                  <span className="text-[13px] text-[var(--ios-text-secondary)]">
+                    {dueCount} due today
+                  </span>
+                </div>
+                <div className="grid grid-cols-7 gap-1 mb-3">
+                  {dueForecast.map(({ date, count }, index) => (
+                    <div
+                      key={date}
+                      className="py-1 rounded-[8px] bg-[var(--ios-background)] text-center"
+                    >
+                      <p className="text-[11px] text-[var(--ios-text-secondary)]">
+                        {index === 0
+                          ? "Today"
+                          : new Date(date).toLocaleDateString(undefined, {
+                              weekday: "short",
+                            })}
+                      </p>
+                      <p className="text-[15px]">{count}</p>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => {
+                    createReviewSession();
+                    setIsSettingsOpen(false);
+                  }}
+                  disabled={dueCount === 0}
+                  className={`w-full py-3 rounded-[14px] text-[17px] ${
+                    dueCount === 0
+                      ? "bg-[var(--ios-background)] text-[var(--ios-text-secondary)]"
+                      : "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                  }`}
+                >
+                  Review Due ({dueCount})
+                </button>
+              </div>
+
+              <button
+                onClick={() => {
+                  setIsSettingsOpen(false);
+                  setIsStatisticsOpen(true);
+                }}
+                className="w-full mt-6 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Statistics
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsSettingsOpen(false);
+                  setIsBackupOpen(true);
+                }}
+                className="w-full mt-2 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Backup &amp; Restore
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsSettingsOpen(false);
+                  setIsSyncOpen(true);
+                }}
+                className="w-full mt-2 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Sync Devices
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsSettingsOpen(false);
+                  setIsFlaggedOpen(true);
+                }}
+                className="w-full mt-2 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Flagged Questions ({flags.length})
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsSettingsOpen(false);
+                  setIsSandboxOpen(true);
+                }}
+                className="w-full mt-2 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Shell Sandbox
+              </button>
+
+              <button
+                onClick={exportQuestionBanks}
+                className="w-full mt-2 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Export Question Banks
+                {overrides.length > 0 && ` (${overrides.length} edited)`}
+              </button>
+
               <div className="mt-6">
                 <h3 className="text-[17px] mb-3">Recent Sessions</h3>
                 <div className="space-y-2 max-h-[200px] overflow-y-auto">
-                  {sessions
+                  {bankSessions
                     .slice()
                     .reverse()
                     .map((session) => (
@@ -860,7 +2768,7 @@ function App() {
                       >
                         <div className="flex-1">
                           <p className="text-[15px] text-[var(--ios-text)]">
-                            {session.isTest ? "Test" : "Practice"} -{" "}
+                            {getSessionLabel(session)} -{" "}
                             {new Date(session.timestamp).toLocaleDateString()}
                           </p>
                           <p className="text-[13px] text-[var(--ios-text-secondary)]">
@@ -869,6 +2777,15 @@ function App() {
                           </p>
                         </div>
                         <div className="flex gap-2">
+                          <button
+                            onClick={() => {
+                              setReviewedSession(session);
+                              setIsSettingsOpen(false);
+                            }}
+                            className="px-4 py-1 rounded-[8px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[var(--ios-blue)] text-[13px]"
+                          >
+                            Review
+                          </button>
                           {!session.completed && (
                             <button
                               onClick={() => {
@@ -897,51 +2814,89 @@ function App() {
 
         <button
           onClick={() => setIsHelpOpen(true)}
+          aria-label="Keyboard shortcuts"
           className="p-3 rounded-full bg-[var(--ios-card-background)] border border-[var(--ios-border)] text-[var(--ios-text-secondary)] hover:text-[var(--ios-text)] transition-colors"
         >
           <HelpCircle size={20} />
         </button>
       </div>
 
-      <Dialog.Root open={isHelpOpen} onOpenChange={setIsHelpOpen}>
-        <Dialog.Portal>
-          <Dialog.Overlay className="fixed inset-0 bg-black/50" />
-          <Dialog.Content className="fixed bottom-[100px] left-1/2 -translate-x-1/2 w-[90%] max-w-md p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
-            <Dialog.Title className="text-[22px] mb-4">
-              Keyboard Shortcuts
-            </Dialog.Title>
-            <div className="space-y-3">
-              <div>
-                <h3 className="text-[17px] mb-2">Navigation</h3>
-                <ul className="space-y-2 text-[15px] text-[var(--ios-text-secondary)]">
-                  <li>↑/↓ - Navigate between answers</li>
-                  <li>Tab/Shift+Tab - Cycle through answers</li>
-                  <li>Enter - Submit answer or go to next question</li>
-                  <li>Space - Select/deselect focused answer</li>
-                  <li>
-                    {navigator.platform.includes("Mac") ? "⌘" : "Ctrl"} + K -
-                    Search questions
-                  </li>
-                </ul>
-              </div>
-              <div>
-                <h3 className="text-[17px] mb-2">Quick Selection</h3>
-                <p className="text-[15px] text-[var(--ios-text-secondary)]">
-                  Use number keys (1-2) to quickly select True/False
-                </p>
-              </div>
-            </div>
-          </Dialog.Content>
-        </Dialog.Portal>
-      </Dialog.Root>
+      {shortcutsDialog}
+
+      <StatisticsView
+        events={answerHistory}
+        sessions={bankSessions}
+        questions={questions}
+        isOpen={isStatisticsOpen}
+        onOpenChange={setIsStatisticsOpen}
+      />
 
       {/* Add CommandPalette component */}
       <CommandPalette
         questions={questions}
+        translations={translations}
+        notes={notes}
+        answerHistory={answerHistory}
+        flaggedIds={flaggedIds}
         onQuestionSelect={handleQuestionSelect}
+        onQuestionEdit={(index) => setEditingQuestionId(questions[index].id)}
+        keymap={keymap}
         isOpen={isCommandPaletteOpen}
         onOpenChange={setIsCommandPaletteOpen}
       />
+
+      <QuestionEditor
+        questionId={editingQuestionId}
+        banks={editedBanks}
+        isEdited={overrides.some((o) => o.id === editingQuestionId)}
+        onSave={saveQuestionOverride}
+        onReset={resetQuestionOverride}
+        onExport={exportQuestionBanks}
+        onClose={() => setEditingQuestionId(null)}
+      />
+
+      <FlaggedView
+        flags={flags}
+        banks={editedBanks}
+        isOpen={isFlaggedOpen}
+        onOpenChange={setIsFlaggedOpen}
+        onEdit={(flag) =>
+          setReportedQuestion(questionsById.get(flag.questionId) ?? null)
+        }
+        onRemove={removeFlag}
+      />
+
+      {flagDialog}
+
+      <BankImportDialog
+        isOpen={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImport={importBank}
+      />
+
+      <BackupDialog
+        isOpen={isBackupOpen}
+        onOpenChange={setIsBackupOpen}
+        local={backupData}
+        onRestore={restoreBackup}
+      />
+
+      <SyncDialog
+        isOpen={isSyncOpen}
+        onOpenChange={setIsSyncOpen}
+        // Preferences stay per device, so only the progress is sent
+        local={syncData}
+        onSynced={applySyncedState}
+      />
+
+      <ShellSandbox isOpen={isSandboxOpen} onOpenChange={setIsSandboxOpen} />
+
+      {bankUpdates.length > 0 && (
+        <BankUpdateNotice
+          updates={bankUpdates}
+          onDismiss={() => setBankUpdates([])}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,215 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Backup,
+  BackupData,
+  ConflictResolution,
+  ImportStrategy,
+  applyBackup,
+  createBackup,
+  parseBackup,
+  previewBackup,
+} from "../utils/backup";
+import { downloadFile } from "../utils/download";
+
+interface BackupDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  local: BackupData;
+  onRestore: (data: BackupData) => void;
+}
+
+const RESOLUTIONS: Record<ConflictResolution, string> = {
+  progress: "Keep the copy with more progress",
+  local: "Keep the copy on this device",
+  backup: "Use the copy from the backup",
+};
+
+export function BackupDialog({
+  isOpen,
+  onOpenChange,
+  local,
+  onRestore,
+}: BackupDialogProps) {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [strategy, setStrategy] = useState<ImportStrategy>("merge");
+  const [resolution, setResolution] = useState<ConflictResolution>("progress");
+
+  useEffect(() => {
+    if (!isOpen) {
+      setBackup(null);
+      setErrors([]);
+      setStrategy("merge");
+    }
+  }, [isOpen]);
+
+  const preview = useMemo(
+    () => backup && previewBackup(local, backup, strategy),
+    [local, backup, strategy]
+  );
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      `os-exam-backup-${date}.json`,
+      JSON.stringify(createBackup(local), null, 2)
+    );
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    setBackup(result.backup);
+    setErrors(result.errors);
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (
+      strategy === "replace" &&
+      !window.confirm("Replace all progress on this device with the backup?")
+    ) {
+      return;
+    }
+    onRestore(applyBackup(local, backup, strategy, resolution));
+    onOpenChange(false);
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-[10px] text-[15px] ${
+      active
+        ? "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+        : "bg-[var(--ios-background)] text-[var(--ios-text-secondary)]"
+    }`;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-md max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">Backup</Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Done
+            </Dialog.Close>
+          </div>
+
+          <p className="text-[15px] text-[var(--ios-text-secondary)] mb-3">
+            {local.sessions.length} sessions, {local.answerEvents.length} answers,{" "}
+            {local.reviewCards.length} review cards, {local.overrides.length} edited
+            and {local.flags.length} reported questions and {local.notes.length} notes
+            on this device.
+          </p>
+          <button
+            onClick={handleExport}
+            className="w-full py-3 mb-6 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)] text-[17px]"
+          >
+            Export Backup
+          </button>
+
+          <h3 className="text-[17px] mb-2">Restore</h3>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="w-full mb-3 text-[15px]"
+          />
+
+          {errors.length > 0 && (
+            <ul className="mb-3 p-3 rounded-[14px] bg-[var(--ios-red-light)] text-[13px] text-[var(--ios-red)] space-y-1 max-h-[160px] overflow-y-auto">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {backup && preview && (
+            <>
+              <p className="text-[13px] text-[var(--ios-text-secondary)] mb-2">
+                Exported {new Date(backup.exportedAt).toLocaleString()}
+              </p>
+
+              <div className="flex gap-2 mb-3">
+                <button
+                  onClick={() => setStrategy("merge")}
+                  className={optionClass(strategy === "merge")}
+                >
+                  Merge
+                </button>
+                <button
+                  onClick={() => setStrategy("replace")}
+                  className={optionClass(strategy === "replace")}
+                >
+                  Replace
+                </button>
+              </div>
+
+              <ul className="mb-3 p-3 rounded-[14px] bg-[var(--ios-background)] text-[15px] space-y-1">
+                <li>
+                  Sessions: {preview.sessions.added} new,{" "}
+                  {preview.sessions.conflicts.length} in conflict,{" "}
+                  {preview.sessions.unchanged} unchanged
+                  {strategy === "replace" &&
+                    `, ${preview.sessions.removed} removed`}
+                </li>
+                <li>
+                  Answers: {preview.answerEvents.added} new
+                  {strategy === "replace" &&
+                    `, ${preview.answerEvents.removed} removed`}
+                </li>
+                <li>
+                  Review cards: {preview.reviewCards.added} new,{" "}
+                  {preview.reviewCards.updated} different
+                </li>
+                <li>
+                  Question edits: {preview.overrides.added} new,{" "}
+                  {preview.overrides.updated} different
+                </li>
+                <li>
+                  Reports: {preview.flags.added} new, {preview.flags.updated}{" "}
+                  different
+                </li>
+                <li>
+                  Notes: {preview.notes.added} new, {preview.notes.updated}{" "}
+                  different
+                </li>
+                {strategy === "replace" && (
+                  <li>Preferences from the backup are applied</li>
+                )}
+              </ul>
+
+              {strategy === "merge" && preview.sessions.conflicts.length > 0 && (
+                <label className="block mb-3 text-[15px] text-[var(--ios-text-secondary)]">
+                  Sessions on both sides
+                  <select
+                    value={resolution}
+                    onChange={(e) =>
+                      setResolution(e.target.value as ConflictResolution)
+                    }
+                    className="w-full mt-1 px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[var(--ios-text)]"
+                  >
+                    {(Object.keys(RESOLUTIONS) as ConflictResolution[]).map(
+                      (value) => (
+                        <option key={value} value={value}>
+                          {RESOLUTIONS[value]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+              )}
+
+              <button
+                onClick={handleRestore}
+                className="w-full py-3 rounded-[14px] bg-[var(--ios-blue)] text-white text-[17px]"
+              >
+                {strategy === "merge" ? "Merge Backup" : "Replace With Backup"}
+              </button>
+            </>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
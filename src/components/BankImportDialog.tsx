@@ -0,0 +1,165 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { Upload } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { BankFormat, CustomBank } from "../types";
+import { BANK_FORMATS, detectFormat, parseImportedBank } from "../utils/bankImport";
+
+interface BankImportDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (bank: CustomBank) => void;
+}
+
+export function BankImportDialog({
+  isOpen,
+  onOpenChange,
+  onImport,
+}: BankImportDialogProps) {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [format, setFormat] = useState<BankFormat>("json");
+  const [name, setName] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setName("");
+    }
+  }, [isOpen]);
+
+  const result = useMemo(
+    () => (file ? parseImportedBank(file.text, format) : null),
+    [file, format]
+  );
+
+  const readFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const text = await selected.text();
+    setFile({ name: selected.name, text });
+    setFormat(detectFormat(selected.name, text));
+    setName(selected.name.replace(/\.[^.]+$/, ""));
+  };
+
+  const handleImport = () => {
+    if (!result?.questions.length) return;
+    onImport({
+      id: `bank-${Date.now()}`,
+      name: name.trim() || file!.name,
+      format,
+      questions: result.questions,
+      importedAt: Date.now(),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-2xl max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">Import Question Bank</Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Cancel
+            </Dialog.Close>
+          </div>
+
+          <label
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              readFile(e.dataTransfer.files[0]);
+            }}
+            className={`flex flex-col items-center gap-2 p-6 mb-4 rounded-[14px] border-2 border-dashed cursor-pointer text-center text-[15px] ${
+              isDragging
+                ? "border-[var(--ios-blue)] bg-[var(--ios-blue-light)]"
+                : "border-[var(--ios-border)] bg-[var(--ios-background)]"
+            }`}
+          >
+            <Upload className="w-6 h-6 text-[var(--ios-text-secondary)]" />
+            {file ? file.name : "Drop a JSON, CSV, Aiken or GIFT file here, or click to choose one"}
+            <input
+              type="file"
+              accept=".json,.csv,.tsv,.txt,.gift"
+              className="hidden"
+              onChange={(e) => readFile(e.target.files?.[0])}
+            />
+          </label>
+
+          {file && result && (
+            <>
+              <div className="flex gap-2 mb-4">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Bank name"
+                  className="flex-1 px-4 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)]"
+                />
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as BankFormat)}
+                  className="px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)]"
+                >
+                  {(Object.keys(BANK_FORMATS) as BankFormat[]).map((value) => (
+                    <option key={value} value={value}>
+                      {BANK_FORMATS[value]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <p className="text-[15px] mb-2">
+                {result.questions.length} question(s) ready to import
+                {result.errors.length > 0 && (
+                  <span className="text-[var(--ios-red)]">
+                    , {result.errors.length} problem(s) will be skipped
+                  </span>
+                )}
+              </p>
+
+              {result.errors.length > 0 && (
+                <ul className="mb-4 p-3 max-h-[160px] overflow-y-auto rounded-[14px] bg-[var(--ios-red-light)] text-[13px] text-[var(--ios-red)] space-y-1">
+                  {result.errors.map((error, index) => (
+                    <li key={index}>
+                      {error.line !== null && `Line ${error.line}: `}
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <ol className="mb-4 space-y-2 max-h-[240px] overflow-y-auto">
+                {result.questions.slice(0, 20).map((question) => (
+                  <li
+                    key={question.id}
+                    className="p-3 rounded-[14px] bg-[var(--ios-background)] text-[15px]"
+                  >
+                    {question.question}
+                    <span className="block text-[13px] text-[var(--ios-text-secondary)]">
+                      {question.answers.length
+                        ? `${question.answers.length} answers`
+                        : "free text"}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={!result?.questions.length}
+            className="w-full py-3 rounded-[14px] bg-[var(--ios-blue)] text-white text-[17px] disabled:opacity-50"
+          >
+            Import
+          </button>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { motion } from "framer-motion";
+import { BankUpdate, countBankChanges } from "../utils/questionBank";
+
+interface BankUpdateNoticeProps {
+  updates: BankUpdate[];
+  onDismiss: () => void;
+}
+
+const LANGUAGE_NAMES = { ro: "Romanian", en: "English" };
+
+export function BankUpdateNotice({ updates, onDismiss }: BankUpdateNoticeProps) {
+  const [showDetails, setShowDetails] = useState(false);
+
+  // The RO and EN versions of a question count once
+  const changedIds = new Set(
+    updates.flatMap(({ changes }) =>
+      [...changes.added, ...changes.removed, ...changes.changed].map((q) => q.id)
+    )
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[90%] max-w-md p-4 rounded-[14px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-[15px]">
+            Question bank updated — {changedIds.size} changed question
+            {changedIds.size === 1 ? "" : "s"}
+          </p>
+          <button
+            onClick={() => setShowDetails((prev) => !prev)}
+            className="text-[13px] text-[var(--ios-blue)]"
+          >
+            {showDetails ? "Hide details" : "Show details"}
+          </button>
+        </div>
+        <button
+          onClick={onDismiss}
+          aria-label="Dismiss"
+          className="text-[var(--ios-text-secondary)]"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {showDetails && (
+        <div className="mt-3 max-h-[40vh] overflow-y-auto space-y-3 text-[13px]">
+          {updates
+            .filter(({ changes }) => countBankChanges(changes) > 0)
+            .map(({ language, changes }) => (
+              <div key={language}>
+                <p className="text-[var(--ios-text-secondary)]">
+                  {LANGUAGE_NAMES[language]}: {changes.added.length} added,{" "}
+                  {changes.changed.length} changed, {changes.removed.length} removed
+                </p>
+                <ul className="mt-1 space-y-1">
+                  {[
+                    ...changes.added.map((q) => ["+", q] as const),
+                    ...changes.changed.map((q) => ["~", q] as const),
+                    ...changes.removed.map((q) => ["−", q] as const),
+                  ]
+                    .slice(0, 10)
+                    .map(([marker, question]) => (
+                      <li key={marker + question.id} className="truncate">
+                        {marker} {question.question}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,24 +1,68 @@
 import * as Dialog from "@radix-ui/react-dialog";
-import { Search, Command } from "lucide-react";
+import { Search, Command, Pencil } from "lucide-react";
 import { useState, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { AnswerEvent, Question, QuestionNote } from "../types";
+import { getQuestionKind } from "../utils/scoring";
+import {
+  SearchResult,
+  buildSearchIndex,
+  searchQuestions,
+  highlightMatches,
+  hasMatch,
+  matchExcerpt,
+} from "../utils/search";
+import { Keymap, formatKeys, getAction } from "../utils/keymap";
 
-interface Question {
-  question: string;
-  answers: string[];
-  correct: string;
+const KIND_LABELS = {
+  single: null,
+  multiple: "Multiple",
+  text: "Text",
+  task: "Task",
+};
+
+function Highlighted({ text, matched }: { text: string; matched: Set<string> }) {
+  return (
+    <>
+      {highlightMatches(text, matched).map((part, i) =>
+        part.isMatch ? (
+          <mark
+            key={i}
+            className="rounded-[3px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)] font-medium"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
 }
 
 interface CommandPaletteProps {
   questions: Question[];
+  // The same bank in the other language, searched alongside
+  translations: Question[];
+  notes: QuestionNote[];
+  answerHistory: AnswerEvent[];
+  flaggedIds: Set<string>;
   onQuestionSelect: (index: number) => void;
+  onQuestionEdit: (index: number) => void;
+  keymap: Keymap;
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
 export function CommandPalette({
   questions,
+  translations,
+  notes,
+  answerHistory,
+  flaggedIds,
   onQuestionSelect,
+  onQuestionEdit,
+  keymap,
   isOpen,
   onOpenChange,
 }: CommandPaletteProps) {
@@ -33,29 +77,32 @@ export function CommandPalette({
     }
   }, [isOpen]);
 
-  const filteredQuestions = useMemo(() => {
+  const searchIndex = useMemo(
+    () => buildSearchIndex(questions, translations, notes),
+    [questions, translations, notes]
+  );
+
+  const filteredQuestions = useMemo((): SearchResult[] => {
     const searchLower = search.toLowerCase().trim();
 
-    // Handle "q123" or just "123" format
-    const questionNumberMatch = searchLower.match(/^q?(\d+)$/);
+    // Handle "q123" format
+    const questionNumberMatch = searchLower.match(/^q(\d+)$/);
     if (questionNumberMatch) {
       const number = parseInt(questionNumberMatch[1]) - 1;
       if (number >= 0 && number < questions.length) {
-        return [{ question: questions[number], index: number }];
+        return [searchIndex.documents[number]].map((document) => ({
+          ...document,
+          score: 1,
+          matched: new Set(),
+        }));
       }
     }
 
-    return questions
-      .map((question, index) => ({ question, index }))
-      .filter(({ question, index }) => {
-        return (
-          // Match question number
-          (index + 1).toString().includes(searchLower) ||
-          // Match question text
-          question.question.toLowerCase().includes(searchLower)
-        );
-      });
-  }, [search, questions]);
+    return searchQuestions(searchIndex, search, {
+      events: answerHistory,
+      flaggedIds,
+    });
+  }, [search, questions, searchIndex, answerHistory, flaggedIds]);
 
   useEffect(() => {
     setSelectedIndex(0);
@@ -65,40 +112,45 @@ export function CommandPalette({
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!isOpen) return;
 
-      switch (e.key) {
-        case "ArrowDown":
+      // Escape is left to the dialog, which closes the palette
+      const action = getAction(keymap, "palette", e);
+      switch (action) {
+        case "nextResult":
           e.preventDefault();
           setSelectedIndex((prev) =>
             prev >= filteredQuestions.length - 1 ? 0 : prev + 1
           );
           break;
-        case "ArrowUp":
+        case "previousResult":
           e.preventDefault();
           setSelectedIndex((prev) =>
             prev <= 0 ? filteredQuestions.length - 1 : prev - 1
           );
           break;
-        case "Enter":
+        case "openResult":
+        case "editResult":
           e.preventDefault();
           if (filteredQuestions[selectedIndex]) {
-            onQuestionSelect(filteredQuestions[selectedIndex].index);
+            if (action === "editResult") {
+              onQuestionEdit(filteredQuestions[selectedIndex].index);
+            } else {
+              onQuestionSelect(filteredQuestions[selectedIndex].index);
+            }
             onOpenChange(false);
           }
           break;
-        case "Escape":
-          e.preventDefault();
-          onOpenChange(false);
-          break;
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [
+    keymap,
     isOpen,
     selectedIndex,
     filteredQuestions,
     onQuestionSelect,
+    onQuestionEdit,
     onOpenChange,
   ]);
 
@@ -112,23 +164,34 @@ export function CommandPalette({
           }}
         />
         <Dialog.Content className="fixed top-[20%] left-1/2 -translate-x-1/2 w-[90%] max-w-[500px] p-4 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg">
+          <Dialog.Title className="sr-only">Search questions</Dialog.Title>
+          <Dialog.Description className="sr-only">
+            Type to filter the questions, then go to one or edit it.
+          </Dialog.Description>
           <div className="flex items-center gap-2 px-3 py-2 mb-4 rounded-[10px] bg-[var(--ios-background)]">
-            <Search className="w-5 h-5 text-[var(--ios-text-secondary)]" />
-            <Dialog.Title asChild>
-              <input
-                className="flex-1 bg-transparent border-none outline-none text-[17px] text-[var(--ios-text)] placeholder-[var(--ios-text-secondary)]"
-                placeholder="Search questions (e.g. 'q123' or search text)..."
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                autoFocus
-              />
-            </Dialog.Title>
-            <div className="flex items-center gap-1 px-1.5 py-0.5 rounded-[6px] bg-[var(--ios-border)] text-[var(--ios-text-secondary)]">
+            <Search className="w-5 h-5 text-[var(--ios-text-secondary)]" aria-hidden="true" />
+            <input
+              className="flex-1 bg-transparent border-none outline-none text-[17px] text-[var(--ios-text)] placeholder-[var(--ios-text-secondary)]"
+              placeholder="Search questions (e.g. 'q123', 'is:wrong deadlock')..."
+              aria-label="Search questions"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              autoFocus
+            />
+            <div
+              aria-hidden="true"
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded-[6px] bg-[var(--ios-border)] text-[var(--ios-text-secondary)]"
+            >
               <Command className="w-3 h-3" />
               <span className="text-[11px]">K</span>
             </div>
           </div>
 
+          <p role="status" className="sr-only">
+            {filteredQuestions.length === 1
+              ? "1 question found"
+              : `${filteredQuestions.length} questions found`}
+          </p>
           <div className="max-h-[400px] overflow-y-auto">
             <AnimatePresence initial={false} mode="popLayout">
               {filteredQuestions.length > 0 ? (
@@ -138,9 +201,9 @@ export function CommandPalette({
                   animate={{ opacity: 1 }}
                   exit={{ opacity: 0 }}
                 >
-                  {filteredQuestions.map(({ question, index }, arrayIndex) => (
-                    <motion.button
-                      key={`${index}-${question.question}`}
+                  {filteredQuestions.map(({ question, translation, note, index, matched }, arrayIndex) => (
+                    <motion.div
+                      key={question.id}
                       layout
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -149,24 +212,86 @@ export function CommandPalette({
                         duration: 0.15,
                         layout: { duration: 0.15 },
                       }}
-                      className={`w-full text-left p-3 rounded-[14px] transition-colors ${
+                      className={`flex items-start gap-2 p-3 rounded-[14px] transition-colors ${
                         selectedIndex === arrayIndex
                           ? "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
                           : "hover:bg-[var(--ios-background)] text-[var(--ios-text)]"
                       }`}
-                      onClick={() => {
-                        onQuestionSelect(index);
-                        onOpenChange(false);
-                      }}
                       onMouseEnter={() => setSelectedIndex(arrayIndex)}
                     >
-                      <div className="flex items-start gap-2">
+                      <button
+                        aria-current={selectedIndex === arrayIndex || undefined}
+                        className="flex-1 flex items-start gap-2 text-left"
+                        onClick={() => {
+                          onQuestionSelect(index);
+                          onOpenChange(false);
+                        }}
+                      >
                         <span className="text-[15px] font-medium text-[var(--ios-text)]">
                           Q{index + 1}
                         </span>
-                        <span className="text-[15px]">{question.question}</span>
-                      </div>
-                    </motion.button>
+                        <span className="text-[15px] flex-1">
+                          <Highlighted text={question.question} matched={matched} />
+                          {[...question.answers, ...(translation?.answers ?? [])]
+                            .filter((answer) => hasMatch(answer, matched))
+                            .slice(0, 2)
+                            .map((answer) => (
+                              <span
+                                key={answer}
+                                className="block text-[13px] text-[var(--ios-text-secondary)]"
+                              >
+                                ↳ <Highlighted text={answer} matched={matched} />
+                              </span>
+                            ))}
+                          {translation &&
+                            !hasMatch(question.question, matched) &&
+                            hasMatch(translation.question, matched) && (
+                              <span className="block text-[13px] text-[var(--ios-text-secondary)]">
+                                <Highlighted text={translation.question} matched={matched} />
+                              </span>
+                            )}
+                          {[
+                            { label: "Explanation", text: question.explanation },
+                            { label: "Explanation", text: translation?.explanation },
+                            { label: "Note", text: note },
+                          ]
+                            .filter(({ text }) => text && hasMatch(text, matched))
+                            .slice(0, 1)
+                            .map(({ label, text }) => (
+                              <span
+                                key={label}
+                                className="block text-[13px] text-[var(--ios-text-secondary)]"
+                              >
+                                {label}:{" "}
+                                <Highlighted
+                                  text={matchExcerpt(text!, matched)}
+                                  matched={matched}
+                                />
+                              </span>
+                            ))}
+                        </span>
+                        {KIND_LABELS[getQuestionKind(question)] && (
+                          <span className="shrink-0 px-1.5 py-0.5 rounded-[6px] bg-[var(--ios-border)] text-[11px] text-[var(--ios-text-secondary)]">
+                            {KIND_LABELS[getQuestionKind(question)]}
+                          </span>
+                        )}
+                      </button>
+                      <button
+                        className="shrink-0 p-1 text-[var(--ios-text-secondary)] hover:text-[var(--ios-blue)]"
+                        onClick={() => {
+                          onQuestionEdit(index);
+                          onOpenChange(false);
+                        }}
+                        title={
+                          keymap.editResult.length
+                            ? `Edit question (${formatKeys(keymap, "editResult")})`
+                            : "Edit question"
+                        }
+                        aria-label={`Edit question ${index + 1}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    </motion.div>
                   ))}
                 </motion.div>
               ) : (
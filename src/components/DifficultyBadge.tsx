@@ -0,0 +1,29 @@
+import { DifficultyLevel } from "../utils/difficulty";
+
+const BADGES: Record<DifficultyLevel, { label: string; className: string }> = {
+  easy: {
+    label: "Easy",
+    className: "bg-[var(--ios-green-light)] text-[var(--ios-green)]",
+  },
+  medium: {
+    label: "Medium",
+    className: "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]",
+  },
+  hard: {
+    label: "Hard",
+    className: "bg-[var(--ios-red-light)] text-[var(--ios-red)]",
+  },
+};
+
+// How hard a question has been so far, estimated from the answers given to it
+export function DifficultyBadge({ level }: { level: DifficultyLevel }) {
+  const { label, className } = BADGES[level];
+  return (
+    <span
+      className={`ml-2 px-2 py-0.5 rounded-full text-[13px] align-middle ${className}`}
+      title="Estimated from your answers"
+    >
+      {label}
+    </span>
+  );
+}
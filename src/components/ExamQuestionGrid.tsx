@@ -0,0 +1,81 @@
+import { Flag } from "lucide-react";
+
+interface ExamQuestionGridProps {
+  total: number;
+  current: number;
+  answered: Set<number>;
+  flagged: number[];
+  onSelect: (position: number) => void;
+}
+
+export function ExamQuestionGrid({
+  total,
+  current,
+  answered,
+  flagged,
+  onSelect,
+}: ExamQuestionGridProps) {
+  const positions = Array.from({ length: total }, (_, i) => i);
+
+  // Next matching question after the current one, wrapping around
+  const findNext = (matches: (position: number) => boolean) =>
+    [...positions.slice(current + 1), ...positions.slice(0, current + 1)].find(
+      matches
+    );
+
+  const nextUnanswered = findNext((p) => !answered.has(p));
+  const nextFlagged = findNext((p) => flagged.includes(p));
+
+  return (
+    <div className="px-6 py-4 border-t border-[var(--ios-border)]">
+      <div className="flex justify-between items-center mb-3 text-[13px]">
+        <span className="text-[var(--ios-text-secondary)]">
+          {answered.size}/{total} answered · {flagged.length} flagged
+        </span>
+        <div className="flex gap-3">
+          <button
+            onClick={() => nextUnanswered !== undefined && onSelect(nextUnanswered)}
+            disabled={nextUnanswered === undefined}
+            className="text-[var(--ios-blue)] disabled:text-[var(--ios-text-secondary)]"
+          >
+            Next unanswered
+          </button>
+          <button
+            onClick={() => nextFlagged !== undefined && onSelect(nextFlagged)}
+            disabled={nextFlagged === undefined}
+            className="text-[var(--ios-blue)] disabled:text-[var(--ios-text-secondary)]"
+          >
+            Next flagged
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-10 gap-1.5 max-h-[160px] overflow-y-auto">
+        {positions.map((position) => (
+          <button
+            key={position}
+            onClick={() => onSelect(position)}
+            aria-label={`Question ${position + 1}${
+              answered.has(position) ? ", answered" : ""
+            }${flagged.includes(position) ? ", flagged" : ""}`}
+            aria-current={position === current}
+            className={`relative py-1.5 rounded-[8px] text-[13px] border ${
+              position === current
+                ? "border-[var(--ios-blue)]"
+                : "border-transparent"
+            } ${
+              answered.has(position)
+                ? "bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                : "bg-[var(--ios-background)] text-[var(--ios-text)]"
+            }`}
+          >
+            {position + 1}
+            {flagged.includes(position) && (
+              <Flag className="absolute -top-1 -right-1 w-3 h-3 text-[var(--ios-red)] fill-current" />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { useEffect, useState } from "react";
+import { FlagReason, Question, QuestionFlag } from "../types";
+import { FLAG_REASONS } from "../utils/flags";
+
+interface FlagDialogProps {
+  question: Question | null;
+  flag?: QuestionFlag;
+  onSave: (flag: QuestionFlag) => void;
+  onRemove: (questionId: string) => void;
+  onClose: () => void;
+}
+
+export function FlagDialog({
+  question,
+  flag,
+  onSave,
+  onRemove,
+  onClose,
+}: FlagDialogProps) {
+  const [reason, setReason] = useState<FlagReason>("wrong-key");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!question) return;
+    setReason(flag?.reason ?? "wrong-key");
+    setNote(flag?.note ?? "");
+  }, [question, flag]);
+
+  const handleSave = () => {
+    if (!question) return;
+    onSave({
+      questionId: question.id,
+      reason,
+      note: note.trim(),
+      createdAt: flag?.createdAt ?? Date.now(),
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open={question !== null} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-md p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <Dialog.Title className="text-[22px] mb-2">Report Question</Dialog.Title>
+          <Dialog.Description className="text-[15px] text-[var(--ios-text-secondary)] mb-4">
+            {question?.question}
+          </Dialog.Description>
+
+          <div className="space-y-2 mb-4">
+            {(Object.keys(FLAG_REASONS) as FlagReason[]).map((value) => (
+              <label key={value} className="flex items-center gap-2 text-[17px]">
+                <input
+                  type="radio"
+                  name="flag-reason"
+                  checked={reason === value}
+                  onChange={() => setReason(value)}
+                />
+                {FLAG_REASONS[value]}
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            className="w-full min-h-[90px] p-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px]"
+            placeholder="Note (e.g. which answer should be correct and why)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={handleSave}
+              className="flex-1 py-3 rounded-[14px] bg-[var(--ios-blue)] text-white text-[17px]"
+            >
+              {flag ? "Update" : "Report"}
+            </button>
+            {flag && question && (
+              <button
+                onClick={() => {
+                  onRemove(question.id);
+                  onClose();
+                }}
+                className="flex-1 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-red)] text-[17px]"
+              >
+                Remove Flag
+              </button>
+            )}
+            <Dialog.Close className="flex-1 py-3 rounded-[14px] bg-[var(--ios-background)] text-[17px]">
+              Cancel
+            </Dialog.Close>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,118 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { useMemo } from "react";
+import { Language, Question, QuestionFlag } from "../types";
+import {
+  FLAG_REASONS,
+  buildFlagReport,
+  formatFlagReportMarkdown,
+} from "../utils/flags";
+import { downloadFile } from "../utils/download";
+
+interface FlaggedViewProps {
+  flags: QuestionFlag[];
+  banks: Record<Language, Question[]>;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (flag: QuestionFlag) => void;
+  onRemove: (questionId: string) => void;
+}
+
+export function FlaggedView({
+  flags,
+  banks,
+  isOpen,
+  onOpenChange,
+  onEdit,
+  onRemove,
+}: FlaggedViewProps) {
+  const report = useMemo(() => buildFlagReport(flags, banks), [flags, banks]);
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-2xl max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">
+              Flagged Questions ({flags.length})
+            </Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Done
+            </Dialog.Close>
+          </div>
+
+          {report.length ? (
+            <>
+              <div className="flex gap-2 mb-4">
+                <button
+                  onClick={() =>
+                    downloadFile(
+                      "flagged-questions.md",
+                      formatFlagReportMarkdown(report),
+                      "text/markdown"
+                    )
+                  }
+                  className="flex-1 py-2 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[15px]"
+                >
+                  Export Markdown
+                </button>
+                <button
+                  onClick={() =>
+                    downloadFile(
+                      "flagged-questions.json",
+                      JSON.stringify(report, null, 2)
+                    )
+                  }
+                  className="flex-1 py-2 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[15px]"
+                >
+                  Export JSON
+                </button>
+              </div>
+
+              <ul className="space-y-2">
+                {report.map((entry, index) => (
+                  <li
+                    key={entry.id}
+                    className="p-3 rounded-[14px] bg-[var(--ios-background)] text-[15px]"
+                  >
+                    <div className="flex justify-between gap-2 mb-1">
+                      <span className="text-[var(--ios-red)]">
+                        {FLAG_REASONS[entry.reason]}
+                      </span>
+                      <span className="text-[13px] text-[var(--ios-text-secondary)]">
+                        {entry.id}
+                      </span>
+                    </div>
+                    <p>{entry.ro?.question ?? "Missing in RO"}</p>
+                    <p className="text-[var(--ios-text-secondary)]">
+                      {entry.en?.question ?? "Missing in EN"}
+                    </p>
+                    {entry.note && <p className="mt-1 italic">{entry.note}</p>}
+                    <div className="flex gap-4 mt-2">
+                      <button
+                        onClick={() => onEdit(flags[index])}
+                        className="text-[var(--ios-blue)]"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => onRemove(entry.id)}
+                        className="text-[var(--ios-red)]"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-[15px] text-[var(--ios-text-secondary)]">
+              No questions flagged yet. Use Report on a question to flag it.
+            </p>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,90 @@
+import ReactMarkdown, { Components } from "react-markdown";
+import { Question } from "../types";
+import { TokenType, highlightCode, highlightLanguage } from "../utils/highlight";
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: "",
+  comment: "text-[var(--ios-text-secondary)] italic",
+  string: "text-[var(--ios-green)]",
+  keyword: "text-[var(--ios-purple)] font-medium",
+  builtin: "text-[var(--ios-blue)]",
+  number: "text-[var(--ios-orange)]",
+  variable: "text-[var(--ios-orange)]",
+  flag: "text-[var(--ios-blue)]",
+  preprocessor: "text-[var(--ios-purple)]",
+};
+
+// Plain elements styled to match the app; raw HTML in the text is not rendered
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noreferrer"
+      className="text-[var(--ios-blue)] underline"
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="mb-2 pl-5 list-disc">{children}</ul>,
+  ol: ({ children }) => <ol className="mb-2 pl-5 list-decimal">{children}</ol>,
+  code: ({ className, children }) => {
+    // Fenced shell and C blocks are highlighted, anything else is shown as is
+    const language = highlightLanguage(className);
+    return (
+      <code className="px-1 rounded-[4px] bg-[var(--ios-border)] font-mono text-[0.9em]">
+        {language && typeof children === "string"
+          ? highlightCode(children, language).map((token, i) =>
+              token.type === "plain" ? (
+                token.text
+              ) : (
+                <span key={i} className={TOKEN_CLASSES[token.type]}>
+                  {token.text}
+                </span>
+              )
+            )
+          : children}
+      </code>
+    );
+  },
+  pre: ({ children }) => (
+    <pre className="mb-2 p-3 overflow-x-auto rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[13px] text-left [&_code]:p-0 [&_code]:bg-transparent">
+      {children}
+    </pre>
+  ),
+};
+
+// Inside buttons and headings paragraphs would break the layout
+const inlineComponents: Components = {
+  ...components,
+  p: ({ children }) => <>{children}</>,
+};
+
+export function Markdown({
+  children,
+  inline = false,
+}: {
+  children: string;
+  inline?: boolean;
+}) {
+  return (
+    <ReactMarkdown components={inline ? inlineComponents : components}>
+      {children}
+    </ReactMarkdown>
+  );
+}
+
+// Question and answer text is plain unless the entry opts into Markdown, so
+// shell metacharacters in older entries ("*", "\\", "`") show as written
+export function QuestionText({
+  question,
+  text,
+  inline = false,
+}: {
+  question: Question;
+  text: string;
+  inline?: boolean;
+}) {
+  return question.markdown ? <Markdown inline={inline}>{text}</Markdown> : <>{text}</>;
+}
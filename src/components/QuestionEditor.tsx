@@ -0,0 +1,367 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Language, Question, QuestionKind, QuestionOverride } from "../types";
+import { findDuplicateQuestion, validateQuestion } from "../utils/questionBank";
+import { answerLetter, getCorrectAnswers, getQuestionKind } from "../utils/scoring";
+
+const LANGUAGES: Array<{ code: Language; label: string }> = [
+  { code: "ro", label: "Română" },
+  { code: "en", label: "English" },
+];
+
+type Drafts = Partial<Record<Language, Question>>;
+
+interface QuestionEditorProps {
+  questionId: string | null;
+  banks: Record<Language, Question[]>;
+  isEdited: boolean;
+  onSave: (override: QuestionOverride) => void;
+  onReset: (id: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// Keep correct answers as answer texts while editing, so they follow renames
+const toDraft = (question: Question): Question => {
+  const kind = getQuestionKind(question);
+  if (kind === "text" || kind === "task") return question;
+
+  const correct = getCorrectAnswers(question);
+  return { ...question, correct: kind === "multiple" ? correct : correct[0] ?? "" };
+};
+
+const changeKind = (question: Question, kind: QuestionKind): Question => {
+  const correct = getCorrectAnswers(question);
+
+  switch (kind) {
+    case "text":
+    case "task":
+      return { ...question, kind, answers: [], correct: correct[0] ?? "" };
+    case "multiple":
+      return { ...question, kind, correct };
+    default:
+      return { ...question, kind, correct: correct[0] ?? "" };
+  }
+};
+
+const inputClass =
+  "w-full p-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] text-[var(--ios-text)]";
+
+function QuestionFields({
+  draft,
+  errors,
+  onChange,
+}: {
+  draft: Question;
+  errors: string[];
+  onChange: (draft: Question) => void;
+}) {
+  const kind = getQuestionKind(draft);
+  const correct = Array.isArray(draft.correct) ? draft.correct : [draft.correct];
+
+  const renameAnswer = (index: number, text: string) => {
+    const previous = draft.answers[index];
+    const answers = draft.answers.map((a, i) => (i === index ? text : a));
+    const renamed = correct.map((c) => (c === previous ? text : c));
+    onChange({
+      ...draft,
+      answers,
+      correct: Array.isArray(draft.correct) ? renamed : renamed[0],
+    });
+  };
+
+  const removeAnswer = (index: number) => {
+    const removed = draft.answers[index];
+    const answers = draft.answers.filter((_, i) => i !== index);
+    onChange({
+      ...draft,
+      answers,
+      correct: Array.isArray(draft.correct)
+        ? draft.correct.filter((c) => c !== removed)
+        : draft.correct === removed
+        ? ""
+        : draft.correct,
+    });
+  };
+
+  const toggleCorrect = (answer: string) => {
+    if (kind === "multiple") {
+      onChange({
+        ...draft,
+        correct: correct.includes(answer)
+          ? correct.filter((c) => c !== answer)
+          : draft.answers.filter((a) => a === answer || correct.includes(a)),
+      });
+    } else {
+      onChange({ ...draft, correct: answer });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        className={`${inputClass} min-h-[90px]`}
+        value={draft.question}
+        onChange={(e) => onChange({ ...draft, question: e.target.value })}
+      />
+
+      {kind === "text" || kind === "task" ? (
+        <>
+          <label className="block text-[13px] text-[var(--ios-text-secondary)]">
+            {kind === "task" ? "Reference command" : "Correct answer"}
+            <input
+              className={`${inputClass} mt-1 ${kind === "task" ? "font-mono" : ""}`}
+              value={correct[0] ?? ""}
+              onChange={(e) => onChange({ ...draft, correct: e.target.value })}
+            />
+          </label>
+          <label className="block text-[13px] text-[var(--ios-text-secondary)]">
+            Also accepted (one per line)
+            <textarea
+              className={`${inputClass} mt-1`}
+              value={(draft.acceptedAnswers ?? []).join("\n")}
+              onChange={(e) =>
+                onChange({
+                  ...draft,
+                  acceptedAnswers: e.target.value
+                    .split("\n")
+                    .filter((line) => line.trim()),
+                })
+              }
+            />
+          </label>
+        </>
+      ) : (
+        <div className="space-y-2">
+          {draft.answers.map((answer, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type={kind === "multiple" ? "checkbox" : "radio"}
+                checked={correct.includes(answer)}
+                onChange={() => toggleCorrect(answer)}
+                title="Correct answer"
+              />
+              <span className="text-[13px] text-[var(--ios-text-secondary)]">
+                {answerLetter(index)})
+              </span>
+              <input
+                className={inputClass}
+                value={answer}
+                onChange={(e) => renameAnswer(index, e.target.value)}
+              />
+              <button
+                onClick={() => removeAnswer(index)}
+                className="text-[var(--ios-red)]"
+                title="Remove answer"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...draft, answers: [...draft.answers, ""] })}
+            className="flex items-center gap-1 text-[15px] text-[var(--ios-blue)]"
+          >
+            <Plus className="w-4 h-4" /> Add answer
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-[13px] text-[var(--ios-text-secondary)]">
+        <input
+          type="checkbox"
+          checked={!!draft.markdown}
+          onChange={(e) => onChange({ ...draft, markdown: e.target.checked || undefined })}
+        />
+        Question and answers are Markdown
+      </label>
+      <label className="block text-[13px] text-[var(--ios-text-secondary)]">
+        Image
+        <input
+          className={`${inputClass} mt-1`}
+          value={draft.image ?? ""}
+          placeholder="images/page-table.png (in public/) or a URL"
+          onChange={(e) => onChange({ ...draft, image: e.target.value || undefined })}
+        />
+      </label>
+      <label className="block text-[13px] text-[var(--ios-text-secondary)]">
+        Explanation (Markdown)
+        <textarea
+          className={`${inputClass} mt-1 min-h-[70px] font-mono`}
+          value={draft.explanation ?? ""}
+          onChange={(e) =>
+            onChange({ ...draft, explanation: e.target.value || undefined })
+          }
+        />
+      </label>
+      <label className="block text-[13px] text-[var(--ios-text-secondary)]">
+        Source
+        <input
+          className={`${inputClass} mt-1`}
+          value={draft.source ?? ""}
+          placeholder="Course chapter, man page or URL"
+          onChange={(e) => onChange({ ...draft, source: e.target.value || undefined })}
+        />
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="text-[13px] text-[var(--ios-red)] list-disc pl-5">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function QuestionEditor({
+  questionId,
+  banks,
+  isEdited,
+  onSave,
+  onReset,
+  onExport,
+  onClose,
+}: QuestionEditorProps) {
+  const [drafts, setDrafts] = useState<Drafts>({});
+
+  // Start from the current (possibly already edited) question whenever another one is opened
+  useEffect(() => {
+    if (!questionId) return;
+
+    const next: Drafts = {};
+    for (const { code } of LANGUAGES) {
+      const question = banks[code].find((q) => q.id === questionId);
+      if (question) next[code] = toDraft(question);
+    }
+    setDrafts(next);
+  }, [questionId, banks]);
+
+  const errors = Object.fromEntries(
+    LANGUAGES.map(({ code }) => {
+      const draft = drafts[code];
+      if (!draft) return [code, []];
+
+      const duplicate = findDuplicateQuestion(draft, banks[code]);
+      return [
+        code,
+        [
+          ...validateQuestion(draft),
+          ...(duplicate ? [`same text as question ${duplicate.id}`] : []),
+        ],
+      ];
+    })
+  ) as Record<Language, string[]>;
+
+  const hasErrors = LANGUAGES.some(({ code }) => errors[code].length > 0);
+  const base = drafts.ro ?? drafts.en;
+  const kind = base ? getQuestionKind(base) : "single";
+
+  const updateKind = (next: QuestionKind) => {
+    setDrafts((prev) => ({
+      ro: prev.ro && changeKind(prev.ro, next),
+      en: prev.en && changeKind(prev.en, next),
+    }));
+  };
+
+  const handleSave = () => {
+    if (!questionId || hasErrors) return;
+    onSave({ id: questionId, ...drafts, updatedAt: Date.now() });
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open={questionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[95%] max-w-4xl max-h-[90vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">Edit Question</Dialog.Title>
+            <span className="text-[13px] text-[var(--ios-text-secondary)]">
+              {questionId}
+              {isEdited && " · edited locally"}
+            </span>
+          </div>
+
+          {base ? (
+            <>
+              <label className="flex items-center gap-2 mb-4 text-[15px]">
+                Kind
+                <select
+                  className="p-1 rounded-[8px] bg-[var(--ios-background)] border border-[var(--ios-border)]"
+                  value={kind}
+                  onChange={(e) => updateKind(e.target.value as QuestionKind)}
+                >
+                  <option value="single">Single choice</option>
+                  <option value="multiple">Multiple selection</option>
+                  <option value="text">Free text</option>
+                  <option value="task">Shell task</option>
+                </select>
+              </label>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                {LANGUAGES.map(({ code, label }) => {
+                  const draft = drafts[code];
+                  return (
+                    <section key={code}>
+                      <h3 className="text-[17px] mb-2">{label}</h3>
+                      {draft ? (
+                        <QuestionFields
+                          draft={draft}
+                          errors={errors[code]}
+                          onChange={(next) =>
+                            setDrafts((prev) => ({ ...prev, [code]: next }))
+                          }
+                        />
+                      ) : (
+                        <p className="text-[15px] text-[var(--ios-text-secondary)]">
+                          Not in this bank
+                        </p>
+                      )}
+                    </section>
+                  );
+                })}
+              </div>
+            </>
+          ) : (
+            <p className="text-[15px] text-[var(--ios-text-secondary)]">
+              Question not found
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2 mt-6">
+            <button
+              onClick={handleSave}
+              disabled={hasErrors}
+              className="flex-1 py-3 rounded-[14px] bg-[var(--ios-blue)] text-white text-[17px] disabled:opacity-50"
+            >
+              Save
+            </button>
+            {isEdited && questionId && (
+              <button
+                onClick={() => {
+                  onReset(questionId);
+                  onClose();
+                }}
+                className="flex-1 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-red)] text-[17px]"
+              >
+                Revert to Original
+              </button>
+            )}
+            <button
+              onClick={onExport}
+              className="flex-1 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+            >
+              Export Banks
+            </button>
+            <Dialog.Close className="flex-1 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-text)] text-[17px]">
+              Cancel
+            </Dialog.Close>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,113 @@
+import { BookOpen, NotebookPen } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Question, QuestionNote } from "../types";
+import { Markdown } from "./Markdown";
+import { SolutionView } from "./SolutionView";
+
+interface QuestionExplanationProps {
+  question: Question;
+  note?: QuestionNote;
+  onSaveNote: (questionId: string, text: string) => void;
+}
+
+const isUrl = (text: string) => /^https?:\/\/\S+$/.test(text.trim());
+
+// The bank's explanation and source for a question, plus the user's own note
+export function QuestionExplanation({
+  question,
+  note,
+  onSaveNote,
+}: QuestionExplanationProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(null);
+  }, [question.id]);
+
+  const handleSave = () => {
+    if (draft === null) return;
+    onSaveNote(question.id, draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="mt-4 space-y-3 text-[15px]">
+      {question.explanation && (
+        <div className="p-4 rounded-[14px] bg-[var(--ios-background)] border border-[var(--ios-border)]">
+          <h4 className="flex items-center gap-2 mb-2 text-[13px] uppercase text-[var(--ios-text-secondary)]">
+            <BookOpen className="w-4 h-4" />
+            Explanation
+          </h4>
+          <Markdown>{question.explanation}</Markdown>
+        </div>
+      )}
+
+      {question.solution && <SolutionView solution={question.solution} />}
+
+      {question.source && (
+        <p className="text-[13px] text-[var(--ios-text-secondary)]">
+          Source:{" "}
+          {isUrl(question.source) ? (
+            <a
+              href={question.source.trim()}
+              target="_blank"
+              rel="noreferrer"
+              className="text-[var(--ios-blue)] underline break-all"
+            >
+              {question.source}
+            </a>
+          ) : (
+            question.source
+          )}
+        </p>
+      )}
+
+      {draft !== null ? (
+        <div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Your note (Markdown, e.g. `grep -i` in backticks)"
+            autoFocus
+            className="w-full h-28 px-3 py-2 mb-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[15px] font-mono"
+          />
+          <div className="flex justify-end gap-4">
+            <button
+              onClick={() => setDraft(null)}
+              className="text-[var(--ios-text-secondary)] text-[15px]"
+            >
+              Cancel
+            </button>
+            <button onClick={handleSave} className="text-[var(--ios-blue)] text-[15px]">
+              Save Note
+            </button>
+          </div>
+        </div>
+      ) : note ? (
+        <div className="p-4 rounded-[14px] bg-[var(--ios-blue-light)]">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="flex items-center gap-2 text-[13px] uppercase text-[var(--ios-text-secondary)]">
+              <NotebookPen className="w-4 h-4" />
+              Your Note
+            </h4>
+            <button
+              onClick={() => setDraft(note.text)}
+              className="text-[var(--ios-blue)] text-[13px]"
+            >
+              Edit
+            </button>
+          </div>
+          <Markdown>{note.text}</Markdown>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft("")}
+          className="flex items-center gap-1 text-[var(--ios-blue)] text-[15px]"
+        >
+          <NotebookPen className="w-4 h-4" />
+          Add a note
+        </button>
+      )}
+    </div>
+  );
+}
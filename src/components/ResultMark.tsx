@@ -0,0 +1,18 @@
+import { Check, X } from "lucide-react";
+
+interface ResultMarkProps {
+  correct: boolean;
+  label?: string;
+  className?: string;
+}
+
+// The green and red of a graded answer, spelled out for anyone who can't tell them apart
+export function ResultMark({ correct, label, className = "" }: ResultMarkProps) {
+  const Icon = correct ? Check : X;
+  return (
+    <span className={`inline-flex items-center gap-1 shrink-0 text-[13px] font-medium ${className}`}>
+      <Icon size={16} strokeWidth={3} aria-hidden="true" />
+      {label ?? (correct ? "Correct" : "Incorrect")}
+    </span>
+  );
+}
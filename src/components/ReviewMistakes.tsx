@@ -0,0 +1,189 @@
+import { AlertTriangle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { AnswerValue, Question, QuestionNote } from "../types";
+import {
+  answerLetter,
+  getQuestionKind,
+  describeAcceptedAnswers,
+  isCorrectOption,
+  isSelected,
+  formatResponse,
+} from "../utils/scoring";
+import { Keymap, getAction, hasOpenDialog, isTypingTarget } from "../utils/keymap";
+import { QuestionExplanation } from "./QuestionExplanation";
+import { QuestionText } from "./Markdown";
+import { ZoomableImage } from "./ZoomableImage";
+
+interface ReviewMistakesProps {
+  mistakes: Array<[Question, AnswerValue]>;
+  backLabel: string;
+  onBack: () => void;
+  onRetry: () => void;
+  flaggedIds: Set<string>;
+  onReport: (question: Question) => void;
+  notes: Map<string, QuestionNote>;
+  onSaveNote: (questionId: string, text: string) => void;
+  keymap: Keymap;
+}
+
+export function ReviewMistakes({
+  mistakes,
+  backLabel,
+  onBack,
+  onRetry,
+  flaggedIds,
+  onReport,
+  notes,
+  onSaveNote,
+  keymap,
+}: ReviewMistakesProps) {
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || hasOpenDialog()) return;
+
+      const focus = (index: number) => {
+        if (index < 0 || index >= mistakes.length) return;
+        setFocusedIndex(index);
+        cardRefs.current[index]?.focus();
+      };
+
+      switch (getAction(keymap, "review", e)) {
+        case "nextMistake":
+          e.preventDefault();
+          focus(focusedIndex + 1);
+          break;
+        case "previousMistake":
+          e.preventDefault();
+          focus(focusedIndex - 1);
+          break;
+        case "retryMistakes":
+          if (mistakes.length > 0) {
+            e.preventDefault();
+            onRetry();
+          }
+          break;
+        case "leaveReview":
+          e.preventDefault();
+          onBack();
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [keymap, mistakes.length, focusedIndex, onBack, onRetry]);
+
+  return (
+    <div className="min-h-screen bg-[var(--ios-background)] text-[var(--ios-text)] flex flex-col items-center gap-4 p-4">
+      <div className="w-full max-w-3xl bg-[var(--ios-card-background)] border border-[var(--ios-border)] rounded-[18px] overflow-hidden shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-[22px] font-semibold">Review Mistakes</h2>
+          <div className="flex gap-4">
+            {mistakes.length > 0 && (
+              <button onClick={onRetry} className="text-[var(--ios-blue)] text-[17px]">
+                Retry Mistakes
+              </button>
+            )}
+            <button onClick={onBack} className="text-[var(--ios-blue)] text-[17px]">
+              {backLabel}
+            </button>
+          </div>
+        </div>
+
+        {mistakes.length === 0 && (
+          <p className="text-[15px] text-[var(--ios-text-secondary)]">
+            No mistakes recorded for this session.
+          </p>
+        )}
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+          {mistakes.map(([question, userAnswer], index) => (
+            <div
+              key={index}
+              ref={(element) => {
+                cardRefs.current[index] = element;
+              }}
+              tabIndex={-1}
+              onFocus={() => setFocusedIndex(index)}
+              className="p-4 rounded-[14px] bg-[var(--ios-background)] border border-[var(--ios-border)] outline-none focus-visible:ring-2 focus-visible:ring-[var(--ios-blue)]"
+            >
+              <div className="flex items-start justify-between gap-3 mb-4">
+                <h3 className="text-[17px] font-medium">
+                  <QuestionText question={question} text={question.question} inline />
+                </h3>
+                <button
+                  onClick={() => onReport(question)}
+                  className={`shrink-0 flex items-center gap-1 text-[13px] ${
+                    flaggedIds.has(question.id)
+                      ? "text-[var(--ios-red)]"
+                      : "text-[var(--ios-text-secondary)]"
+                  }`}
+                >
+                  <AlertTriangle className="w-4 h-4" />
+                  {flaggedIds.has(question.id) ? "Reported" : "Report"}
+                </button>
+              </div>
+
+              {question.image && (
+                <ZoomableImage
+                  key={question.image}
+                  image={question.image}
+                  alt={`Image for: ${question.question}`}
+                  className="mb-4"
+                />
+              )}
+
+              {["text", "task"].includes(getQuestionKind(question)) ? (
+                <div className="space-y-2 text-[15px]">
+                  <div className="p-3 rounded-[10px] bg-[var(--ios-red-light)] text-[var(--ios-red)] border border-[var(--ios-red)]">
+                    ✗ Your Answer: {formatResponse(userAnswer) || "(no answer)"}
+                  </div>
+                  <div className="p-3 rounded-[10px] bg-[var(--ios-green-light)] text-[var(--ios-green)] border border-[var(--ios-green)]">
+                    ✓ Accepted: {describeAcceptedAnswers(question)}
+                  </div>
+                </div>
+              ) : (
+              <div className="space-y-2">
+                {question.answers.map((answer, answerIndex) => (
+                  <div
+                    key={answerIndex}
+                    className={`p-3 rounded-[10px] text-[15px] ${
+                      isCorrectOption(question, answer)
+                        ? "bg-[var(--ios-green-light)] text-[var(--ios-green)] border border-[var(--ios-green)]"
+                        : isSelected(userAnswer, answer)
+                        ? "bg-[var(--ios-red-light)] text-[var(--ios-red)] border border-[var(--ios-red)]"
+                        : "bg-[var(--ios-card-background)]"
+                    }`}
+                  >
+                    <span className="font-medium">
+                      {answerLetter(answerIndex)})
+                    </span>{" "}
+                    <QuestionText question={question} text={answer} inline />
+                    {isCorrectOption(question, answer) && (
+                      <span className="ml-2 text-[13px] font-medium">✓ Correct</span>
+                    )}
+                    {isSelected(userAnswer, answer) && (
+                      <span className="ml-2 text-[13px] font-medium">
+                        {isCorrectOption(question, answer) ? "· Your Answer" : "✗ Your Answer"}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              )}
+
+              <QuestionExplanation
+                question={question}
+                note={notes.get(question.id)}
+                onSaveNote={onSaveNote}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { useRef } from "react";
+import { ShellTerminal } from "./ShellTerminal";
+
+interface ShellSandboxProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Free practice with the commands of the shell questions, on the practice files
+export function ShellSandbox({ isOpen, onOpenChange }: ShellSandboxProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content
+          onOpenAutoFocus={(e) => {
+            e.preventDefault();
+            inputRef.current?.focus();
+          }}
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-2xl max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">Shell Sandbox</Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Done
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="mb-3 text-[15px] text-[var(--ios-text-secondary)]">
+            A practice home directory with ls, cat, grep, awk, wc, chmod, file, ln and
+            more. Nothing leaves this window; type help for the full list.
+          </Dialog.Description>
+          <ShellTerminal inputRef={inputRef} />
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,124 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { ShellTask } from "../types";
+import { runCommand } from "../utils/shell";
+import { HOME, USER, createFs } from "../utils/virtualFs";
+
+interface ShellTerminalProps {
+  task?: ShellTask; // the sandbox to start from; the practice files when omitted
+  onRun?: (command: string) => void;
+  disabled?: boolean;
+  inputRef?: RefObject<HTMLInputElement>;
+  className?: string;
+}
+
+interface TerminalEntry {
+  prompt: string;
+  command: string;
+  output: string;
+}
+
+// "student@sandbox:~/docs$", as bash shows it
+const formatPrompt = (cwd: string) => {
+  const path = cwd === HOME || cwd.startsWith(`${HOME}/`) ? `~${cwd.slice(HOME.length)}` : cwd;
+  return `${USER}@sandbox:${path}$`;
+};
+
+// Terminal on a virtual filesystem; "clear" empties it and "reset" brings
+// back the starting files. Up and down recall earlier commands
+export function ShellTerminal({ task, onRun, disabled = false, inputRef, className = "" }: ShellTerminalProps) {
+  const [fs, setFs] = useState(() => createFs(task));
+  const [entries, setEntries] = useState<TerminalEntry[]>([]);
+  const [input, setInput] = useState("");
+  const [history, setHistory] = useState<string[]>([]);
+  const [recalled, setRecalled] = useState(-1); // position in history while browsing it
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const prompt = formatPrompt(fs.cwd);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element) element.scrollTop = element.scrollHeight;
+  }, [entries]);
+
+  const run = () => {
+    const command = input.trim();
+    setInput("");
+    setRecalled(-1);
+    if (!command) {
+      setEntries((current) => [...current, { prompt, command: "", output: "" }]);
+      return;
+    }
+    setHistory((current) => [...current, command]);
+
+    if (command === "clear") {
+      setEntries([]);
+      return;
+    }
+    if (command === "reset") {
+      const fresh = createFs(task);
+      setFs(fresh);
+      setEntries([{ prompt, command, output: "Back to the starting files.\n" }]);
+      return;
+    }
+    // Commands change the filesystem in place; cd changes the prompt
+    const { output } = runCommand(fs, command);
+    setEntries((current) => [...current, { prompt, command, output }]);
+    onRun?.(command);
+  };
+
+  const recall = (position: number) => {
+    if (position < 0 || position >= history.length) {
+      setRecalled(-1);
+      setInput("");
+    } else {
+      setRecalled(position);
+      setInput(history[position]);
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onClick={() => {
+        if (!window.getSelection()?.toString()) inputRef?.current?.focus();
+      }}
+      className={`max-h-[360px] overflow-y-auto p-3 rounded-[14px] bg-[var(--ios-background)] border border-[var(--ios-border)] font-mono text-[13px] text-left ${className}`}
+    >
+      {entries.map((entry, i) => (
+        <div key={i} className="whitespace-pre-wrap break-all">
+          <span className="text-[var(--ios-green)]">{entry.prompt}</span> {entry.command}
+          {entry.output && <div>{entry.output.replace(/\n$/, "")}</div>}
+        </div>
+      ))}
+      <label className="flex items-center gap-2">
+        <span className="shrink-0 text-[var(--ios-green)]">{prompt}</span>
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              run();
+            } else if (e.key === "ArrowUp" && history.length) {
+              e.preventDefault();
+              recall(recalled < 0 ? history.length - 1 : Math.max(recalled - 1, 0));
+            } else if (e.key === "ArrowDown" && recalled >= 0) {
+              e.preventDefault();
+              recall(recalled + 1);
+            } else if (e.key === "l" && e.ctrlKey) {
+              e.preventDefault();
+              setEntries([]);
+            }
+          }}
+          disabled={disabled}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          aria-label="Command"
+          placeholder={entries.length ? undefined : "Type a command, or help"}
+          className="flex-1 min-w-0 bg-transparent outline-none text-[var(--ios-text)]"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { AlertTriangle, Plus, X } from "lucide-react";
+import { KeyboardEvent, useState } from "react";
+import { KeyAction, KeyBindings, KeyScope } from "../types";
+import {
+  KEY_ACTIONS,
+  KEY_SCOPES,
+  Keymap,
+  checkBinding,
+  findConflicts,
+  formatBinding,
+  formatKeys,
+  getBinding,
+} from "../utils/keymap";
+import { SEARCH_FILTERS, SearchFilter } from "../utils/search";
+
+interface ShortcutsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  keymap: Keymap;
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+const ACTIONS = Object.keys(KEY_ACTIONS) as KeyAction[];
+
+// Every shortcut by where it works, with its keys editable in place
+export function ShortcutsDialog({
+  isOpen,
+  onOpenChange,
+  keymap,
+  bindings,
+  onChange,
+}: ShortcutsDialogProps) {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const conflicts = findConflicts(keymap);
+
+  const setKeys = (action: KeyAction, keys: string[]) => {
+    onChange({ ...bindings, [action]: keys });
+  };
+
+  const stopCapturing = () => {
+    setCapturing(null);
+    setError(null);
+  };
+
+  const handleCapture = (action: KeyAction, e: KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const binding = getBinding(e);
+    if (!binding) return;
+    const problem = checkBinding(keymap, action, binding);
+    if (problem) {
+      setError(`${formatBinding(binding)}: ${problem}`);
+      return;
+    }
+    setKeys(action, [...keymap[action], binding]);
+    stopCapturing();
+  };
+
+  return (
+    <Dialog.Root
+      open={isOpen}
+      onOpenChange={(open) => {
+        stopCapturing();
+        onOpenChange(open);
+      }}
+    >
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content
+          onEscapeKeyDown={(e) => {
+            // Escape cancels the key being recorded before it closes the dialog
+            if (capturing) {
+              e.preventDefault();
+              stopCapturing();
+            }
+          }}
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-2xl max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <Dialog.Title className="text-[22px]">Keyboard Shortcuts</Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Done
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="mb-4 text-[15px] text-[var(--ios-text-secondary)]">
+            Shortcuts only work where they are listed. Add a key with +, remove one with its ×.
+          </Dialog.Description>
+
+          {conflicts.length > 0 && (
+            <div className="mb-4 p-3 rounded-[14px] bg-[var(--ios-red-light)] text-[var(--ios-red)] text-[15px]">
+              {conflicts.map(({ binding, actions }) => (
+                <p key={`${binding}-${actions.join()}`} className="flex items-center gap-2">
+                  <AlertTriangle size={16} className="shrink-0" aria-hidden="true" />
+                  {formatBinding(binding)} is bound to{" "}
+                  {actions.map((action) => `"${KEY_ACTIONS[action].label}"`).join(" and ")}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-5">
+            {(Object.keys(KEY_SCOPES) as KeyScope[]).map((scope) => (
+              <section key={scope}>
+                <h3 className="text-[17px] mb-2">{KEY_SCOPES[scope]}</h3>
+                <ul className="space-y-2">
+                  {ACTIONS.filter((action) => KEY_ACTIONS[action].scope === scope).map((action) => (
+                    <li key={action} className="flex items-start justify-between gap-3 text-[15px]">
+                      <span className="text-[var(--ios-text-secondary)]">
+                        {KEY_ACTIONS[action].label}
+                      </span>
+                      <span className="flex flex-wrap justify-end items-center gap-1.5">
+                        {KEY_ACTIONS[action].fixed ? (
+                          <kbd className="px-2 py-0.5 rounded-[6px] border border-[var(--ios-border)] font-sans">
+                            {formatKeys(keymap, action)}
+                          </kbd>
+                        ) : (
+                          <>
+                            {keymap[action].length === 0 && (
+                              <span className="text-[var(--ios-text-secondary)]">None</span>
+                            )}
+                            {keymap[action].map((binding) => (
+                              <kbd
+                                key={binding}
+                                className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-[6px] border border-[var(--ios-border)] font-sans"
+                              >
+                                {formatBinding(binding)}
+                                <button
+                                  onClick={() =>
+                                    setKeys(
+                                      action,
+                                      keymap[action].filter((key) => key !== binding)
+                                    )
+                                  }
+                                  aria-label={`Remove ${formatBinding(binding)} from "${KEY_ACTIONS[action].label}"`}
+                                  className="text-[var(--ios-text-secondary)] hover:text-[var(--ios-red)]"
+                                >
+                                  <X size={14} />
+                                </button>
+                              </kbd>
+                            ))}
+                            {capturing === action ? (
+                              <button
+                                autoFocus
+                                onKeyDown={(e) => handleCapture(action, e)}
+                                onBlur={stopCapturing}
+                                className="px-2 py-0.5 rounded-[6px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)]"
+                              >
+                                Press a key…
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => {
+                                  setError(null);
+                                  setCapturing(action);
+                                }}
+                                aria-label={`Add a key for "${KEY_ACTIONS[action].label}"`}
+                                className="p-1 rounded-[6px] text-[var(--ios-blue)] hover:bg-[var(--ios-background)]"
+                              >
+                                <Plus size={14} />
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {capturing && KEY_ACTIONS[capturing].scope === scope && error && (
+                  <p role="alert" className="mt-2 text-[13px] text-[var(--ios-red)]">
+                    {error}
+                  </p>
+                )}
+              </section>
+            ))}
+
+            <section>
+              <h3 className="text-[17px] mb-2">Search Filters</h3>
+              <ul className="space-y-2 text-[15px] text-[var(--ios-text-secondary)]">
+                {(Object.keys(SEARCH_FILTERS) as SearchFilter[]).map((filter) => (
+                  <li key={filter}>
+                    {filter} - {SEARCH_FILTERS[filter]}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+
+          {Object.keys(bindings).length > 0 && (
+            <button
+              onClick={() => onChange({})}
+              className="w-full mt-5 py-3 rounded-[14px] bg-[var(--ios-background)] text-[var(--ios-blue)] text-[17px]"
+            >
+              Reset to Defaults
+            </button>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,120 @@
+import { Table } from "lucide-react";
+import { GanttSlice, Solution, SolutionTable } from "../types";
+
+const PROCESS_COLORS = [
+  "var(--ios-blue)",
+  "var(--ios-green)",
+  "var(--ios-orange)",
+  "var(--ios-purple)",
+  "var(--ios-red)",
+];
+
+// CPU time line, one segment per slice, widths proportional to their length
+function GanttChart({ slices }: { slices: GanttSlice[] }) {
+  const start = slices[0].start;
+  const length = slices[slices.length - 1].end - start;
+  const processes = [...new Set(slices.flatMap((s) => (s.process ? [s.process] : [])))].sort();
+  const times = [...new Set(slices.flatMap((s) => [s.start, s.end]))];
+
+  return (
+    <div className="mb-3 pb-5">
+      <div className="relative">
+        <div className="flex h-8 rounded-[8px] overflow-hidden border border-[var(--ios-border)]">
+          {slices.map((slice, i) => (
+            <div
+              key={i}
+              title={`${slice.process ?? "idle"}: ${slice.start}–${slice.end}`}
+              style={{
+                flexGrow: slice.end - slice.start,
+                flexBasis: 0,
+                background: slice.process
+                  ? PROCESS_COLORS[processes.indexOf(slice.process) % PROCESS_COLORS.length]
+                  : undefined,
+              }}
+              className={`flex items-center justify-center min-w-0 text-[12px] font-medium border-r border-[var(--ios-card-background)] last:border-0 ${
+                slice.process ? "text-white" : "text-[var(--ios-text-secondary)]"
+              }`}
+            >
+              <span className="truncate px-0.5">{slice.process ?? "–"}</span>
+            </div>
+          ))}
+        </div>
+        {times.map((time) => (
+          <span
+            key={time}
+            style={{ left: `${((time - start) / length) * 100}%` }}
+            className="absolute top-full mt-0.5 -translate-x-1/2 text-[11px] tabular-nums text-[var(--ios-text-secondary)]"
+          >
+            {time}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function StepTable({ table }: { table: SolutionTable }) {
+  const highlighted = new Set(table.highlightedRows);
+
+  return (
+    <div>
+      {table.caption && (
+        <p className="mb-1 text-[13px] font-medium text-[var(--ios-text-secondary)]">{table.caption}</p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-[13px] tabular-nums">
+          <thead>
+            <tr className="border-b border-[var(--ios-border)]">
+              {table.columns.map((column, i) => (
+                <th
+                  key={i}
+                  scope="col"
+                  className="px-2 py-1 text-left font-medium text-[var(--ios-text-secondary)] whitespace-nowrap"
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, i) => (
+              <tr
+                key={i}
+                className={`border-b border-[var(--ios-border)] last:border-0 ${
+                  highlighted.has(i) ? "bg-[var(--ios-red-light)]" : ""
+                }`}
+              >
+                {row.map((cell, j) => (
+                  <td key={j} className="px-2 py-1 font-mono whitespace-nowrap">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {table.note && (
+        <p className="mt-2 text-[13px] text-[var(--ios-text-secondary)]">{table.note}</p>
+      )}
+    </div>
+  );
+}
+
+// Worked solution of a generated problem: a Gantt chart and step by step tables
+export function SolutionView({ solution }: { solution: Solution }) {
+  return (
+    <div className="p-4 rounded-[14px] bg-[var(--ios-background)] border border-[var(--ios-border)]">
+      <h4 className="flex items-center gap-2 mb-2 text-[13px] uppercase text-[var(--ios-text-secondary)]">
+        <Table className="w-4 h-4" />
+        Solution
+      </h4>
+      {solution.gantt && solution.gantt.length > 0 && <GanttChart slices={solution.gantt} />}
+      <div className="space-y-4">
+        {solution.tables.map((table, i) => (
+          <StepTable key={i} table={table} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { useMemo } from "react";
+import { AnswerEvent, Question, Session } from "../types";
+import {
+  AccuracyPoint,
+  accuracy,
+  getAccuracyByDay,
+  getSessionTrend,
+  getMostMissed,
+  getUnseenQuestions,
+} from "../utils/statistics";
+
+interface StatisticsViewProps {
+  events: AnswerEvent[];
+  sessions: Session[];
+  questions: Question[];
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function AccuracyBars({ points }: { points: AccuracyPoint[] }) {
+  if (!points.length) {
+    return (
+      <p className="text-[15px] text-[var(--ios-text-secondary)]">
+        No answers recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {points.map((point) => (
+        <div key={point.key} className="flex items-center gap-2 text-[13px]">
+          <span className="w-[90px] shrink-0 text-[var(--ios-text-secondary)]">
+            {point.label}
+          </span>
+          <div className="flex-1 h-3 rounded-full bg-[var(--ios-background)] overflow-hidden">
+            <div
+              className="h-full rounded-full bg-[var(--ios-blue)]"
+              style={{ width: `${accuracy(point)}%` }}
+            />
+          </div>
+          <span className="w-[90px] shrink-0 text-right">
+            {accuracy(point).toFixed(0)}% ({point.correct}/{point.total})
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function StatisticsView({
+  events,
+  sessions,
+  questions,
+  isOpen,
+  onOpenChange,
+}: StatisticsViewProps) {
+  const questionsById = useMemo(
+    () => new Map(questions.map((q) => [q.id, q])),
+    [questions]
+  );
+  const byDay = useMemo(() => getAccuracyByDay(events), [events]);
+  const trend = useMemo(
+    () => getSessionTrend(events, sessions).slice(-20),
+    [events, sessions]
+  );
+  const mostMissed = useMemo(() => getMostMissed(events), [events]);
+  const unseen = useMemo(
+    () => getUnseenQuestions(events, questions),
+    [events, questions]
+  );
+  const overall = {
+    correct: events.filter((e) => e.correct).length,
+    total: events.length,
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-2xl max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">Statistics</Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Done
+            </Dialog.Close>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mb-6">
+            <div className="p-3 rounded-[14px] bg-[var(--ios-background)]">
+              <p className="text-[13px] text-[var(--ios-text-secondary)]">
+                Answers
+              </p>
+              <p className="text-[22px]">{overall.total}</p>
+            </div>
+            <div className="p-3 rounded-[14px] bg-[var(--ios-background)]">
+              <p className="text-[13px] text-[var(--ios-text-secondary)]">
+                Accuracy
+              </p>
+              <p className="text-[22px] text-[var(--ios-blue)]">
+                {accuracy(overall).toFixed(1)}%
+              </p>
+            </div>
+            <div className="p-3 rounded-[14px] bg-[var(--ios-background)]">
+              <p className="text-[13px] text-[var(--ios-text-secondary)]">
+                Never Seen
+              </p>
+              <p className="text-[22px]">{unseen.length}</p>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <section>
+              <h3 className="text-[17px] mb-3">Accuracy Over Time</h3>
+              <AccuracyBars points={byDay} />
+            </section>
+
+            <section>
+              <h3 className="text-[17px] mb-3">Session Trend</h3>
+              <AccuracyBars points={trend} />
+            </section>
+
+            <section>
+              <h3 className="text-[17px] mb-3">Most Missed Questions</h3>
+              {mostMissed.length ? (
+                <ol className="space-y-2">
+                  {mostMissed.map(({ questionId, misses, attempts }) => (
+                    <li
+                      key={questionId}
+                      className="p-3 rounded-[14px] bg-[var(--ios-background)] flex justify-between gap-3 text-[15px]"
+                    >
+                      <span>
+                        {questionsById.get(questionId)?.question ??
+                          "Question no longer in the bank"}
+                      </span>
+                      <span className="shrink-0 text-[var(--ios-red)]">
+                        {misses}/{attempts} missed
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-[15px] text-[var(--ios-text-secondary)]">
+                  No mistakes recorded yet
+                </p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-[17px] mb-3">
+                Never Seen ({unseen.length})
+              </h3>
+              <ul className="space-y-2 max-h-[200px] overflow-y-auto">
+                {unseen.map((question) => (
+                  <li
+                    key={question.id}
+                    className="p-3 rounded-[14px] bg-[var(--ios-background)] text-[15px]"
+                  >
+                    {question.question}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,297 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { Check, Copy } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { useEffect, useRef, useState } from "react";
+import {
+  PeerConnection,
+  STUN_SERVER,
+  acceptAnswer,
+  acceptOffer,
+  createOffer,
+  fromDataChannel,
+} from "../utils/p2p";
+import { SyncState, SyncSummary, runSync } from "../utils/sync";
+
+interface SyncDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  local: SyncState;
+  onSynced: (state: SyncState) => Promise<void>;
+}
+
+type Step =
+  | { name: "start" }
+  | { name: "offer"; code: string }
+  | { name: "join" }
+  | { name: "answer"; code: string }
+  | { name: "syncing" }
+  | { name: "done"; summary: SyncSummary }
+  | { name: "error"; message: string };
+
+// The most a QR code holds in byte mode at the lowest error correction
+const QR_MAX_LENGTH = 2953;
+
+function CodeBox({ code }: { code: string }) {
+  const [copy, setCopy] = useState<"idle" | "copied" | "selected">("idle");
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopy("copied");
+    } catch {
+      // Without clipboard access the code is selected for copying by hand
+      textarea.current?.focus();
+      textarea.current?.select();
+      setCopy("selected");
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      {code.length <= QR_MAX_LENGTH && (
+        <QRCodeSVG
+          value={code}
+          level="L"
+          size={192}
+          marginSize={2}
+          bgColor="#ffffff"
+          fgColor="#000000"
+          title="The code as a QR code, to scan with the other device's camera"
+          className="mx-auto mb-3 rounded-[10px]"
+        />
+      )}
+      <textarea
+        ref={textarea}
+        readOnly
+        value={code}
+        onFocus={(e) => e.target.select()}
+        className="w-full h-24 px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[13px] font-mono break-all resize-none"
+      />
+      <button
+        onClick={handleCopy}
+        className="flex items-center gap-1 text-[var(--ios-blue)] text-[15px]"
+      >
+        {copy === "copied" ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        {copy === "copied"
+          ? "Copied"
+          : copy === "selected"
+            ? "Code selected, copy it from the field"
+            : "Copy code"}
+      </button>
+    </div>
+  );
+}
+
+export function SyncDialog({ isOpen, onOpenChange, local, onSynced }: SyncDialogProps) {
+  const [step, setStep] = useState<Step>({ name: "start" });
+  const [pasted, setPasted] = useState("");
+  const [useStun, setUseStun] = useState(() => localStorage.getItem("sync-stun") === "true");
+  const connection = useRef<PeerConnection | null>(null);
+  // Read when the channel opens, so the latest progress is sent
+  const latest = useRef({ local, onSynced });
+  latest.current = { local, onSynced };
+
+  useEffect(() => {
+    if (!isOpen) {
+      connection.current?.peer.close();
+      connection.current = null;
+      setStep({ name: "start" });
+      setPasted("");
+    }
+  }, [isOpen]);
+
+  const fail = (error: unknown) => {
+    connection.current?.peer.close();
+    connection.current = null;
+    setStep({ name: "error", message: (error as Error).message });
+  };
+
+  // Both devices run the same exchange once the data channel is open
+  const syncOver = async (peer: PeerConnection) => {
+    connection.current = peer;
+    try {
+      const channel = await peer.channel;
+      setStep({ name: "syncing" });
+      const summary = await runSync(fromDataChannel(channel), {
+        load: async () => latest.current.local,
+        save: (state) => latest.current.onSynced(state),
+      });
+      peer.peer.close();
+      connection.current = null;
+      setStep({ name: "done", summary });
+    } catch (error) {
+      // Closing the dialog drops the connection, which is no error to show
+      if (connection.current === peer) fail(error);
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      const { offer, ...peer } = await createOffer(useStun);
+      connection.current = peer;
+      setStep({ name: "offer", code: offer });
+      syncOver(peer);
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const handleAnswer = async () => {
+    if (!connection.current) return;
+    try {
+      await acceptAnswer(connection.current.peer, pasted);
+      setPasted("");
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const handleJoin = async () => {
+    try {
+      const { answer, ...peer } = await acceptOffer(pasted, useStun);
+      setPasted("");
+      setStep({ name: "answer", code: answer });
+      syncOver(peer);
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const pasteField = (placeholder: string) => (
+    <textarea
+      value={pasted}
+      onChange={(e) => setPasted(e.target.value)}
+      placeholder={placeholder}
+      className="w-full h-24 mb-3 px-3 py-2 rounded-[10px] bg-[var(--ios-background)] border border-[var(--ios-border)] text-[13px] font-mono resize-none"
+    />
+  );
+
+  const primaryClass =
+    "w-full py-3 rounded-[14px] bg-[var(--ios-blue)] text-white text-[17px] disabled:opacity-50";
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[90%] max-w-md max-h-[85vh] overflow-y-auto p-6 rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)]">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-[22px]">Sync Devices</Dialog.Title>
+            <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">
+              Done
+            </Dialog.Close>
+          </div>
+
+          {step.name === "start" && (
+            <>
+              <p className="text-[15px] text-[var(--ios-text-secondary)] mb-4">
+                Sessions, answers, review cards, edits and reports are merged
+                directly between two open copies of the app. Nothing is stored
+                on a server. Start pairing on one device and join on the other.
+              </p>
+              <label className="flex items-start justify-between gap-3 mb-4">
+                <span className="text-[15px] text-[var(--ios-text-secondary)]">
+                  Pair across networks. Asks a public STUN server ({STUN_SERVER.replace("stun:", "")})
+                  for this device's address; without it both devices must be on the same network.
+                </span>
+                <input
+                  type="checkbox"
+                  checked={useStun}
+                  onChange={(e) => {
+                    setUseStun(e.target.checked);
+                    localStorage.setItem("sync-stun", String(e.target.checked));
+                  }}
+                  className="w-5 h-5 shrink-0 accent-[var(--ios-blue)]"
+                />
+              </label>
+              <button onClick={handleStart} className={`${primaryClass} mb-2`}>
+                Start Pairing
+              </button>
+              <button
+                onClick={() => setStep({ name: "join" })}
+                className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Join
+              </button>
+            </>
+          )}
+
+          {step.name === "offer" && (
+            <>
+              <p className="text-[15px] mb-2">
+                1. Scan or send this code on the other device and choose Join there.
+              </p>
+              <CodeBox code={step.code} />
+              <p className="text-[15px] mb-2">2. Paste the code it shows back here.</p>
+              {pasteField("Code from the other device")}
+              <button
+                onClick={handleAnswer}
+                disabled={!pasted.trim()}
+                className={primaryClass}
+              >
+                Connect
+              </button>
+            </>
+          )}
+
+          {step.name === "join" && (
+            <>
+              <p className="text-[15px] mb-2">
+                Paste the code shown on the device that started pairing.
+              </p>
+              {pasteField("Pairing code")}
+              <button
+                onClick={handleJoin}
+                disabled={!pasted.trim()}
+                className={primaryClass}
+              >
+                Continue
+              </button>
+            </>
+          )}
+
+          {step.name === "answer" && (
+            <>
+              <p className="text-[15px] mb-2">
+                Scan or send this code on the first device. Syncing starts as
+                soon as it connects.
+              </p>
+              <CodeBox code={step.code} />
+              <p className="text-[13px] text-[var(--ios-text-secondary)]">
+                Waiting for the other device…
+              </p>
+            </>
+          )}
+
+          {step.name === "syncing" && (
+            <p className="text-[15px] text-[var(--ios-text-secondary)]">
+              Connected, merging progress…
+            </p>
+          )}
+
+          {step.name === "done" && (
+            <div className="p-3 rounded-[14px] bg-[var(--ios-green-light)] text-[15px] text-[var(--ios-green)]">
+              Synced: {step.summary.newSessions} new, {step.summary.updatedSessions}{" "}
+              updated and {step.summary.removedSessions} removed sessions,{" "}
+              {step.summary.newAnswers} new answers.
+            </div>
+          )}
+
+          {step.name === "error" && (
+            <>
+              <p className="mb-3 p-3 rounded-[14px] bg-[var(--ios-red-light)] text-[15px] text-[var(--ios-red)]">
+                {step.message}
+              </p>
+              <button
+                onClick={() => setStep({ name: "start" })}
+                className="w-full py-3 rounded-[14px] bg-[var(--ios-blue-light)] text-[var(--ios-blue)] text-[17px]"
+              >
+                Try Again
+              </button>
+            </>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
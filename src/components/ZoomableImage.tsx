@@ -0,0 +1,96 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { useState } from "react";
+import { resolveImageUrl } from "../utils/questionBank";
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3];
+
+interface ZoomableImageProps {
+  image: string;
+  alt: string;
+  className?: string;
+}
+
+// A question's image; clicking it opens a full screen view that can be zoomed and panned
+export function ZoomableImage({ image, alt, className = "" }: ZoomableImageProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [zoom, setZoom] = useState(0);
+  const [failed, setFailed] = useState(false);
+  const src = resolveImageUrl(image);
+
+  if (failed) {
+    return (
+      <p className={`text-[13px] text-[var(--ios-text-secondary)] ${className}`}>
+        Image not available offline: {image}
+      </p>
+    );
+  }
+
+  return (
+    <Dialog.Root
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        setZoom(0);
+      }}
+    >
+      <Dialog.Trigger asChild>
+        <button
+          className={`block rounded-[14px] overflow-hidden border border-[var(--ios-border)] cursor-zoom-in ${className}`}
+          title="Enlarge image"
+        >
+          <img
+            src={src}
+            alt={alt}
+            loading="lazy"
+            onError={() => setFailed(true)}
+            className="max-h-[280px] w-auto mx-auto bg-white"
+          />
+        </button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/80" />
+        <Dialog.Content className="fixed inset-4 flex flex-col rounded-[18px] bg-[var(--ios-card-background)] border border-[var(--ios-border)] shadow-lg text-[var(--ios-text)] overflow-hidden">
+          <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-[var(--ios-border)]">
+            <Dialog.Title className="text-[15px] truncate">{alt}</Dialog.Title>
+            <div className="flex items-center gap-4 shrink-0">
+              <button
+                onClick={() => setZoom((z) => Math.max(0, z - 1))}
+                disabled={zoom === 0}
+                className="text-[var(--ios-blue)] disabled:opacity-40"
+                title="Zoom out"
+              >
+                <ZoomOut className="w-5 h-5" />
+              </button>
+              <span className="w-10 text-center text-[13px] tabular-nums">
+                {ZOOM_LEVELS[zoom] * 100}%
+              </span>
+              <button
+                onClick={() => setZoom((z) => Math.min(ZOOM_LEVELS.length - 1, z + 1))}
+                disabled={zoom === ZOOM_LEVELS.length - 1}
+                className="text-[var(--ios-blue)] disabled:opacity-40"
+                title="Zoom in"
+              >
+                <ZoomIn className="w-5 h-5" />
+              </button>
+              <Dialog.Close className="text-[var(--ios-blue)] text-[17px]">Done</Dialog.Close>
+            </div>
+          </div>
+          <div className="flex-1 overflow-auto bg-white">
+            <img
+              src={src}
+              alt={alt}
+              onClick={() => setZoom((z) => (z + 1) % ZOOM_LEVELS.length)}
+              // At 100% the whole image fits the screen
+              style={zoom ? { width: `${ZOOM_LEVELS[zoom] * 100}%` } : undefined}
+              className={`mx-auto ${zoom ? "max-w-none" : "max-w-full max-h-full"} ${
+                zoom === ZOOM_LEVELS.length - 1 ? "cursor-zoom-out" : "cursor-zoom-in"
+              }`}
+            />
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
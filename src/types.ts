@@ -1,11 +1,134 @@
+export type QuestionKind = 'single' | 'multiple' | 'text' | 'task';
+
+// How a free text answer is compared: "number" accepts any value within the
+// question's tolerance, "list" ignores the separators ("P1, P2" is "P1 P2")
+export type AnswerFormat = 'number' | 'list';
+
 export interface Question {
+  id: string;
+  kind?: QuestionKind; // inferred from answers/correct when omitted
   question: string;
   answers: string[];
-  correct: string;
+  // Answer text; for multiple selection a set of letters ("ac") or answer texts;
+  // for tasks a command whose output the user's command must reproduce
+  correct: string | string[];
+  acceptedAnswers?: string[]; // alternative answers for text questions
+  answerFormat?: AnswerFormat; // text questions only; plain text when omitted
+  tolerance?: number; // for "number" answers, e.g. 0.05
+  topics?: string[];
+  explanation?: string; // Markdown, shown once the question is answered
+  source?: string; // where the answer can be checked: course chapter, man page or URL
+  markdown?: boolean; // question and answers are Markdown rather than plain text
+  image?: string; // file under public/ (e.g. "images/page-table.png") or a URL
+  solution?: Solution; // worked solution of a generated problem
+  task?: ShellTask; // sandbox of a task question
+}
+
+// The shell a task question runs in. Without files it gets the default
+// practice files (see src/utils/virtualFs.ts)
+export interface ShellTask {
+  // Paths relative to the home directory, or absolute; "dir/" is a directory
+  files?: Record<string, string | SandboxFile>;
+  cwd?: string;
+  // Run after the command and compared too, for commands that print nothing
+  // themselves (chmod, ln, …), e.g. "ls -li"
+  check?: string;
+}
+
+export interface SandboxFile {
+  content?: string;
+  mode?: string; // octal permissions, e.g. "755"
+  link?: string; // hard link to another path
+  symlink?: string; // symbolic link target
+}
+
+// A generated question before it gets its id and topic
+export type GeneratedProblem = Omit<Question, 'id' | 'topics'>;
+
+// Worked solution, shown once the question is answered
+export interface Solution {
+  gantt?: GanttSlice[];
+  tables: SolutionTable[];
+}
+
+// A stretch of CPU time in a Gantt chart; no process means the CPU was idle
+export interface GanttSlice {
+  process: string | null;
+  start: number;
+  end: number;
 }
 
+export interface SolutionTable {
+  caption?: string;
+  columns: string[];
+  rows: string[][];
+  highlightedRows?: number[]; // e.g. the references that caused a page fault
+  note?: string; // explains the notation used in the cells
+}
+
+// A single answer, several selected answers, or free text
+export type AnswerValue = string | string[];
+
+export type MultiScoring = 'all-or-nothing' | 'partial';
+
 export type Language = 'ro' | 'en';
 
+export type Theme = 'light' | 'dark' | 'high-contrast';
+
+// Where a shortcut works; global ones work on every screen
+export type KeyScope = 'global' | 'quiz' | 'review' | 'palette' | 'dialog';
+
+export type KeyAction =
+  | 'openSearch'
+  | 'showShortcuts'
+  | 'nextAnswer'
+  | 'previousAnswer'
+  | 'toggleAnswer'
+  | 'submit'
+  | 'selectAnswer'
+  | 'answerTrue'
+  | 'answerFalse'
+  | 'toggleTranslation'
+  | 'nextMistake'
+  | 'previousMistake'
+  | 'retryMistakes'
+  | 'leaveReview'
+  | 'nextResult'
+  | 'previousResult'
+  | 'openResult'
+  | 'editResult'
+  | 'closeDialog';
+
+// Keys the user picked, by action; actions left out keep their default keys
+export type KeyBindings = Partial<Record<KeyAction, string[]>>;
+
+// Adaptive sessions pick each question as they go, from the answers so far
+export type SessionMode = 'practice' | 'test' | 'review' | 'exam' | 'adaptive';
+
+export interface ExamSettings {
+  questionCount: number;
+  timeLimitMinutes: number;
+  passMark: number; // percent
+  negativeMarking: boolean; // penalize wrong guesses on single choice questions
+}
+
+// Exam answers are only graded when the exam is submitted
+export interface ExamState extends Omit<ExamSettings, 'questionCount'> {
+  startedAt: number;
+  deadline: number;
+  responses: Record<number, AnswerValue>; // keyed by position within questionIds
+  flagged: number[];
+  submittedAt: number | null;
+}
+
+// An answer given within a session, kept so the session can be reviewed later
+export interface SessionAnswer {
+  position: number; // within questionIds
+  questionId: string;
+  answer: AnswerValue;
+  correct: boolean;
+}
+
 export interface Session {
   id: string;
   timestamp: number;
@@ -13,7 +136,86 @@ export interface Session {
   currentQuestionIndex: number;
   score: number;
   isTest: boolean;
-  questionIds: number[]; 
-  answeredQuestions: number[];
+  mode?: SessionMode;
+  topics?: string[];
+  // Bank the session was started from; missing for the built-in bank
+  bankId?: string;
+  exam?: ExamState;
+  answers?: SessionAnswer[];
+  questionIds: string[];
+  answeredQuestions: number[]; // positions within questionIds
   completed: boolean;
+  // Last change, used to resolve conflicts when syncing devices
+  updatedAt?: number;
+  // Seed the question order and generated problems were drawn from
+  seed?: number;
+  // Positions answered while reported as broken, left out of the score and its total
+  excludedQuestions?: number[];
+}
+
+// Spaced-repetition memory state for a single question (SM-2)
+export interface ReviewCard {
+  questionId: string;
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  due: number;
+  lastReviewed: number | null;
+}
+
+// One submitted answer, kept as an append-only log
+export interface AnswerEvent {
+  id: string;
+  questionId: string;
+  answer: AnswerValue;
+  correct: boolean;
+  timeTaken: number; // milliseconds
+  sessionId: string | null;
+  language: Language;
+  timestamp: number;
+}
+
+// Local edits to a question, applied on top of the fetched banks
+export interface QuestionOverride {
+  id: string;
+  ro?: Question;
+  en?: Question;
+  updatedAt: number;
+}
+
+export type FlagReason = 'wrong-key' | 'bad-translation' | 'ambiguous';
+
+// A user report that a question in the bank needs fixing
+export interface QuestionFlag {
+  questionId: string;
+  reason: FlagReason;
+  note: string;
+  createdAt: number;
+}
+
+// The user's own notes on a question, shared by both languages
+export interface QuestionNote {
+  questionId: string;
+  text: string; // Markdown
+  updatedAt: number;
+}
+
+// A removed session, edit, report or note. Syncing passes it on, so the other
+// device drops its copy instead of sending it back
+export interface Deletion {
+  kind: 'session' | 'override' | 'flag' | 'note';
+  key: string; // id of the session or edit, or the question id
+  deletedAt: number;
+}
+
+export type BankFormat = 'json' | 'csv' | 'aiken' | 'gift';
+
+// A question bank imported from a local file
+export interface CustomBank {
+  id: string;
+  name: string;
+  format: BankFormat;
+  questions: Question[];
+  importedAt: number;
 }
@@ -0,0 +1,1223 @@
+import { toJsRegex } from "./posixRegex";
+import { createRandom } from "./random";
+
+// Interpreter for the part of awk the course uses: patterns (regular
+// expressions, expressions, ranges, BEGIN and END), fields, the built-in
+// variables, associative arrays, if/while/for, print and printf, and the
+// string functions (length, substr, index, split, sub, gsub, match, …).
+// User-defined functions, getline and output redirection are not supported
+
+export class AwkError extends Error {}
+
+// Text from the input (fields, split() elements), which compares as a number
+// when it looks like one
+class InputString {
+  constructor(readonly text: string) {}
+}
+
+type Value = number | string | InputString | undefined;
+
+type TokenType = "number" | "string" | "regex" | "name" | "builtin" | "keyword" | "op" | "newline" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+const KEYWORDS = [
+  "BEGIN", "END", "if", "else", "while", "for", "do", "in", "break", "continue",
+  "next", "exit", "delete", "print", "printf", "function", "return", "getline",
+];
+
+const BUILTINS = [
+  "length", "substr", "index", "split", "sub", "gsub", "match", "sprintf",
+  "tolower", "toupper", "int", "sqrt", "exp", "log", "sin", "cos", "atan2", "rand", "srand",
+];
+
+// Longest first, so "+=" wins over "+"
+const OPERATORS = [
+  "+=", "-=", "*=", "/=", "%=", "^=", "==", "<=", ">=", "!=", "++", "--", "&&", "||", "!~", ">>",
+  "{", "}", "(", ")", "[", "]", ";", ",", "+", "-", "*", "/", "%", "^", "!", ">", "<", "|", "?", ":", "~", "$", "=",
+];
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", '"': '"', "/": "/", a: "\x07", b: "\b", f: "\f", v: "\v" };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  // A "/" after an operand divides; anywhere else it starts a regex
+  const afterOperand = () => {
+    const last = tokens[tokens.length - 1];
+    return (
+      !!last &&
+      (["number", "string", "name", "builtin"].includes(last.type) ||
+        (last.type === "op" && [")", "]", "++", "--", "$"].includes(last.value)))
+    );
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "\\" && source[i + 1] === "\n") {
+      i += 2;
+    } else if (char === " " || char === "\t" || char === "\r") {
+      i++;
+    } else if (char === "\n") {
+      tokens.push({ type: "newline", value: "\n" });
+      i++;
+    } else if (char === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (/[0-9.]/.test(char) && /^(\d+\.?\d*|\.\d+)/.test(source.slice(i))) {
+      const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(i))![0];
+      tokens.push({ type: "number", value: number });
+      i += number.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_]\w*/.exec(source.slice(i))![0];
+      const type = KEYWORDS.includes(name) ? "keyword" : BUILTINS.includes(name) ? "builtin" : "name";
+      tokens.push({ type, value: name });
+      i += name.length;
+    } else if (char === '"') {
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === "\n") throw new AwkError("newline in string");
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const next = source[i + 1];
+          value += ESCAPES[next] ?? `\\${next}`;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new AwkError("non-terminated string");
+      tokens.push({ type: "string", value });
+      i++;
+    } else if (char === "/" && !afterOperand()) {
+      let value = "";
+      i++;
+      let inBracket = false;
+      while (i < source.length && (source[i] !== "/" || inBracket)) {
+        if (source[i] === "\n") throw new AwkError("newline in regex");
+        if (source[i] === "\\" && source[i + 1] === "/") {
+          value += "/";
+          i += 2;
+          continue;
+        }
+        if (source[i] === "[") inBracket = true;
+        else if (source[i] === "]") inBracket = false;
+        if (source[i] === "\\" && i + 1 < source.length) value += source[i++];
+        value += source[i++];
+      }
+      if (i >= source.length) throw new AwkError("non-terminated regular expression");
+      tokens.push({ type: "regex", value });
+      i++;
+    } else {
+      const operator = OPERATORS.find((op) => source.startsWith(op, i));
+      if (!operator) throw new AwkError(`unexpected character '${char}'`);
+      tokens.push({ type: "op", value: operator });
+      i += operator.length;
+    }
+  }
+  tokens.push({ type: "eof", value: "" });
+  return tokens;
+};
+
+type Expr =
+  | { t: "num"; value: number }
+  | { t: "str"; value: string }
+  | { t: "regex"; source: string }
+  | { t: "var"; name: string }
+  | { t: "index"; name: string; subscripts: Expr[] }
+  | { t: "field"; index: Expr }
+  | { t: "assign"; op: string; target: LValue; value: Expr }
+  | { t: "cond"; test: Expr; then: Expr; else: Expr }
+  | { t: "binary"; op: string; left: Expr; right: Expr }
+  | { t: "in"; subscripts: Expr[]; name: string }
+  | { t: "unary"; op: string; operand: Expr }
+  | { t: "incdec"; op: string; prefix: boolean; target: LValue }
+  | { t: "call"; name: string; args: Expr[] }
+  | { t: "group"; items: Expr[] };
+
+type LValue = Extract<Expr, { t: "var" | "index" | "field" }>;
+
+type Stmt =
+  | { t: "print"; args: Expr[] }
+  | { t: "printf"; args: Expr[] }
+  | { t: "expr"; expr: Expr }
+  | { t: "if"; test: Expr; then: Stmt; else?: Stmt }
+  | { t: "while"; test: Expr; body: Stmt }
+  | { t: "do"; body: Stmt; test: Expr }
+  | { t: "for"; init?: Expr; test?: Expr; step?: Expr; body: Stmt }
+  | { t: "forin"; name: string; array: string; body: Stmt }
+  | { t: "block"; body: Stmt[] }
+  | { t: "next" }
+  | { t: "exit"; status?: Expr }
+  | { t: "break" }
+  | { t: "continue" }
+  | { t: "delete"; name: string; subscripts?: Expr[] };
+
+interface Item {
+  kind: "begin" | "end" | "main";
+  pattern?: Expr;
+  rangeEnd?: Expr; // "pattern1, pattern2" ranges
+  action?: Stmt[];
+  inRange?: boolean;
+}
+
+const ASSIGNMENT_OPS = ["=", "+=", "-=", "*=", "/=", "%=", "^="];
+const COMPARISON_OPS = ["<", "<=", "==", "!=", ">", ">="];
+
+const isLValue = (expr: Expr): expr is LValue =>
+  expr.t === "var" || expr.t === "index" || expr.t === "field";
+
+const parse = (source: string): Item[] => {
+  const tokens = tokenize(source);
+  let pos = 0;
+  // Inside print's argument list a ">" would be output redirection
+  let noGreater = false;
+  // A "for (k in a)" header must not read "k in a" as an expression
+  let noIn = false;
+
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+  const next = () => tokens[pos++];
+  const is = (value: string, token = peek()) =>
+    (token.type === "op" || token.type === "keyword") && token.value === value;
+  const fail = (): never => {
+    const token = peek();
+    throw new AwkError(
+      token.type === "eof" ? "unexpected end of program" : `syntax error at or near ${token.value === "\n" ? "end of line" : token.value}`
+    );
+  };
+  const expect = (value: string) => {
+    if (!is(value)) fail();
+    return next();
+  };
+  const skipNewlines = () => {
+    while (peek().type === "newline") next();
+  };
+  const skipTerminators = () => {
+    while (peek().type === "newline" || is(";")) next();
+  };
+
+  const startsOperand = (token: Token) =>
+    ["number", "string", "name", "builtin"].includes(token.type) ||
+    (token.type === "op" && ["$", "(", "!", "-", "+", "++", "--"].includes(token.value)) ||
+    token.type === "regex";
+
+  // Operands that may follow another one to form a concatenation; no unary
+  // minus (that is a subtraction) and no regex (that would be a division)
+  const startsConcatenation = (token: Token) =>
+    ["number", "string", "name", "builtin"].includes(token.type) ||
+    (token.type === "op" && ["$", "(", "!", "++", "--"].includes(token.value));
+
+  const expressionList = (): Expr[] => {
+    const items = [expression()];
+    while (is(",")) {
+      next();
+      skipNewlines();
+      items.push(expression());
+    }
+    return items;
+  };
+
+  const expression = (): Expr => {
+    const left = ternary();
+    const token = peek();
+    if (token.type === "op" && ASSIGNMENT_OPS.includes(token.value)) {
+      if (!isLValue(left)) fail();
+      next();
+      skipNewlines();
+      return { t: "assign", op: token.value, target: left as LValue, value: expression() };
+    }
+    return left;
+  };
+
+  const ternary = (): Expr => {
+    const test = or();
+    if (!is("?")) return test;
+    next();
+    skipNewlines();
+    const then = ternary();
+    skipNewlines();
+    expect(":");
+    skipNewlines();
+    return { t: "cond", test, then, else: ternary() };
+  };
+
+  const binaryLevel = (ops: string[], operand: () => Expr) => (): Expr => {
+    let left = operand();
+    while (ops.some((op) => is(op))) {
+      const op = next().value;
+      skipNewlines();
+      left = { t: "binary", op, left, right: operand() };
+    }
+    return left;
+  };
+
+  const membership = (): Expr => {
+    let left = match();
+    while (is("in") && !noIn) {
+      next();
+      const name = next();
+      if (name.type !== "name") fail();
+      left = { t: "in", subscripts: left.t === "group" ? left.items : [left], name: name.value };
+    }
+    return left;
+  };
+
+  const match = (): Expr => {
+    let left = comparison();
+    while (is("~") || is("!~")) {
+      const op = next().value;
+      left = { t: "binary", op, left, right: comparison() };
+    }
+    return left;
+  };
+
+  const comparison = (): Expr => {
+    const left = concatenation();
+    const token = peek();
+    if (token.type === "op" && COMPARISON_OPS.includes(token.value) && !(token.value === ">" && noGreater)) {
+      next();
+      return { t: "binary", op: token.value, left, right: concatenation() };
+    }
+    return left;
+  };
+
+  const concatenation = (): Expr => {
+    let left = additive();
+    while (startsConcatenation(peek())) {
+      left = { t: "binary", op: "concat", left, right: additive() };
+    }
+    return left;
+  };
+
+  const multiplicative = (): Expr => {
+    let left = unary();
+    while (is("*") || is("/") || is("%")) {
+      const op = next().value;
+      left = { t: "binary", op, left, right: unary() };
+    }
+    return left;
+  };
+
+  const additive = binaryLevel(["+", "-"], multiplicative);
+  const and = binaryLevel(["&&"], membership);
+  const or = binaryLevel(["||"], and);
+
+  const unary = (): Expr => {
+    if (is("!") || is("-") || is("+")) {
+      const op = next().value;
+      return { t: "unary", op, operand: unary() };
+    }
+    return power();
+  };
+
+  const power = (): Expr => {
+    const base = postfix();
+    if (is("^")) {
+      next();
+      return { t: "binary", op: "^", left: base, right: unary() };
+    }
+    return base;
+  };
+
+  const postfix = (): Expr => {
+    const operand = primary();
+    if ((is("++") || is("--")) && isLValue(operand)) {
+      return { t: "incdec", op: next().value, prefix: false, target: operand };
+    }
+    return operand;
+  };
+
+  const primary = (): Expr => {
+    const token = next();
+    switch (token.type) {
+      case "number":
+        return { t: "num", value: Number(token.value) };
+      case "string":
+        return { t: "str", value: token.value };
+      case "regex":
+        return { t: "regex", source: token.value };
+      case "name": {
+        if (is("(")) throw new AwkError("user-defined functions are not supported");
+        if (is("[")) {
+          next();
+          const subscripts = expressionList();
+          expect("]");
+          return { t: "index", name: token.value, subscripts };
+        }
+        return { t: "var", name: token.value };
+      }
+      case "builtin": {
+        let args: Expr[] = [];
+        if (is("(")) {
+          next();
+          skipNewlines();
+          if (!is(")")) args = withFlags(expressionList);
+          skipNewlines();
+          expect(")");
+        } else if (token.value !== "length") {
+          fail();
+        }
+        return { t: "call", name: token.value, args };
+      }
+      case "op":
+        if (token.value === "$") {
+          return { t: "field", index: fieldIndex() };
+        }
+        if (token.value === "(") {
+          const items = withFlags(expressionList);
+          expect(")");
+          return items.length === 1 ? items[0] : { t: "group", items };
+        }
+        if (token.value === "++" || token.value === "--") {
+          const target = primary();
+          if (!isLValue(target)) fail();
+          return { t: "incdec", op: token.value, prefix: true, target: target as LValue };
+        }
+        if (token.value === "-" || token.value === "+" || token.value === "!") {
+          return { t: "unary", op: token.value, operand: unary() };
+        }
+        break;
+      case "keyword":
+        if (token.value === "getline") throw new AwkError("getline is not supported");
+        break;
+    }
+    pos--;
+    return fail();
+  };
+
+  // "$NF", "$(i + 1)", "$i++" is ($i)++
+  const fieldIndex = (): Expr => {
+    if (is("++") || is("--") || is("-")) {
+      const op = next().value;
+      const operand = fieldIndex();
+      return op === "-" ? { t: "unary", op, operand } : { t: "incdec", op, prefix: true, target: operand as LValue };
+    }
+    return primary();
+  };
+
+  // Parentheses and brackets lift print's and for's restrictions
+  const withFlags = <T>(parse: () => T): T => {
+    const saved = [noGreater, noIn];
+    noGreater = false;
+    noIn = false;
+    try {
+      return parse();
+    } finally {
+      [noGreater, noIn] = saved;
+    }
+  };
+
+  const simpleStatement = (): Stmt => {
+    const token = peek();
+    if (is("print") || is("printf")) {
+      next();
+      let args: Expr[] = [];
+      if (startsOperand(peek())) {
+        noGreater = true;
+        try {
+          args = expressionList();
+        } finally {
+          noGreater = false;
+        }
+        // print (a, b)
+        if (args.length === 1 && args[0].t === "group") args = args[0].items;
+      }
+      if (is(">") || is(">>") || is("|")) throw new AwkError("output redirection is not supported");
+      if (token.value === "printf" && !args.length) fail();
+      return { t: token.value as "print" | "printf", args };
+    }
+    if (is("next")) {
+      next();
+      return { t: "next" };
+    }
+    if (is("exit")) {
+      next();
+      return { t: "exit", status: startsOperand(peek()) ? expression() : undefined };
+    }
+    if (is("break") || is("continue")) {
+      return { t: next().value as "break" | "continue" };
+    }
+    if (is("delete")) {
+      next();
+      const name = next();
+      if (name.type !== "name") fail();
+      if (is("[")) {
+        next();
+        const subscripts = expressionList();
+        expect("]");
+        return { t: "delete", name: name.value, subscripts };
+      }
+      return { t: "delete", name: name.value };
+    }
+    if (is("return") || is("function")) throw new AwkError("user-defined functions are not supported");
+    return { t: "expr", expr: expression() };
+  };
+
+  const endStatement = () => {
+    if (is(";") || peek().type === "newline") {
+      next();
+      skipTerminators();
+    } else if (!is("}") && peek().type !== "eof") {
+      fail();
+    }
+  };
+
+  const statement = (): Stmt => {
+    skipTerminators();
+    if (is("{")) {
+      next();
+      const body = statements();
+      expect("}");
+      skipTerminators();
+      return { t: "block", body };
+    }
+    if (is("if")) {
+      next();
+      expect("(");
+      const test = withFlags(expression);
+      expect(")");
+      skipNewlines();
+      const then = is(";") ? (next(), { t: "block" as const, body: [] }) : statement();
+      skipTerminators();
+      if (is("else")) {
+        next();
+        skipNewlines();
+        return { t: "if", test, then, else: statement() };
+      }
+      return { t: "if", test, then };
+    }
+    if (is("while")) {
+      next();
+      expect("(");
+      const test = withFlags(expression);
+      expect(")");
+      if (is(";")) {
+        next();
+        return { t: "while", test, body: { t: "block", body: [] } };
+      }
+      skipNewlines();
+      return { t: "while", test, body: statement() };
+    }
+    if (is("do")) {
+      next();
+      skipNewlines();
+      const body = statement();
+      skipTerminators();
+      expect("while");
+      expect("(");
+      const test = withFlags(expression);
+      expect(")");
+      endStatement();
+      return { t: "do", body, test };
+    }
+    if (is("for")) {
+      next();
+      expect("(");
+      if (peek().type === "name" && is("in", peek(1)) && peek(2).type === "name" && is(")", peek(3))) {
+        const name = next().value;
+        next();
+        const array = next().value;
+        next();
+        skipNewlines();
+        return { t: "forin", name, array, body: statement() };
+      }
+      const init = is(";") ? undefined : withFlags(expression);
+      expect(";");
+      skipNewlines();
+      const test = is(";") ? undefined : withFlags(expression);
+      expect(";");
+      skipNewlines();
+      const step = is(")") ? undefined : withFlags(expression);
+      expect(")");
+      if (is(";")) {
+        next();
+        return { t: "for", init, test, step, body: { t: "block", body: [] } };
+      }
+      skipNewlines();
+      return { t: "for", init, test, step, body: statement() };
+    }
+    const simple = simpleStatement();
+    endStatement();
+    return simple;
+  };
+
+  const statements = (): Stmt[] => {
+    const body: Stmt[] = [];
+    skipTerminators();
+    while (!is("}") && peek().type !== "eof") {
+      body.push(statement());
+      skipTerminators();
+    }
+    return body;
+  };
+
+  const action = (): Stmt[] => {
+    expect("{");
+    const body = statements();
+    expect("}");
+    return body;
+  };
+
+  const items: Item[] = [];
+  skipTerminators();
+  while (peek().type !== "eof") {
+    if (is("BEGIN") || is("END")) {
+      const kind = next().value === "BEGIN" ? "begin" : "end";
+      skipNewlines();
+      items.push({ kind, action: action() });
+    } else if (is("function")) {
+      throw new AwkError("user-defined functions are not supported");
+    } else if (is("{")) {
+      items.push({ kind: "main", action: action() });
+    } else {
+      const pattern = expression();
+      let rangeEnd: Expr | undefined;
+      if (is(",")) {
+        next();
+        skipNewlines();
+        rangeEnd = expression();
+      }
+      items.push({ kind: "main", pattern, rangeEnd, action: is("{") ? action() : undefined });
+    }
+    skipTerminators();
+  }
+  return items;
+};
+
+const NUMERIC = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+const NUMERIC_PREFIX = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+
+const isNumericLike = (value: Value) =>
+  typeof value === "number" ||
+  value === undefined ||
+  (value instanceof InputString && NUMERIC.test(value.text));
+
+const toNumber = (value: Value): number => {
+  if (typeof value === "number") return value;
+  const text = value instanceof InputString ? value.text : (value ?? "");
+  const prefix = NUMERIC_PREFIX.exec(text);
+  return prefix ? Number(prefix[0]) : 0;
+};
+
+// "%e" style exponent with at least two digits, as C prints it
+const exponential = (value: number, precision: number) =>
+  value.toExponential(precision).replace(/e([-+])(\d)$/, "e$10$2");
+
+const formatG = (value: number, precision: number, keepZeros: boolean) => {
+  if (value === 0) return keepZeros ? (0).toFixed(Math.max(precision - 1, 0)) : "0";
+  const p = precision || 1;
+  const exponent = Math.floor(Math.log10(Math.abs(Number(value.toPrecision(p)))));
+  const text = exponent < -4 || exponent >= p ? exponential(value, p - 1) : value.toFixed(Math.max(p - 1 - exponent, 0));
+  if (keepZeros) return text;
+  const [mantissa, exponent10] = text.split("e");
+  const trimmed = mantissa.includes(".") ? mantissa.replace(/\.?0+$/, "") : mantissa;
+  return exponent10 === undefined ? trimmed : `${trimmed}e${exponent10}`;
+};
+
+const numberToString = (value: number) =>
+  Number.isInteger(value) ? String(value) : formatG(value, 6, false);
+
+const toText = (value: Value): string => {
+  if (value === undefined) return "";
+  if (typeof value === "number") return numberToString(value);
+  return value instanceof InputString ? value.text : value;
+};
+
+const toBoolean = (value: Value) => {
+  if (typeof value === "number") return value !== 0;
+  if (value === undefined) return false;
+  if (value instanceof InputString) return NUMERIC.test(value.text) ? toNumber(value) !== 0 : value.text !== "";
+  return value !== "";
+};
+
+const compare = (left: Value, right: Value) => {
+  if (isNumericLike(left) && isNumericLike(right)) return toNumber(left) - toNumber(right);
+  const a = toText(left);
+  const b = toText(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const pad = (text: string, width: number, left: boolean, zero: boolean) => {
+  if (text.length >= width) return text;
+  if (left) return text.padEnd(width);
+  if (zero) {
+    const sign = /^[-+ ]/.test(text) ? text[0] : "";
+    return sign + text.slice(sign.length).padStart(width - sign.length, "0");
+  }
+  return text.padStart(width);
+};
+
+export const formatPrintf = (format: string, args: Value[]) => {
+  let next = 0;
+  const arg = () => args[next++];
+  return format.replace(
+    /%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?([diouxXeEfFgGcs%])/g,
+    (_, flags: string, widthSpec?: string, precisionSpec?: string, conversion?: string) => {
+      if (conversion === "%") return "%";
+      const width = widthSpec === "*" ? toNumber(arg()) : Number(widthSpec ?? 0);
+      const precision =
+        precisionSpec === undefined ? undefined : precisionSpec === "*" ? toNumber(arg()) : Number(precisionSpec || 0);
+      const left = flags.includes("-") || width < 0;
+      const zero = flags.includes("0") && !left;
+      const sign = (n: number, text: string) =>
+        n < 0 || Object.is(n, -0) ? text : flags.includes("+") ? `+${text}` : flags.includes(" ") ? ` ${text}` : text;
+      const value = arg();
+      let text: string;
+
+      switch (conversion) {
+        case "d":
+        case "i": {
+          const n = Math.trunc(toNumber(value));
+          const digits = Math.abs(n).toString().padStart(precision ?? 1, "0");
+          text = sign(n, n < 0 ? `-${digits}` : digits);
+          return pad(text, Math.abs(width), left, zero && precision === undefined);
+        }
+        case "o":
+        case "u":
+        case "x":
+        case "X": {
+          const n = Math.trunc(toNumber(value));
+          const base = { o: 8, u: 10, x: 16, X: 16 }[conversion];
+          text = (n < 0 ? n + 2 ** 32 : n).toString(base).padStart(precision ?? 1, "0");
+          if (conversion === "X") text = text.toUpperCase();
+          if (flags.includes("#") && n !== 0 && conversion !== "u") text = (conversion === "o" ? "0" : conversion === "x" ? "0x" : "0X") + text;
+          return pad(text, Math.abs(width), left, zero);
+        }
+        case "e":
+        case "E":
+        case "f":
+        case "F":
+        case "g":
+        case "G": {
+          const n = toNumber(value);
+          const p = precision ?? 6;
+          const lower = conversion.toLowerCase();
+          text =
+            lower === "e" ? exponential(Math.abs(n), p) : lower === "f" ? Math.abs(n).toFixed(p) : formatG(Math.abs(n), p, flags.includes("#"));
+          if (conversion === "E" || conversion === "G") text = text.toUpperCase();
+          text = sign(n, n < 0 ? `-${text}` : text);
+          return pad(text, Math.abs(width), left, zero);
+        }
+        case "c":
+          text = typeof value === "number" ? String.fromCharCode(value) : toText(value).slice(0, 1);
+          return pad(text, Math.abs(width), left, false);
+        default:
+          text = toText(value);
+          if (precision !== undefined) text = text.slice(0, precision);
+          return pad(text, Math.abs(width), left, false);
+      }
+    }
+  );
+};
+
+// Control flow, thrown up to the statement that handles it
+class NextSignal {}
+class BreakSignal {}
+class ContinueSignal {}
+class ExitSignal {
+  constructor(readonly status: number) {}
+}
+
+const MAX_STEPS = 1_000_000;
+
+export interface AwkOptions {
+  program: string;
+  operands: string[]; // files and var=value assignments
+  assignments?: string[]; // -v var=value
+  fieldSeparator?: string; // -F
+  stdin: string;
+  readFile: (name: string) => string; // throws with the reason when it cannot
+  out: (text: string) => void;
+  err: (text: string) => void;
+}
+
+// Escape sequences in -v and command line assignments, as in string literals
+const unescape = (text: string) => text.replace(/\\(.)/g, (match, char: string) => ESCAPES[char] ?? match);
+
+export const runAwk = (options: AwkOptions): number => {
+  let items: Item[];
+  try {
+    items = parse(options.program);
+  } catch (error) {
+    options.err(`awk: ${(error as Error).message}\n`);
+    return 2;
+  }
+
+  const variables = new Map<string, Value>([
+    ["FS", " "],
+    ["OFS", " "],
+    ["ORS", "\n"],
+    ["RS", "\n"],
+    ["NR", 0],
+    ["FNR", 0],
+    ["FILENAME", ""],
+    ["SUBSEP", "\x1c"],
+    ["RSTART", 0],
+    ["RLENGTH", -1],
+    ["CONVFMT", "%.6g"],
+    ["OFMT", "%.6g"],
+    ["ARGC", options.operands.length + 1],
+  ]);
+  const arrays = new Map<string, Map<string, Value>>();
+  arrays.set(
+    "ARGV",
+    new Map([["0", "awk"], ...options.operands.map((operand, i): [string, Value] => [String(i + 1), operand])])
+  );
+  let fields: string[] = [""]; // $0, $1, …
+  let random = createRandom(0);
+  let steps = 0;
+  const regexes = new Map<string, RegExp>();
+
+  const regex = (source: string, flags = "") => {
+    const key = `${flags}/${source}`;
+    if (!regexes.has(key)) {
+      try {
+        regexes.set(key, toJsRegex(source, true, flags));
+      } catch {
+        throw new AwkError(`invalid regular expression /${source}/`);
+      }
+    }
+    return regexes.get(key)!;
+  };
+
+  const fieldSeparator = () => toText(variables.get("FS"));
+
+  const splitText = (text: string, separator: string | RegExp): string[] => {
+    if (separator === " ") return text.trim() ? text.trim().split(/[ \t\n]+/) : [];
+    if (!text) return [];
+    if (typeof separator === "string" && separator.length === 1) return text.split(separator);
+    return text.split(typeof separator === "string" ? regex(separator) : separator);
+  };
+
+  const setRecord = (record: string) => {
+    fields = [record, ...splitText(record, fieldSeparator())];
+  };
+
+  const rebuildRecord = () => {
+    fields[0] = fields.slice(1).join(toText(variables.get("OFS")));
+  };
+
+  const getArray = (name: string) => {
+    if (variables.has(name) && variables.get(name) !== undefined) {
+      throw new AwkError(`can't use scalar ${name} as array`);
+    }
+    if (!arrays.has(name)) arrays.set(name, new Map());
+    return arrays.get(name)!;
+  };
+
+  const subscript = (subscripts: Expr[]) =>
+    subscripts.map((s) => toText(evaluate(s))).join(toText(variables.get("SUBSEP")));
+
+  const getVariable = (name: string): Value => {
+    if (name === "NF") return fields.length - 1;
+    if (arrays.has(name)) throw new AwkError(`can't use array ${name} in scalar context`);
+    return variables.get(name);
+  };
+
+  const setVariable = (name: string, value: Value) => {
+    if (name === "NF") {
+      const count = Math.max(0, Math.trunc(toNumber(value)));
+      fields = [fields[0], ...Array.from({ length: count }, (_, i) => fields[i + 1] ?? "")];
+      rebuildRecord();
+      return;
+    }
+    variables.set(name, value);
+  };
+
+  const getField = (index: number): Value => {
+    if (index < 0) throw new AwkError(`trying to access out of range field ${index}`);
+    return new InputString(fields[index] ?? "");
+  };
+
+  const setField = (index: number, value: Value) => {
+    if (index < 0) throw new AwkError(`trying to access out of range field ${index}`);
+    if (index === 0) {
+      setRecord(toText(value));
+      return;
+    }
+    while (fields.length <= index) fields.push("");
+    fields[index] = toText(value);
+    rebuildRecord();
+  };
+
+  const read = (target: LValue): Value => {
+    switch (target.t) {
+      case "var":
+        return getVariable(target.name);
+      case "index":
+        return getArray(target.name).get(subscript(target.subscripts));
+      case "field":
+        return getField(Math.trunc(toNumber(evaluate(target.index))));
+    }
+  };
+
+  const write = (target: LValue, value: Value) => {
+    switch (target.t) {
+      case "var":
+        setVariable(target.name, value);
+        break;
+      case "index":
+        getArray(target.name).set(subscript(target.subscripts), value);
+        break;
+      case "field":
+        setField(Math.trunc(toNumber(evaluate(target.index))), value);
+        break;
+    }
+    return value;
+  };
+
+  const matchRegex = (pattern: Expr): RegExp =>
+    pattern.t === "regex" ? regex(pattern.source) : regex(toText(evaluate(pattern)));
+
+  const arithmetic = (op: string, a: number, b: number) => {
+    switch (op) {
+      case "+":
+        return a + b;
+      case "-":
+        return a - b;
+      case "*":
+        return a * b;
+      case "/":
+        if (b === 0) throw new AwkError("division by zero");
+        return a / b;
+      case "%":
+        if (b === 0) throw new AwkError("division by zero in %");
+        return a % b;
+      default:
+        return a ** b;
+    }
+  };
+
+  // sub() and gsub(): "&" in the replacement is the matched text, "\&" a literal &
+  const substitute = (args: Expr[], global: boolean) => {
+    if (args.length < 2) throw new AwkError("not enough arguments to sub/gsub");
+    const pattern = matchRegex(args[0]);
+    const replacement = toText(evaluate(args[1]));
+    const target: LValue = args[2] && isLValue(args[2]) ? args[2] : { t: "field", index: { t: "num", value: 0 } };
+    const text = toText(read(target));
+    let count = 0;
+    const result = text.replace(new RegExp(pattern.source, pattern.flags + (global ? "g" : "")), (matched) => {
+      count++;
+      return replacement.replace(/\\\\|\\&|&/g, (part) => (part === "&" ? matched : part.slice(1)));
+    });
+    if (count) write(target, result);
+    return count;
+  };
+
+  const call = (name: string, args: Expr[]): Value => {
+    const text = (i: number) => toText(evaluate(args[i]));
+    const number = (i: number) => toNumber(evaluate(args[i]));
+    switch (name) {
+      case "length": {
+        if (!args.length) return fields[0].length;
+        const arg = args[0];
+        if (arg.t === "var" && arrays.has(arg.name)) return arrays.get(arg.name)!.size;
+        return text(0).length;
+      }
+      case "substr": {
+        const s = text(0);
+        // Positions are rounded and clipped to the string, as POSIX says
+        const start = Math.round(number(1));
+        const end = args.length > 2 ? start + Math.round(number(2)) : Infinity;
+        const from = Math.max(start, 1);
+        const to = Math.min(end, s.length + 1);
+        return to > from ? s.slice(from - 1, to - 1) : "";
+      }
+      case "index":
+        return text(0).indexOf(text(1)) + 1;
+      case "split": {
+        const arg = args[1];
+        if (!arg || arg.t !== "var") throw new AwkError("split: second argument is not an array");
+        const separator = args[2] ? (args[2].t === "regex" ? regex(args[2].source) : text(2)) : fieldSeparator();
+        const parts = splitText(text(0), separator);
+        const array = getArray(arg.name);
+        array.clear();
+        parts.forEach((part, i) => array.set(String(i + 1), new InputString(part)));
+        return parts.length;
+      }
+      case "sub":
+        return substitute(args, false);
+      case "gsub":
+        return substitute(args, true);
+      case "match": {
+        const found = matchRegex(args[1]).exec(text(0));
+        variables.set("RSTART", found ? found.index + 1 : 0);
+        variables.set("RLENGTH", found ? found[0].length : -1);
+        return found ? found.index + 1 : 0;
+      }
+      case "sprintf":
+        return formatPrintf(text(0), args.slice(1).map(evaluate));
+      case "tolower":
+        return text(0).toLowerCase();
+      case "toupper":
+        return text(0).toUpperCase();
+      case "int":
+        return Math.trunc(number(0));
+      case "sqrt":
+        return Math.sqrt(number(0));
+      case "exp":
+        return Math.exp(number(0));
+      case "log":
+        return Math.log(number(0));
+      case "sin":
+        return Math.sin(number(0));
+      case "cos":
+        return Math.cos(number(0));
+      case "atan2":
+        return Math.atan2(number(0), number(1));
+      case "rand":
+        return random();
+      default: {
+        // srand(): reseeding keeps runs reproducible, which grading relies on
+        random = createRandom(args.length ? number(0) : 0);
+        return 0;
+      }
+    }
+  };
+
+  const evaluate = (expr: Expr): Value => {
+    switch (expr.t) {
+      case "num":
+        return expr.value;
+      case "str":
+        return expr.value;
+      case "regex":
+        return regex(expr.source).test(fields[0]) ? 1 : 0;
+      case "var":
+      case "index":
+      case "field":
+        return read(expr);
+      case "group":
+        throw new AwkError("unexpected list of expressions");
+      case "assign": {
+        const value = evaluate(expr.value);
+        if (expr.op === "=") {
+          // Copying an array element or field keeps its number-like text
+          return write(expr.target, value);
+        }
+        return write(expr.target, arithmetic(expr.op[0], toNumber(read(expr.target)), toNumber(value)));
+      }
+      case "cond":
+        return toBoolean(evaluate(expr.test)) ? evaluate(expr.then) : evaluate(expr.else);
+      case "unary": {
+        const value = evaluate(expr.operand);
+        if (expr.op === "!") return toBoolean(value) ? 0 : 1;
+        return expr.op === "-" ? -toNumber(value) : toNumber(value);
+      }
+      case "incdec": {
+        const old = toNumber(read(expr.target));
+        const updated = expr.op === "++" ? old + 1 : old - 1;
+        write(expr.target, updated);
+        return expr.prefix ? updated : old;
+      }
+      case "in":
+        return arrays.get(expr.name)?.has(subscript(expr.subscripts)) ? 1 : 0;
+      case "call":
+        return call(expr.name, expr.args);
+      case "binary": {
+        const { op } = expr;
+        if (op === "&&") return toBoolean(evaluate(expr.left)) && toBoolean(evaluate(expr.right)) ? 1 : 0;
+        if (op === "||") return toBoolean(evaluate(expr.left)) || toBoolean(evaluate(expr.right)) ? 1 : 0;
+        if (op === "~" || op === "!~") {
+          const matches = matchRegex(expr.right).test(toText(evaluate(expr.left)));
+          return matches === (op === "~") ? 1 : 0;
+        }
+        const left = evaluate(expr.left);
+        const right = evaluate(expr.right);
+        if (op === "concat") return toText(left) + toText(right);
+        if (COMPARISON_OPS.includes(op)) {
+          const order = compare(left, right);
+          const result = {
+            "<": order < 0,
+            "<=": order <= 0,
+            "==": order === 0,
+            "!=": order !== 0,
+            ">": order > 0,
+            ">=": order >= 0,
+          }[op];
+          return result ? 1 : 0;
+        }
+        return arithmetic(op, toNumber(left), toNumber(right));
+      }
+    }
+  };
+
+  const output = (value: Value) =>
+    typeof value === "number" && !Number.isInteger(value)
+      ? formatPrintf(toText(variables.get("OFMT")), [value])
+      : toText(value);
+
+  const execute = (stmt: Stmt): void => {
+    if (++steps > MAX_STEPS) throw new AwkError("program ran too long, stopped");
+    switch (stmt.t) {
+      case "print": {
+        const values = stmt.args.length ? stmt.args.map((arg) => output(evaluate(arg))) : [fields[0]];
+        options.out(values.join(toText(variables.get("OFS"))) + toText(variables.get("ORS")));
+        break;
+      }
+      case "printf": {
+        const [format, ...args] = stmt.args.map(evaluate);
+        options.out(formatPrintf(toText(format), args));
+        break;
+      }
+      case "expr":
+        evaluate(stmt.expr);
+        break;
+      case "if":
+        if (toBoolean(evaluate(stmt.test))) execute(stmt.then);
+        else if (stmt.else) execute(stmt.else);
+        break;
+      case "while":
+        while (toBoolean(evaluate(stmt.test))) {
+          if (loopBody(stmt.body)) break;
+        }
+        break;
+      case "do":
+        do {
+          if (loopBody(stmt.body)) break;
+        } while (toBoolean(evaluate(stmt.test)));
+        break;
+      case "for":
+        if (stmt.init) evaluate(stmt.init);
+        while (!stmt.test || toBoolean(evaluate(stmt.test))) {
+          if (loopBody(stmt.body)) break;
+          if (stmt.step) evaluate(stmt.step);
+        }
+        break;
+      case "forin":
+        for (const key of [...getArray(stmt.array).keys()]) {
+          setVariable(stmt.name, key);
+          if (loopBody(stmt.body)) break;
+        }
+        break;
+      case "block":
+        stmt.body.forEach(execute);
+        break;
+      case "next":
+        throw new NextSignal();
+      case "exit":
+        throw new ExitSignal(stmt.status ? Math.trunc(toNumber(evaluate(stmt.status))) : 0);
+      case "break":
+        throw new BreakSignal();
+      case "continue":
+        throw new ContinueSignal();
+      case "delete":
+        if (stmt.subscripts) getArray(stmt.name).delete(subscript(stmt.subscripts));
+        else getArray(stmt.name).clear();
+        break;
+    }
+  };
+
+  // Runs one iteration; true when the loop should stop
+  const loopBody = (body: Stmt) => {
+    if (++steps > MAX_STEPS) throw new AwkError("program ran too long, stopped");
+    try {
+      execute(body);
+    } catch (signal) {
+      if (signal instanceof BreakSignal) return true;
+      if (!(signal instanceof ContinueSignal)) throw signal;
+    }
+    return false;
+  };
+
+  const assign = (assignment: string) => {
+    const [, name, value] = /^([A-Za-z_]\w*)=(.*)$/s.exec(assignment)!;
+    setVariable(name, new InputString(unescape(value)));
+  };
+
+  const runRecord = (record: string) => {
+    setVariable("NR", toNumber(variables.get("NR")) + 1);
+    setVariable("FNR", toNumber(variables.get("FNR")) + 1);
+    setRecord(record);
+    try {
+      for (const item of items) {
+        if (item.kind !== "main") continue;
+        let selected: boolean;
+        if (item.rangeEnd) {
+          // A range covers the lines from one matching its start to one matching its end
+          if (!item.inRange && toBoolean(evaluate(item.pattern!))) item.inRange = true;
+          selected = !!item.inRange;
+          if (item.inRange && toBoolean(evaluate(item.rangeEnd))) item.inRange = false;
+        } else {
+          selected = !item.pattern || toBoolean(evaluate(item.pattern));
+        }
+        if (!selected) continue;
+        if (item.action) item.action.forEach(execute);
+        else options.out(fields[0] + toText(variables.get("ORS")));
+      }
+    } catch (signal) {
+      if (!(signal instanceof NextSignal)) throw signal;
+    }
+  };
+
+  const runInput = () => {
+    const inputs = options.operands.filter((operand) => !/^[A-Za-z_]\w*=/.test(operand));
+    if (!inputs.length) {
+      options.operands.forEach(assign);
+      for (const record of toRecords(options.stdin)) runRecord(record);
+      return;
+    }
+    for (const operand of options.operands) {
+      if (/^[A-Za-z_]\w*=/.test(operand)) {
+        assign(operand);
+        continue;
+      }
+      let content: string;
+      try {
+        content = operand === "-" ? options.stdin : options.readFile(operand);
+      } catch (error) {
+        throw new AwkError(`cannot open "${operand}" (${(error as Error).message})`);
+      }
+      setVariable("FILENAME", operand);
+      setVariable("FNR", 0);
+      for (const record of toRecords(content)) runRecord(record);
+    }
+  };
+
+  const runItems = (kind: "begin" | "end") => {
+    for (const item of items) {
+      if (item.kind === kind) item.action!.forEach(execute);
+    }
+  };
+
+  try {
+    if (options.fieldSeparator !== undefined) {
+      const separator = unescape(options.fieldSeparator);
+      variables.set("FS", separator === "t" ? "\t" : separator);
+    }
+    (options.assignments ?? []).forEach(assign);
+
+    let status = 0;
+    try {
+      runItems("begin");
+      // Input is only read when something but BEGIN needs it
+      if (items.some((item) => item.kind !== "begin")) runInput();
+    } catch (signal) {
+      if (!(signal instanceof ExitSignal)) throw signal;
+      status = signal.status;
+    }
+    try {
+      runItems("end");
+    } catch (signal) {
+      if (!(signal instanceof ExitSignal)) throw signal;
+      status = signal.status;
+    }
+    return status;
+  } catch (error) {
+    if (error instanceof BreakSignal || error instanceof ContinueSignal || error instanceof NextSignal) {
+      options.err("awk: break, continue or next outside a loop\n");
+      return 2;
+    }
+    options.err(`awk: ${(error as Error).message}\n`);
+    return 2;
+  }
+};
+
+// Lines of the input, without the empty one after the final newline
+const toRecords = (text: string) => {
+  const records = text.split("\n");
+  if (records[records.length - 1] === "") records.pop();
+  return records;
+};
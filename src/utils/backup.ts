@@ -0,0 +1,327 @@
+import {
+  AnswerEvent,
+  ExamSettings,
+  KeyBindings,
+  Language,
+  MultiScoring,
+  QuestionFlag,
+  QuestionNote,
+  QuestionOverride,
+  ReviewCard,
+  Session,
+  Theme,
+} from "../types";
+
+export const BACKUP_FORMAT = "os-exam-backup";
+export const BACKUP_VERSION = 1;
+
+export interface BackupPreferences {
+  language?: Language;
+  testQuestionCount?: number;
+  theme?: Theme;
+  keyBindings?: KeyBindings;
+  multiScoring?: MultiScoring;
+  examSettings?: ExamSettings;
+  excludeFlagged?: boolean;
+  generatedShare?: number;
+}
+
+// Everything a user would lose by clearing the browser data
+export interface BackupData {
+  sessions: Session[];
+  answerEvents: AnswerEvent[];
+  reviewCards: ReviewCard[];
+  overrides: QuestionOverride[];
+  flags: QuestionFlag[];
+  notes: QuestionNote[];
+  preferences: BackupPreferences;
+}
+
+export interface Backup extends BackupData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+}
+
+export type ImportStrategy = "merge" | "replace";
+
+// Which copy wins when a session exists locally and in the backup with different contents
+export type ConflictResolution = "local" | "backup" | "progress";
+
+export interface BackupPreview {
+  sessions: { added: number; conflicts: Session[]; unchanged: number; removed: number };
+  answerEvents: { added: number; removed: number };
+  reviewCards: { added: number; updated: number };
+  overrides: { added: number; updated: number };
+  flags: { added: number; updated: number };
+  notes: { added: number; updated: number };
+}
+
+export const createBackup = (data: BackupData, now = Date.now()): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: now,
+  ...data,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Check that every entry of a list has the given fields, with their typeof
+const checkList = (
+  errors: string[],
+  name: string,
+  value: unknown,
+  fields: Record<string, string>
+) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${name} must be a list`);
+    return;
+  }
+  value.forEach((entry, index) => {
+    if (!isObject(entry)) {
+      errors.push(`${name}[${index}] is not an object`);
+      return;
+    }
+    for (const [field, type] of Object.entries(fields)) {
+      const actual = Array.isArray(entry[field]) ? "array" : typeof entry[field];
+      if (actual !== type) {
+        const expected = type === "array" ? "a list" : `a ${type}`;
+        errors.push(`${name}[${index}].${field} must be ${expected}`);
+      }
+    }
+  });
+};
+
+// Problems with the progress lists of a backup or of another device's state
+export const checkProgress = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["progress must be an object"];
+
+  const errors: string[] = [];
+  checkList(errors, "sessions", raw.sessions, {
+    id: "string",
+    timestamp: "number",
+    totalQuestions: "number",
+    currentQuestionIndex: "number",
+    questionIds: "array",
+    answeredQuestions: "array",
+    completed: "boolean",
+  });
+  checkList(errors, "answerEvents", raw.answerEvents, {
+    id: "string",
+    questionId: "string",
+    correct: "boolean",
+    timestamp: "number",
+  });
+  checkList(errors, "reviewCards", raw.reviewCards, {
+    questionId: "string",
+    ease: "number",
+    interval: "number",
+    due: "number",
+  });
+  checkList(errors, "overrides", raw.overrides ?? [], {
+    id: "string",
+    updatedAt: "number",
+  });
+  checkList(errors, "flags", raw.flags ?? [], {
+    questionId: "string",
+    reason: "string",
+    createdAt: "number",
+  });
+  checkList(errors, "notes", raw.notes ?? [], {
+    questionId: "string",
+    text: "string",
+    updatedAt: "number",
+  });
+  checkList(errors, "deletions", raw.deletions ?? [], {
+    kind: "string",
+    key: "string",
+    deletedAt: "number",
+  });
+  return errors;
+};
+
+// Parse a backup file, returning the problems that make it unusable
+export const parseBackup = (
+  text: string
+): { backup: Backup | null; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { backup: null, errors: [`not valid JSON: ${(error as Error).message}`] };
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ["not a backup file from this app"] };
+  }
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    return {
+      backup: null,
+      errors: [`backup version ${raw.version} is not supported, update the app first`],
+    };
+  }
+
+  const errors = checkProgress(raw);
+  if (raw.preferences !== undefined && !isObject(raw.preferences)) {
+    errors.push("preferences must be an object");
+  }
+
+  if (errors.length) return { backup: null, errors };
+
+  return {
+    backup: {
+      ...(raw as unknown as Backup),
+      overrides: (raw.overrides as QuestionOverride[]) ?? [],
+      flags: (raw.flags as QuestionFlag[]) ?? [],
+      notes: (raw.notes as QuestionNote[]) ?? [],
+      preferences: (raw.preferences as BackupPreferences) ?? {},
+    },
+    errors: [],
+  };
+};
+
+const sameContents = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const progressOf = (session: Session) =>
+  session.answeredQuestions.length + (session.completed ? session.totalQuestions : 0);
+
+// Keyed union where `pick` decides between two entries with the same key
+export const mergeBy = <T>(
+  local: T[],
+  incoming: T[],
+  key: (item: T) => string,
+  pick: (local: T, incoming: T) => T
+) => {
+  const merged = new Map(local.map((item) => [key(item), item]));
+  for (const item of incoming) {
+    const existing = merged.get(key(item));
+    merged.set(key(item), existing ? pick(existing, item) : item);
+  }
+  return [...merged.values()];
+};
+
+const countChanges = <T>(local: T[], incoming: T[], key: (item: T) => string) => {
+  const localByKey = new Map(local.map((item) => [key(item), item]));
+  let added = 0;
+  let updated = 0;
+  for (const item of incoming) {
+    const existing = localByKey.get(key(item));
+    if (!existing) added++;
+    else if (!sameContents(existing, item)) updated++;
+  }
+  return { added, updated };
+};
+
+export const previewBackup = (
+  local: BackupData,
+  backup: Backup,
+  strategy: ImportStrategy
+): BackupPreview => {
+  const localSessions = new Map(local.sessions.map((s) => [s.id, s]));
+  const backupSessionIds = new Set(backup.sessions.map((s) => s.id));
+  const localEventIds = new Set(local.answerEvents.map((e) => e.id));
+  const backupEventIds = new Set(backup.answerEvents.map((e) => e.id));
+
+  const conflicts = backup.sessions.filter((s) => {
+    const existing = localSessions.get(s.id);
+    return existing && !sameContents(existing, s);
+  });
+
+  return {
+    sessions: {
+      added: backup.sessions.filter((s) => !localSessions.has(s.id)).length,
+      conflicts,
+      unchanged: backup.sessions.filter((s) =>
+        sameContents(localSessions.get(s.id), s)
+      ).length,
+      removed:
+        strategy === "replace"
+          ? local.sessions.filter((s) => !backupSessionIds.has(s.id)).length
+          : 0,
+    },
+    answerEvents: {
+      added: backup.answerEvents.filter((e) => !localEventIds.has(e.id)).length,
+      removed:
+        strategy === "replace"
+          ? local.answerEvents.filter((e) => !backupEventIds.has(e.id)).length
+          : 0,
+    },
+    reviewCards: countChanges(local.reviewCards, backup.reviewCards, (c) => c.questionId),
+    overrides: countChanges(local.overrides, backup.overrides, (o) => o.id),
+    flags: countChanges(local.flags, backup.flags, (f) => f.questionId),
+    notes: countChanges(local.notes, backup.notes, (n) => n.questionId),
+  };
+};
+
+// The data to keep after importing a backup
+export const applyBackup = (
+  local: BackupData,
+  backup: Backup,
+  strategy: ImportStrategy,
+  resolution: ConflictResolution = "progress"
+): BackupData => {
+  if (strategy === "replace") {
+    return {
+      sessions: backup.sessions,
+      answerEvents: backup.answerEvents,
+      reviewCards: backup.reviewCards,
+      overrides: backup.overrides,
+      flags: backup.flags,
+      notes: backup.notes,
+      preferences: { ...local.preferences, ...backup.preferences },
+    };
+  }
+
+  const pickSession = (mine: Session, theirs: Session) => {
+    if (resolution === "local") return mine;
+    if (resolution === "backup") return theirs;
+    return progressOf(theirs) > progressOf(mine) ? theirs : mine;
+  };
+
+  const byTimestamp = (a: { timestamp: number }, b: { timestamp: number }) =>
+    a.timestamp - b.timestamp;
+
+  return {
+    sessions: mergeBy(
+      local.sessions,
+      backup.sessions,
+      (s) => s.id,
+      pickSession
+    ).sort(byTimestamp),
+    // Answer events are never edited, so the union is enough
+    answerEvents: mergeBy(
+      local.answerEvents,
+      backup.answerEvents,
+      (e) => e.id,
+      (mine) => mine
+    ).sort(byTimestamp),
+    reviewCards: mergeBy(
+      local.reviewCards,
+      backup.reviewCards,
+      (c) => c.questionId,
+      (mine, theirs) =>
+        (theirs.lastReviewed ?? 0) > (mine.lastReviewed ?? 0) ? theirs : mine
+    ),
+    overrides: mergeBy(
+      local.overrides,
+      backup.overrides,
+      (o) => o.id,
+      (mine, theirs) => (theirs.updatedAt > mine.updatedAt ? theirs : mine)
+    ),
+    flags: mergeBy(
+      local.flags,
+      backup.flags,
+      (f) => f.questionId,
+      (mine, theirs) => (theirs.createdAt > mine.createdAt ? theirs : mine)
+    ),
+    notes: mergeBy(
+      local.notes,
+      backup.notes,
+      (n) => n.questionId,
+      (mine, theirs) => (theirs.updatedAt > mine.updatedAt ? theirs : mine)
+    ),
+    // Preferences on this device are kept when merging
+    preferences: local.preferences,
+  };
+};
@@ -0,0 +1,440 @@
+import { BankFormat, Question } from "../types";
+import { hashQuestionText, parseQuestionBank, validateQuestion } from "./questionBank";
+
+export interface ImportError {
+  line: number | null;
+  message: string;
+}
+
+export interface ImportResult {
+  questions: Question[];
+  errors: ImportError[];
+}
+
+// A question read from the file, with the line it starts on
+interface ParsedEntry {
+  line: number;
+  question: Omit<Question, "id">;
+}
+
+export const BANK_FORMATS: Record<BankFormat, string> = {
+  json: "JSON",
+  csv: "CSV",
+  aiken: "Aiken",
+  gift: "GIFT",
+};
+
+export const detectFormat = (filename: string, text: string): BankFormat => {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "csv" || extension === "tsv") return "csv";
+  if (extension === "gift") return "gift";
+  if (/^\s*[[{]/.test(text)) return "json";
+  if (/^ANSWER:/im.test(text)) return "aiken";
+  return "gift";
+};
+
+// Give every entry an id and keep the ones that pass validation
+const finalize = (entries: ParsedEntry[], errors: ImportError[]): ImportResult => {
+  const questions: Question[] = [];
+  const lineById = new Map<string, number>();
+
+  for (const { line, question: entry } of entries) {
+    const question: Question = { id: hashQuestionText(entry.question), ...entry };
+    const problems = validateQuestion(question);
+    const duplicateOf = lineById.get(question.id);
+
+    if (duplicateOf !== undefined) {
+      problems.push(`same question as line ${duplicateOf}`);
+    }
+    if (problems.length) {
+      errors.push(...problems.map((message) => ({ line, message })));
+      continue;
+    }
+
+    lineById.set(question.id, line);
+    questions.push(question);
+  }
+
+  return { questions, errors };
+};
+
+const lineAt = (text: string, position: number) =>
+  text.slice(0, position).split("\n").length;
+
+const parseJson = (text: string): ImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Browsers report either a line number or a character position
+    const line = message.match(/line (\d+)/);
+    const position = message.match(/position (\d+)/);
+    return {
+      questions: [],
+      errors: [
+        {
+          line: line
+            ? Number(line[1])
+            : position
+            ? lineAt(text, Number(position[1]))
+            : null,
+          message,
+        },
+      ],
+    };
+  }
+
+  try {
+    const { questions, errors } = parseQuestionBank(raw);
+    return {
+      questions,
+      errors: errors.map(({ index, message }) => ({
+        line: null,
+        message: `entry ${index + 1}: ${message}`,
+      })),
+    };
+  } catch (error) {
+    return {
+      questions: [],
+      errors: [{ line: null, message: error instanceof Error ? error.message : String(error) }],
+    };
+  }
+};
+
+// RFC 4180 records, keeping the line each record starts on
+const readCsvRecords = (text: string, errors: ImportError[]) => {
+  const firstLine = text.split("\n", 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((f) => f.trim())) records.push({ line: recordLine, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: recordLine, message: "unterminated quoted field" });
+  } else {
+    endRecord();
+  }
+
+  return records;
+};
+
+// Header columns: question, correct, answer columns (answer1, option2, a, b, ...)
+// and optional kind, topics, accepted, explanation, source and image; several keys
+// are separated by "|"
+const parseCsv = (text: string): ImportResult => {
+  const errors: ImportError[] = [];
+  const [header, ...rows] = readCsvRecords(text, errors);
+  if (!header) return { questions: [], errors };
+
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex((c) => names.includes(c));
+  const questionColumn = column("question");
+  const correctColumn = column("correct", "key");
+  const kindColumn = column("kind");
+  const topicsColumn = column("topics");
+  const acceptedColumn = column("accepted");
+  const explanationColumn = column("explanation");
+  const sourceColumn = column("source");
+  const imageColumn = column("image");
+  const answerColumns = columns.flatMap((name, index) =>
+    /^(answer|option)\s*\d+$|^[a-z]$/.test(name) ? [index] : []
+  );
+
+  if (questionColumn < 0 || correctColumn < 0) {
+    errors.push({
+      line: header.line,
+      message: 'header must have "question" and "correct" columns',
+    });
+    return { questions: [], errors };
+  }
+
+  const split = (value = "") =>
+    value.split("|").map((part) => part.trim()).filter(Boolean);
+
+  const entries = rows.map(({ line, fields }): ParsedEntry => {
+    const keys = split(fields[correctColumn]);
+    const question: ParsedEntry["question"] = {
+      question: (fields[questionColumn] ?? "").trim(),
+      answers: answerColumns.map((i) => (fields[i] ?? "").trim()).filter(Boolean),
+      correct: keys.length > 1 ? keys : keys[0] ?? "",
+    };
+    if (kindColumn >= 0 && fields[kindColumn]?.trim()) {
+      question.kind = fields[kindColumn].trim() as Question["kind"];
+    }
+    if (topicsColumn >= 0 && split(fields[topicsColumn]).length) {
+      question.topics = split(fields[topicsColumn]);
+    }
+    if (acceptedColumn >= 0 && split(fields[acceptedColumn]).length) {
+      question.acceptedAnswers = split(fields[acceptedColumn]);
+    }
+    if (explanationColumn >= 0 && fields[explanationColumn]?.trim()) {
+      question.explanation = fields[explanationColumn].trim();
+    }
+    if (sourceColumn >= 0 && fields[sourceColumn]?.trim()) {
+      question.source = fields[sourceColumn].trim();
+    }
+    if (imageColumn >= 0 && fields[imageColumn]?.trim()) {
+      question.image = fields[imageColumn].trim();
+    }
+    return { line, question };
+  });
+
+  return finalize(entries, errors);
+};
+
+// Moodle Aiken: question, "A. option" lines, then "ANSWER: B"
+const parseAiken = (text: string): ImportResult => {
+  const errors: ImportError[] = [];
+  const entries: ParsedEntry[] = [];
+  let questionLines: string[] = [];
+  let options: string[] = [];
+  let startLine = 0;
+
+  const reset = () => {
+    questionLines = [];
+    options = [];
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+
+    const answer = trimmed.match(/^ANSWER:\s*(.*)$/i);
+    if (answer) {
+      const letters = answer[1].toUpperCase().split(/[\s,]+/).filter(Boolean);
+      if (!questionLines.length || !options.length) {
+        errors.push({ line, message: "ANSWER line without a question and options" });
+      } else if (!letters.length || letters.some((l) => !/^[A-Z]$/.test(l))) {
+        errors.push({ line, message: `invalid answer "${answer[1]}"` });
+      } else {
+        const correct = letters.map((l) => options[l.charCodeAt(0) - 65] ?? l);
+        entries.push({
+          line: startLine,
+          question: {
+            question: questionLines.join("\n"),
+            answers: options,
+            correct: correct.length > 1 ? correct : correct[0],
+          },
+        });
+      }
+      reset();
+      return;
+    }
+
+    const option = questionLines.length && trimmed.match(/^([A-Z])[.)]\s+(.*)$/);
+    if (option) {
+      const expected = String.fromCharCode(65 + options.length);
+      if (option[1] !== expected) {
+        errors.push({ line, message: `expected option ${expected}, found ${option[1]}` });
+      }
+      options.push(option[2].trim());
+      return;
+    }
+
+    if (options.length) {
+      errors.push({ line: startLine, message: "missing ANSWER line" });
+      reset();
+    }
+    if (!questionLines.length) startLine = line;
+    questionLines.push(trimmed);
+  });
+
+  if (questionLines.length) {
+    errors.push({ line: startLine, message: "missing ANSWER line" });
+  }
+
+  return finalize(entries, errors);
+};
+
+const unescapeGift = (text: string) => text.replace(/\\([:~=#{}\\n])/g, (_, c) => (c === "n" ? "\n" : c));
+
+// Index of the first unescaped occurrence of one of `chars`
+const findUnescaped = (text: string, chars: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (chars.includes(text[i])) return i;
+  }
+  return -1;
+};
+
+const parseGiftAnswers = (
+  body: string,
+  question: string
+): ParsedEntry["question"] | string => {
+  const trimmed = body.trim();
+
+  const trueFalse = trimmed.match(/^(T|TRUE|F|FALSE)\s*(#.*)?$/is);
+  if (trueFalse) {
+    return {
+      question,
+      answers: ["True", "False"],
+      correct: trueFalse[1].toUpperCase().startsWith("T") ? "True" : "False",
+    };
+  }
+
+  if (trimmed.startsWith("#")) {
+    // "#value" or "#value:tolerance", before any "#feedback"
+    const [value, tolerance] = trimmed.slice(1).split("#")[0].split(":").map((s) => s.trim());
+    const number = /^-?\d+(\.\d+)?$/;
+    if (!number.test(value) || (tolerance !== undefined && !number.test(tolerance))) {
+      return "only single numeric answers are supported";
+    }
+    return {
+      question,
+      kind: "text",
+      answers: [],
+      correct: value,
+      answerFormat: "number",
+      ...(Number(tolerance) > 0 && { tolerance: Number(tolerance) }),
+    };
+  }
+
+  const choices: Array<{ marker: string; text: string; weight: number | null }> = [];
+  let start = findUnescaped(trimmed, "=~");
+  if (start < 0) return "no answers found";
+
+  while (start >= 0) {
+    const next = findUnescaped(trimmed, "=~", start + 1);
+    let text = trimmed.slice(start + 1, next < 0 ? undefined : next);
+    const feedback = findUnescaped(text, "#");
+    if (feedback >= 0) text = text.slice(0, feedback);
+    if (text.includes("->")) return "matching questions are not supported";
+
+    const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weight) text = text.slice(weight[0].length);
+
+    choices.push({
+      marker: trimmed[start],
+      text: unescapeGift(text.trim()),
+      weight: weight ? Number(weight[1]) : null,
+    });
+    start = next;
+  }
+
+  const correct = choices.filter((c) =>
+    c.weight === null ? c.marker === "=" : c.weight > 0
+  );
+
+  // Only "=" answers: a short answer question
+  if (choices.every((c) => c.marker === "=")) {
+    const [first, ...rest] = choices.map((c) => c.text);
+    return { question, kind: "text", answers: [], correct: first, acceptedAnswers: rest };
+  }
+
+  const answers = choices.map((c) => c.text);
+  const isMultiple = choices.some((c) => c.weight !== null);
+  return {
+    question,
+    ...(isMultiple && { kind: "multiple" as const }),
+    answers,
+    correct: isMultiple ? correct.map((c) => c.text) : correct[0]?.text ?? "",
+  };
+};
+
+// Moodle GIFT: multiple choice, true/false, short answer and exact numeric questions
+const parseGift = (text: string): ImportResult => {
+  const errors: ImportError[] = [];
+  const entries: ParsedEntry[] = [];
+  const blocks: Array<{ line: number; text: string }> = [];
+  let block: { line: number; text: string } | null = null;
+
+  // Questions are separated by blank lines
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    if (raw.trim().startsWith("//")) continue;
+    if (!raw.trim()) {
+      block = null;
+    } else if (block) {
+      block.text += `\n${raw}`;
+    } else {
+      block = { line: index + 1, text: raw };
+      blocks.push(block);
+    }
+  }
+
+  for (const { line, text: block } of blocks) {
+    if (/^\$CATEGORY:/i.test(block.trim())) continue;
+
+    const source = block.trim().replace(/^::(?:\\.|[^:])*::/, "");
+    const open = findUnescaped(source, "{");
+    const close = open < 0 ? -1 : findUnescaped(source, "}", open);
+    if (open < 0 || close < 0) {
+      errors.push({ line, message: "no answers in { } found" });
+      continue;
+    }
+
+    const after = source.slice(close + 1).trim();
+    const question = unescapeGift(
+      (source.slice(0, open).trim() + (after ? ` _____ ${after}` : ""))
+        .replace(/^\[(html|moodle|plain|markdown)\]/, "")
+        .trim()
+    );
+
+    const parsed = parseGiftAnswers(source.slice(open + 1, close), question);
+    if (typeof parsed === "string") {
+      errors.push({ line, message: parsed });
+    } else {
+      entries.push({ line, question: parsed });
+    }
+  }
+
+  return finalize(entries, errors);
+};
+
+export const parseImportedBank = (text: string, format: BankFormat): ImportResult => {
+  const content = text.replace(/^\uFEFF/, "");
+
+  switch (format) {
+    case "json":
+      return parseJson(content);
+    case "csv":
+      return parseCsv(content);
+    case "aiken":
+      return parseAiken(content);
+    default:
+      return parseGift(content);
+  }
+};
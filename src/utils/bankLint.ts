@@ -0,0 +1,208 @@
+import { Question } from "../types";
+import {
+  checkBankPairing,
+  duplicateKey,
+  parseQuestionBank,
+} from "./questionBank";
+import { TRANSLATION_MISMATCHES, checkTranslationMismatches } from "./translation";
+
+export type LintRule =
+  | "bom"
+  | "encoding"
+  | "invalid-json"
+  | "invalid-question"
+  | "duplicate-id"
+  | "duplicate"
+  | "near-duplicate"
+  | "missing-translation"
+  | "translation-mismatch"
+  | "missing-entry";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  file: string;
+  index?: number; // position of the entry in the file
+  id?: string;
+  question?: string;
+  message: string;
+}
+
+export interface LintedBank {
+  file: string;
+  questions: Question[];
+  issues: LintIssue[];
+}
+
+// Warnings are worth a look but do not break the app or main.py
+const RULE_SEVERITY: Record<LintRule, LintSeverity> = {
+  bom: "warning",
+  encoding: "error",
+  "invalid-json": "error",
+  "invalid-question": "error",
+  "duplicate-id": "error",
+  duplicate: "error",
+  "near-duplicate": "warning",
+  "missing-translation": "error",
+  "translation-mismatch": "error",
+  "missing-entry": "warning",
+};
+
+// Character trigram similarity above which two questions are reported as near
+// duplicates. True/false banks ask about the same statement with one word
+// changed on purpose, so these are only warnings to review by hand
+export const NEAR_DUPLICATE_THRESHOLD = 0.92;
+
+// UTF-8 text decoded as Latin-1/Windows-1252 ("È™" for "ș", "Ã®" for "î")
+const MOJIBAKE =
+  /\u00C3[\u0080-\u00BF]|\u00C8[\u0098-\u009B\u02DC\u2122\u0161\u203A]|\u00C4[\u0082\u0083\u201A\u0192]|\u00C5[\u009E\u009F\u017E\u0178]/;
+
+const issue = (
+  rule: LintRule,
+  file: string,
+  message: string,
+  entry: Partial<Pick<LintIssue, "index" | "id" | "question">> = {}
+): LintIssue => ({ rule, severity: RULE_SEVERITY[rule], file, ...entry, message });
+
+const trigrams = (text: string) => {
+  const padded = ` ${duplicateKey(text)} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+// Dice coefficient of the two trigram sets, from 0 (nothing shared) to 1
+const similarity = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  for (const gram of a) if (b.has(gram)) shared++;
+  return (2 * shared) / (a.size + b.size);
+};
+
+const findDuplicates = (file: string, questions: Question[], indexes: number[]) => {
+  const issues: LintIssue[] = [];
+  const firstById = new Map<string, number>();
+  const firstByKey = new Map<string, number>();
+
+  questions.forEach((q, i) => {
+    const entry = { index: indexes[i], id: q.id, question: q.question };
+    const key = duplicateKey(q.question);
+    const sameText = firstByKey.get(key);
+    const sameId = firstById.get(q.id);
+
+    if (sameText !== undefined) {
+      issues.push(issue("duplicate", file, `same question as entry ${indexes[sameText]}`, entry));
+    } else {
+      firstByKey.set(key, i);
+      // Entries without an id are keyed by a hash of their text, so a
+      // duplicate text already explains a duplicate id
+      if (sameId !== undefined) {
+        issues.push(issue("duplicate-id", file, `id is also used by entry ${indexes[sameId]}`, entry));
+      }
+    }
+    if (sameId === undefined) firstById.set(q.id, i);
+  });
+
+  // Exact duplicates are already reported, so only distinct texts are compared
+  const distinct = [...firstByKey.values()].map((i) => ({ i, grams: trigrams(questions[i].question) }));
+  for (let a = 0; a < distinct.length; a++) {
+    for (let b = a + 1; b < distinct.length; b++) {
+      const [x, y] = [distinct[a].grams, distinct[b].grams];
+      // The score can't reach the threshold when the sizes are too far apart
+      if (2 * Math.min(x.size, y.size) < NEAR_DUPLICATE_THRESHOLD * (x.size + y.size)) continue;
+      const score = similarity(x, y);
+      if (score >= NEAR_DUPLICATE_THRESHOLD) {
+        const q = questions[distinct[b].i];
+        issues.push(
+          issue(
+            "near-duplicate",
+            file,
+            `${Math.round(score * 100)}% similar to entry ${indexes[distinct[a].i]}`,
+            { index: indexes[distinct[b].i], id: q.id, question: q.question }
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+};
+
+// Encoding, JSON and per entry problems of one bank file, parsed the way the app parses it
+export const lintBankFile = (file: string, text: string): LintedBank => {
+  const issues: LintIssue[] = [];
+
+  if (text.startsWith("\uFEFF")) {
+    issues.push(
+      issue("bom", file, "file starts with a UTF-8 byte order mark; main.py reads it with utf-8-sig but other JSON tools may reject it")
+    );
+  }
+  if (text.includes("\uFFFD")) {
+    issues.push(issue("encoding", file, "file contains U+FFFD replacement characters, it was not saved as UTF-8"));
+  }
+  const mojibake = text.match(MOJIBAKE);
+  if (mojibake) {
+    issues.push(issue("encoding", file, `"${mojibake[0]}" looks like UTF-8 text decoded as Latin-1`));
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch (error) {
+    issues.push(issue("invalid-json", file, (error as Error).message));
+    return { file, questions: [], issues };
+  }
+
+  let parsed: ReturnType<typeof parseQuestionBank>;
+  try {
+    parsed = parseQuestionBank(raw);
+  } catch (error) {
+    issues.push(issue("invalid-json", file, (error as Error).message));
+    return { file, questions: [], issues };
+  }
+
+  const entries = raw as { question?: unknown }[];
+  for (const { index, id, message } of parsed.errors) {
+    const text = entries[index]?.question;
+    issues.push(
+      issue("invalid-question", file, message, {
+        index,
+        id,
+        question: typeof text === "string" ? text : undefined,
+      })
+    );
+  }
+
+  // Positions in the file of the entries that passed validation
+  const invalid = new Set(parsed.errors.map((e) => e.index));
+  const indexes = entries.map((_, i) => i).filter((i) => !invalid.has(i));
+  issues.push(...findDuplicates(file, parsed.questions, indexes));
+
+  return { file, questions: parsed.questions, issues };
+};
+
+// RO/EN entries without a counterpart or whose versions disagree
+export const lintTranslations = (ro: LintedBank, en: LintedBank): LintIssue[] => [
+  ...checkBankPairing(ro.questions, en.questions)
+    // Reported per file by lintBankFile
+    .filter((p) => p.problem !== "duplicate-id")
+    .map(({ id, problem, question }) =>
+      problem === "missing-en"
+        ? issue("missing-translation", ro.file, `no entry with this id in ${en.file}`, { id, question })
+        : issue("missing-translation", en.file, `no entry with this id in ${ro.file}`, { id, question })
+    ),
+  ...checkTranslationMismatches(ro.questions, en.questions).map(({ id, problem, question }) =>
+    issue("translation-mismatch", ro.file, TRANSLATION_MISMATCHES[problem], { id, question })
+  ),
+];
+
+// Entries of `bank` missing from `reference`, matched by id (or text hash)
+export const lintMissingEntries = (bank: LintedBank, reference: LintedBank): LintIssue[] => {
+  const ids = new Set(reference.questions.map((q) => q.id));
+  return bank.questions
+    .filter((q) => !ids.has(q.id))
+    .map((q) =>
+      issue("missing-entry", bank.file, `not in ${reference.file}`, { id: q.id, question: q.question })
+    );
+};
@@ -0,0 +1,343 @@
+import { GeneratedProblem, Language, SolutionTable } from "../types";
+import {
+  BankerState,
+  SafetyResult,
+  checkSafety,
+  needMatrix,
+  reduceAllocation,
+  safeSequences,
+} from "./deadlockSimulator";
+import { Random, answerOptions, pickOne, randomInt, shuffled } from "./random";
+import { formatCodeTable } from "./text";
+
+const RESOURCES = ["A", "B", "C"];
+
+const TEXT = {
+  en: {
+    bankerIntro: (processes: number) =>
+      `A system uses the Banker's algorithm for ${processes} processes and resource types A, B and C:`,
+    available: (available: string) => `Available: ${available}.`,
+    safeQuestion: "Is the system in a safe state?",
+    safe: "Yes, the state is safe",
+    unsafe: "No, the state is unsafe",
+    sequenceQuestion:
+      "The state is safe. Give a safe sequence, with the processes separated by commas, e.g. P1, P2, P3.",
+    bankerRule:
+      "Need = Max − Allocation. A state is safe when the processes can finish one by one: a process whose Need fits in Work (the available resources) finishes and releases its Allocation into Work.",
+    safeResult: (sequence: string) => `The state is **safe**; one safe sequence is **${sequence}**.`,
+    unsafeResult: (stuck: string) =>
+      `The state is **unsafe**: the Need of ${stuck} never fits in Work.`,
+    sequenceResult: (sequence: string, count: number) =>
+      `For example **${sequence}**; ${count} different orders are safe.`,
+    ragIntro: (resources: number) =>
+      `A system has ${resources} resources R1–R${resources}, with one instance each. The processes hold and request them as follows:`,
+    holds: (resources: string) => `holds ${resources}`,
+    requests: (resource: string) => `requests ${resource}`,
+    nothing: "holds nothing",
+    ragQuestion: "Which processes are deadlocked?",
+    none: "None",
+    ragRule:
+      "Reduce the resource allocation graph: a process whose requested resource is free can finish and releases what it holds. The processes that can never finish are deadlocked.",
+    deadlockResult: (processes: string) => `**${processes}** can never finish, so they are deadlocked.`,
+    noDeadlockResult: "Every process can finish, so there is **no deadlock**.",
+    process: "Process",
+    allocation: "Allocation",
+    max: "Max",
+    need: "Need",
+    step: "Step",
+    work: "Work",
+    workAfter: "Work + Allocation",
+    holdsColumn: "Holds",
+    requestsColumn: "Requests",
+    free: "Free",
+    needCaption: "Need = Max − Allocation",
+    safetyCaption: "Safety check",
+    reductionCaption: "Graph reduction",
+    stuckNote: "Highlighted processes can never finish.",
+    and: "and",
+  },
+  ro: {
+    bankerIntro: (processes: number) =>
+      `Un sistem foloseste algoritmul bancherului pentru ${processes} procese si resursele de tip A, B si C:`,
+    available: (available: string) => `Disponibil (Available): ${available}.`,
+    safeQuestion: "Este sistemul intr-o stare sigura?",
+    safe: "Da, starea este sigura",
+    unsafe: "Nu, starea este nesigura",
+    sequenceQuestion:
+      "Starea este sigura. Dati o secventa sigura, cu procesele separate prin virgula, de ex. P1, P2, P3.",
+    bankerRule:
+      "Need = Max − Allocation. O stare este sigura daca procesele se pot termina unul cate unul: un proces al carui Need incape in Work (resursele disponibile) se termina si elibereaza in Work resursele alocate.",
+    safeResult: (sequence: string) => `Starea este **sigura**; o secventa sigura este **${sequence}**.`,
+    unsafeResult: (stuck: string) =>
+      `Starea este **nesigura**: Need pentru ${stuck} nu incape niciodata in Work.`,
+    sequenceResult: (sequence: string, count: number) =>
+      `De exemplu **${sequence}**; sunt ${count} ordini sigure diferite.`,
+    ragIntro: (resources: number) =>
+      `Un sistem are ${resources} resurse R1–R${resources}, cu cate o instanta. Procesele le detin si le cer astfel:`,
+    holds: (resources: string) => `detine ${resources}`,
+    requests: (resource: string) => `cere ${resource}`,
+    nothing: "nu detine nimic",
+    ragQuestion: "Care procese sunt in impas (deadlock)?",
+    none: "Niciunul",
+    ragRule:
+      "Se reduce graful de alocare a resurselor: un proces a carui resursa ceruta este libera se poate termina si elibereaza ce detine. Procesele care nu se pot termina niciodata sunt in impas.",
+    deadlockResult: (processes: string) => `**${processes}** nu se pot termina niciodata, deci sunt in impas.`,
+    noDeadlockResult: "Toate procesele se pot termina, deci **nu exista impas**.",
+    process: "Proces",
+    allocation: "Allocation",
+    max: "Max",
+    need: "Need",
+    step: "Pas",
+    work: "Work",
+    workAfter: "Work + Allocation",
+    holdsColumn: "Detine",
+    requestsColumn: "Cere",
+    free: "Libere",
+    needCaption: "Need = Max − Allocation",
+    safetyCaption: "Verificarea sigurantei",
+    reductionCaption: "Reducerea grafului",
+    stuckNote: "Procesele evidentiate nu se pot termina niciodata.",
+    and: "si",
+  },
+};
+
+const processName = (p: number) => `P${p + 1}`;
+
+const formatVector = (vector: number[]) => vector.join(" ");
+
+// "R1, R2 and R3"
+const listNames = (names: string[], and: string) =>
+  names.length > 1 ? `${names.slice(0, -1).join(", ")} ${and} ${names[names.length - 1]}` : names[0];
+
+const formatSequence = (sequence: number[]) => sequence.map(processName).join(", ");
+
+const generateBankerState = (random: Random): BankerState => {
+  const processes = randomInt(random, 4, 5);
+  const max = Array.from({ length: processes }, () =>
+    RESOURCES.map(() => randomInt(random, 0, 7))
+  );
+  const allocation = max.map((row) => row.map((value) => randomInt(random, 0, value)));
+  const available = RESOURCES.map(() => randomInt(random, 0, 4));
+  // No process may claim more than the system has
+  const total = available.map((value, r) => value + allocation.reduce((sum, row) => sum + row[r], 0));
+  return { allocation, max: max.map((row) => row.map((value, r) => Math.min(value, total[r]))), available };
+};
+
+const safetySteps = (
+  safety: SafetyResult,
+  allocation: number[][],
+  need: number[][],
+  language: Language
+): SolutionTable => {
+  const text = TEXT[language];
+  const stuck = allocation.map((_, p) => p).filter((p) => !safety.steps.some((s) => s.process === p));
+  return {
+    caption: text.safetyCaption,
+    columns: [text.step, text.process, text.work, text.need, text.workAfter],
+    rows: [
+      ...safety.steps.map((step, i) => [
+        String(i + 1),
+        processName(step.process),
+        formatVector(step.work),
+        formatVector(need[step.process]),
+        formatVector(step.work.map((value, r) => value + allocation[step.process][r])),
+      ]),
+      ...stuck.map((p) => ["-", processName(p), formatVector(safety.work), formatVector(need[p]), ""]),
+    ],
+    highlightedRows: stuck.map((_, i) => safety.steps.length + i),
+    note: stuck.length ? text.stuckNote : undefined,
+  };
+};
+
+export const bankerProblem = (random: Random, language: Language): GeneratedProblem => {
+  const text = TEXT[language];
+  const wantSafe = random() < 0.6;
+  const askSequence = wantSafe && random() < 0.5;
+
+  // Retry until the state is as safe as wanted, and not trivially so: some
+  // processes finish before an unsafe state gets stuck, and a safe state does
+  // not allow almost any order
+  let state = generateBankerState(random);
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const { safe, steps } = checkSafety(state);
+    const interesting = safe ? safeSequences(state).length < 24 : steps.length >= 2;
+    if (safe === wantSafe && interesting) break;
+    state = generateBankerState(random);
+  }
+
+  const need = needMatrix(state);
+  const safety = checkSafety(state);
+  const sequences = safety.safe ? safeSequences(state) : [];
+  const sequence = formatSequence(safety.steps.map((step) => step.process));
+  const stuck = state.allocation
+    .map((_, p) => p)
+    .filter((p) => !safety.steps.some((step) => step.process === p));
+
+  const matrices = formatCodeTable(
+    [text.process, text.allocation, text.max],
+    state.allocation.map((row, p) => [processName(p), formatVector(row), formatVector(state.max[p])]),
+    3
+  );
+  const question = [
+    text.bankerIntro(state.allocation.length),
+    matrices,
+    text.available(formatVector(state.available)),
+  ];
+  const explanation = [
+    text.bankerRule,
+    safety.safe ? text.safeResult(sequence) : text.unsafeResult(stuck.map(processName).join(", ")),
+  ];
+  const solution = {
+    tables: [
+      {
+        caption: text.needCaption,
+        columns: [text.process, text.allocation, text.max, text.need],
+        rows: state.allocation.map((row, p) => [
+          processName(p),
+          formatVector(row),
+          formatVector(state.max[p]),
+          formatVector(need[p]),
+        ]),
+      },
+      safetySteps(safety, state.allocation, need, language),
+    ],
+  };
+
+  if (askSequence && safety.safe) {
+    const others = sequences.map(formatSequence).filter((s) => s !== sequence);
+    return {
+      kind: "text",
+      markdown: true,
+      question: [...question, text.sequenceQuestion].join("\n\n"),
+      answers: [],
+      correct: sequence,
+      ...(others.length && { acceptedAnswers: others }),
+      answerFormat: "list",
+      explanation: [text.bankerRule, text.sequenceResult(sequence, sequences.length)].join(" "),
+      solution,
+    };
+  }
+
+  return {
+    kind: "single",
+    markdown: true,
+    question: [...question, text.safeQuestion].join("\n\n"),
+    answers: [text.safe, text.unsafe],
+    correct: safety.safe ? text.safe : text.unsafe,
+    explanation: explanation.join(" "),
+    solution,
+  };
+};
+
+// Single instance resources: every process holds a few and waits for at most one
+const generateGraph = (random: Random, processes: number, resources: number) => {
+  const holder = Array.from({ length: resources }, () =>
+    random() < 0.85 ? randomInt(random, 0, processes - 1) : null
+  );
+  const waitsFor = Array.from({ length: processes }, (_, p) => {
+    const others = holder.flatMap((h, r) => (h !== p ? [r] : []));
+    return others.length && random() < 0.75 ? pickOne(random, others) : null;
+  });
+  return { holder, waitsFor };
+};
+
+export const resourceGraphProblem = (random: Random, language: Language): GeneratedProblem => {
+  const text = TEXT[language];
+  const processes = randomInt(random, 3, 4);
+  const resources = randomInt(random, 3, 4);
+  const wantDeadlock = random() < 0.6;
+
+  let graph = generateGraph(random, processes, resources);
+  let deadlocked: number[] = [];
+  let reduction = {} as SafetyResult;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    // One column per resource, so the Banker's reduction applies unchanged
+    const allocation = Array.from({ length: processes }, (_, p) =>
+      graph.holder.map((h) => (h === p ? 1 : 0))
+    );
+    const request = graph.waitsFor.map((wanted) =>
+      graph.holder.map((_, r) => (r === wanted ? 1 : 0))
+    );
+    const available = graph.holder.map((h) => (h === null ? 1 : 0));
+    reduction = reduceAllocation(allocation, request, available);
+    deadlocked = allocation
+      .map((_, p) => p)
+      .filter((p) => !reduction.steps.some((step) => step.process === p));
+    if (deadlocked.length > 0 === wantDeadlock) break;
+    graph = generateGraph(random, processes, resources);
+  }
+
+  const resourceName = (r: number) => `R${r + 1}`;
+  const held = (p: number) => graph.holder.flatMap((h, r) => (h === p ? [resourceName(r)] : []));
+  const describe = (p: number) => {
+    const holds = held(p);
+    const wanted = graph.waitsFor[p];
+    return [
+      holds.length ? text.holds(listNames(holds, text.and)) : text.nothing,
+      wanted === null ? "" : text.requests(resourceName(wanted)),
+    ]
+      .filter(Boolean)
+      .join(", ");
+  };
+  const formatSet = (set: number[]) => (set.length ? set.map(processName).join(", ") : text.none);
+
+  const correct = formatSet(deadlocked);
+  // Plausible mistakes: only part of the cycle, everyone who waits, or nobody
+  const waiting = graph.waitsFor.flatMap((wanted, p) => (wanted === null ? [] : [p]));
+  const answers = answerOptions(
+    random,
+    correct,
+    [formatSet([]), formatSet(waiting), formatSet(deadlocked.slice(0, -1))],
+    () =>
+      formatSet(
+        shuffled(random, [...Array(processes).keys()])
+          .slice(0, randomInt(random, 1, processes))
+          .sort((a, b) => a - b)
+      )
+  );
+
+  const freeBefore = (work: number[]) =>
+    work.flatMap((value, r) => (value ? [resourceName(r)] : [])).join(", ") || "-";
+  const rows = [
+    ...reduction.steps.map((step, i) => [
+      String(i + 1),
+      processName(step.process),
+      held(step.process).join(", ") || "-",
+      graph.waitsFor[step.process] === null ? "-" : resourceName(graph.waitsFor[step.process]!),
+      freeBefore(step.work),
+    ]),
+    ...deadlocked.map((p) => [
+      "-",
+      processName(p),
+      held(p).join(", ") || "-",
+      resourceName(graph.waitsFor[p]!),
+      freeBefore(reduction.work),
+    ]),
+  ];
+
+  return {
+    kind: "single",
+    question: [
+      text.ragIntro(resources),
+      ...Array.from({ length: processes }, (_, p) => `${processName(p)} ${describe(p)}.`),
+      text.ragQuestion,
+    ].join(" "),
+    answers,
+    correct,
+    explanation: [
+      text.ragRule,
+      deadlocked.length ? text.deadlockResult(correct) : text.noDeadlockResult,
+    ].join(" "),
+    solution: {
+      tables: [
+        {
+          caption: text.reductionCaption,
+          columns: [text.step, text.process, text.holdsColumn, text.requestsColumn, text.free],
+          rows,
+          highlightedRows: deadlocked.map((_, i) => reduction.steps.length + i),
+          note: deadlocked.length ? text.stuckNote : undefined,
+        },
+      ],
+    },
+  };
+};
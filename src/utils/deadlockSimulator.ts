@@ -0,0 +1,84 @@
+// Banker's algorithm and deadlock detection, used to solve the generated
+// deadlock problems. Rows are processes, columns are resource types
+
+export interface BankerState {
+  allocation: number[][];
+  max: number[][];
+  available: number[];
+}
+
+export interface SafetyStep {
+  process: number;
+  work: number[]; // available before the process finishes and releases its resources
+}
+
+export interface SafetyResult {
+  safe: boolean;
+  steps: SafetyStep[]; // processes that can finish, in order
+  work: number[]; // available at the end
+}
+
+const add = (a: number[], b: number[]) => a.map((value, i) => value + b[i]);
+
+const fits = (request: number[], work: number[]) => request.every((value, i) => value <= work[i]);
+
+export const needMatrix = ({ allocation, max }: BankerState) =>
+  max.map((row, p) => row.map((value, r) => value - allocation[p][r]));
+
+// Repeatedly let the lowest numbered process whose request fits finish and
+// release what it holds. Banker's safety check passes the Need matrix; deadlock
+// detection passes the outstanding requests, and whoever is left is deadlocked
+export const reduceAllocation = (
+  allocation: number[][],
+  request: number[][],
+  available: number[]
+): SafetyResult => {
+  const finished = allocation.map(() => false);
+  const steps: SafetyStep[] = [];
+  let work = [...available];
+
+  for (;;) {
+    const process = finished.findIndex((done, p) => !done && fits(request[p], work));
+    if (process < 0) break;
+    steps.push({ process, work });
+    work = add(work, allocation[process]);
+    finished[process] = true;
+  }
+
+  return { safe: finished.every(Boolean), steps, work };
+};
+
+export const checkSafety = (state: BankerState) =>
+  reduceAllocation(state.allocation, needMatrix(state), state.available);
+
+// Every order in which all processes can finish, as lists of process indexes
+export const safeSequences = (state: BankerState, limit = 1000) => {
+  const need = needMatrix(state);
+  const sequences: number[][] = [];
+
+  const extend = (sequence: number[], work: number[]) => {
+    if (sequences.length >= limit) return;
+    if (sequence.length === need.length) {
+      sequences.push(sequence);
+      return;
+    }
+    need.forEach((row, p) => {
+      if (!sequence.includes(p) && fits(row, work)) {
+        extend([...sequence, p], add(work, state.allocation[p]));
+      }
+    });
+  };
+
+  extend([], state.available);
+  return sequences;
+};
+
+// Processes that can never finish
+export const detectDeadlock = (
+  allocation: number[][],
+  request: number[][],
+  available: number[]
+) => {
+  const { steps } = reduceAllocation(allocation, request, available);
+  return allocation.map((_, p) => p).filter((p) => !steps.some((step) => step.process === p));
+};
@@ -0,0 +1,174 @@
+import { AnswerEvent, Question, Session } from "../types";
+
+// Rasch (one parameter IRT) model fitted online, Elo style: every answer
+// nudges the user's ability and the question's difficulty towards the result.
+// Both live on the same logit scale, where ability - difficulty = 0 means a
+// 50% chance of a correct answer.
+export interface ItemDifficulty {
+  difficulty: number;
+  answers: number;
+}
+
+export interface DifficultyModel {
+  ability: number;
+  answers: number;
+  items: Map<string, ItemDifficulty>;
+}
+
+export type DifficultyLevel = "easy" | "medium" | "hard";
+
+export interface AbilityEstimate {
+  ability: number;
+  standardError: number;
+}
+
+// Percent of the questions expected to be answered correctly
+export interface ScoreEstimate {
+  score: number;
+  low: number; // 95% confidence interval
+  high: number;
+}
+
+// Step sizes shrink as evidence builds up, so early answers move the
+// estimates quickly and later ones only fine-tune them
+const ITEM_STEP = 0.6;
+const USER_STEP = 0.3;
+const MIN_USER_STEP = 0.05;
+
+// Answers needed before a question gets a difficulty badge
+const MIN_RATED_ANSWERS = 2;
+const LEVEL_THRESHOLD = 0.5;
+
+// Prior spread of the ability within an adaptive test, around the ability
+// from earlier answers
+const PRIOR_SD = 1;
+
+// The next adaptive question is picked at random among this many closest to
+// the ability, so repeated tests don't always ask the same questions
+const CANDIDATE_POOL = 5;
+
+const Z_95 = 1.96;
+
+export const probabilityCorrect = (ability: number, difficulty: number) =>
+  1 / (1 + Math.exp(difficulty - ability));
+
+export const buildDifficultyModel = (events: AnswerEvent[]): DifficultyModel => {
+  const model: DifficultyModel = { ability: 0, answers: 0, items: new Map() };
+
+  for (const event of [...events].sort((a, b) => a.timestamp - b.timestamp)) {
+    const item = model.items.get(event.questionId) ?? { difficulty: 0, answers: 0 };
+    const surprise = (event.correct ? 1 : 0) - probabilityCorrect(model.ability, item.difficulty);
+
+    model.ability += Math.max(MIN_USER_STEP, USER_STEP / Math.sqrt(1 + model.answers / 10)) * surprise;
+    model.answers++;
+    model.items.set(event.questionId, {
+      difficulty: item.difficulty - (ITEM_STEP / Math.sqrt(1 + item.answers)) * surprise,
+      answers: item.answers + 1,
+    });
+  }
+
+  return model;
+};
+
+// Questions never answered start at the average difficulty
+export const getDifficulty = (model: DifficultyModel, questionId: string) =>
+  model.items.get(questionId)?.difficulty ?? 0;
+
+// null until the question has been answered often enough to tell
+export const getDifficultyLevel = (
+  model: DifficultyModel,
+  questionId: string
+): DifficultyLevel | null => {
+  const item = model.items.get(questionId);
+  if (!item || item.answers < MIN_RATED_ANSWERS) return null;
+  if (item.difficulty < -LEVEL_THRESHOLD) return "easy";
+  if (item.difficulty > LEVEL_THRESHOLD) return "hard";
+  return "medium";
+};
+
+// Posterior mean and spread of the ability given a set of answers (EAP on a
+// grid), with a normal prior
+export const estimateAbility = (
+  responses: { difficulty: number; correct: boolean }[],
+  prior: { mean: number; sd: number }
+): AbilityEstimate => {
+  const grid = Array.from({ length: 241 }, (_, i) => prior.mean - 6 + i * 0.05);
+  const logPosterior = grid.map(
+    (ability) =>
+      -((ability - prior.mean) ** 2) / (2 * prior.sd ** 2) +
+      responses.reduce((sum, { difficulty, correct }) => {
+        const p = probabilityCorrect(ability, difficulty);
+        return sum + Math.log(correct ? p : 1 - p);
+      }, 0)
+  );
+
+  const max = Math.max(...logPosterior);
+  const weights = logPosterior.map((value) => Math.exp(value - max));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const mean = grid.reduce((sum, ability, i) => sum + ability * weights[i], 0) / total;
+  const variance =
+    grid.reduce((sum, ability, i) => sum + (ability - mean) ** 2 * weights[i], 0) / total;
+
+  return { ability: mean, standardError: Math.sqrt(variance) };
+};
+
+// Expected score over a whole pool of questions; the interval comes from the
+// ability's, since the expected score grows with the ability
+export const estimateScore = (
+  estimate: AbilityEstimate,
+  pool: Question[],
+  model: DifficultyModel
+): ScoreEstimate => {
+  const expected = (ability: number) =>
+    pool.length
+      ? (pool.reduce(
+          (sum, q) => sum + probabilityCorrect(ability, getDifficulty(model, q.id)),
+          0
+        ) /
+          pool.length) *
+        100
+      : 0;
+
+  const margin = Z_95 * estimate.standardError;
+  return {
+    score: expected(estimate.ability),
+    low: expected(estimate.ability - margin),
+    high: expected(estimate.ability + margin),
+  };
+};
+
+// The model and ability within an adaptive session. The session's own answers
+// are left out of the model so they are not counted twice
+export const getSessionAbility = (session: Session, events: AnswerEvent[]) => {
+  const model = buildDifficultyModel(events.filter((e) => e.sessionId !== session.id));
+  const estimate = estimateAbility(
+    (session.answers ?? []).map((answer) => ({
+      difficulty: getDifficulty(model, answer.questionId),
+      correct: answer.correct,
+    })),
+    { mean: model.ability, sd: PRIOR_SD }
+  );
+  return { model, estimate };
+};
+
+// A question close to the ability, where an answer tells the most about it
+export const pickAdaptiveQuestion = (
+  pool: Question[],
+  model: DifficultyModel,
+  ability: number,
+  askedIds: string[]
+): Question | undefined => {
+  const asked = new Set(askedIds);
+  const closest = pool
+    .filter((q) => !asked.has(q.id))
+    .map((q) => ({
+      q,
+      distance: Math.abs(getDifficulty(model, q.id) - ability),
+      // Unanswered questions all tie at the average difficulty
+      tieBreak: Math.random(),
+    }))
+    .sort((a, b) => a.distance - b.distance || a.tieBreak - b.tieBreak)
+    .slice(0, CANDIDATE_POOL);
+
+  return closest[Math.floor(Math.random() * closest.length)]?.q;
+};
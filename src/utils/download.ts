@@ -0,0 +1,13 @@
+// Save generated text as a file through a temporary link
+export const downloadFile = (
+  filename: string,
+  content: string,
+  type = "application/json"
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
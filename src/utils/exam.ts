@@ -0,0 +1,97 @@
+import {
+  AnswerValue,
+  ExamSettings,
+  MultiScoring,
+  Question,
+  Session,
+} from "../types";
+import { getQuestionKind, gradeAnswer, hasResponse } from "./scoring";
+
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = {
+  questionCount: 50,
+  timeLimitMinutes: 60,
+  passMark: 50,
+  negativeMarking: false,
+};
+
+export interface ExamItem {
+  position: number;
+  question: Question;
+  response: AnswerValue | undefined;
+  credit: number;
+  penalty: number;
+}
+
+export interface ExamResult {
+  items: ExamItem[];
+  score: number;
+  maxScore: number;
+  percentage: number;
+  passed: boolean;
+  correct: number;
+  wrong: number;
+  unanswered: number;
+  penalty: number;
+}
+
+// Penalty that cancels out the expected gain of guessing: 1 / (options - 1),
+// so a wrong True/False guess costs a full point
+const guessPenalty = (question: Question) =>
+  getQuestionKind(question) === "single" && question.answers.length > 1
+    ? 1 / (question.answers.length - 1)
+    : 0;
+
+export const gradeExam = (
+  session: Session,
+  questionsById: Map<string, Question>,
+  scoring: MultiScoring
+): ExamResult => {
+  const exam = session.exam!;
+  const items: ExamItem[] = session.questionIds.flatMap((id, position) => {
+    const question = questionsById.get(id);
+    if (!question) return [];
+
+    const response = exam.responses[position];
+    const answered = response !== undefined && hasResponse(response);
+    const credit = answered ? gradeAnswer(question, response, scoring) : 0;
+    const penalty =
+      answered && credit === 0 && exam.negativeMarking
+        ? guessPenalty(question)
+        : 0;
+
+    return [{ position, question, response: answered ? response : undefined, credit, penalty }];
+  });
+
+  const maxScore = items.length;
+  const penalty = items.reduce((sum, item) => sum + item.penalty, 0);
+  const score = Math.max(
+    0,
+    items.reduce((sum, item) => sum + item.credit, 0) - penalty
+  );
+  const percentage = maxScore ? (score / maxScore) * 100 : 0;
+
+  return {
+    items,
+    score,
+    maxScore,
+    percentage,
+    passed: percentage >= exam.passMark,
+    correct: items.filter((item) => item.credit === 1).length,
+    wrong: items.filter((item) => item.response !== undefined && item.credit < 1)
+      .length,
+    unanswered: items.filter((item) => item.response === undefined).length,
+    penalty,
+  };
+};
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  return hours
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+};
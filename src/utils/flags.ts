@@ -0,0 +1,68 @@
+import { FlagReason, Language, Question, QuestionFlag } from "../types";
+import { formatResponse, getCorrectAnswers } from "./scoring";
+
+export const FLAG_REASONS: Record<FlagReason, string> = {
+  "wrong-key": "Wrong answer key",
+  "bad-translation": "Bad translation",
+  ambiguous: "Ambiguous wording",
+};
+
+export interface FlagReportEntry {
+  id: string;
+  reason: FlagReason;
+  note: string;
+  flaggedAt: string;
+  ro: { question: string; answers: string[]; correct: string } | null;
+  en: { question: string; answers: string[]; correct: string } | null;
+}
+
+const describe = (question: Question | undefined) =>
+  question
+    ? {
+        question: question.question,
+        answers: question.answers,
+        correct: formatResponse(getCorrectAnswers(question)),
+      }
+    : null;
+
+// One entry per flag with both language versions, for sending to the bank maintainer
+export const buildFlagReport = (
+  flags: QuestionFlag[],
+  banks: Record<Language, Question[]>
+): FlagReportEntry[] => {
+  const ro = new Map(banks.ro.map((q) => [q.id, q]));
+  const en = new Map(banks.en.map((q) => [q.id, q]));
+
+  return flags.map((flag) => ({
+    id: flag.questionId,
+    reason: flag.reason,
+    note: flag.note,
+    flaggedAt: new Date(flag.createdAt).toISOString(),
+    ro: describe(ro.get(flag.questionId)),
+    en: describe(en.get(flag.questionId)),
+  }));
+};
+
+export const formatFlagReportMarkdown = (entries: FlagReportEntry[]) => {
+  const lines = [`# Flagged questions (${entries.length})`, ""];
+
+  for (const entry of entries) {
+    lines.push(`## \`${entry.id}\` — ${FLAG_REASONS[entry.reason]}`, "");
+    if (entry.note) lines.push(`> ${entry.note.replace(/\n/g, "\n> ")}`, "");
+
+    for (const [label, version] of [
+      ["RO", entry.ro],
+      ["EN", entry.en],
+    ] as const) {
+      if (!version) {
+        lines.push(`**${label}:** missing from the bank`, "");
+        continue;
+      }
+      lines.push(`**${label}:** ${version.question}`, "");
+      version.answers.forEach((answer) => lines.push(`- ${answer}`));
+      lines.push("", `Correct: ${version.correct}`, "");
+    }
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,51 @@
+import { GeneratedProblem, Language, Question } from "../types";
+import { bankerProblem, resourceGraphProblem } from "./deadlockProblems";
+import { pageReplacementProblem, placementProblem } from "./memoryProblems";
+import { Random, createRandom, pickOne, randomInt } from "./random";
+import { schedulingProblem } from "./schedulingProblems";
+
+interface QuestionGenerator {
+  topic: string;
+  generate: (random: Random, language: Language) => GeneratedProblem;
+}
+
+// Problems built from a seed by a simulator rather than read from a bank. The
+// id names the generator and the seed ("gen:placement:1234"), so the same
+// problem can be rebuilt in either language from a saved session
+export const GENERATORS: Record<string, QuestionGenerator> = {
+  "page-replacement": { topic: "Memory management", generate: pageReplacementProblem },
+  placement: { topic: "Memory management", generate: placementProblem },
+  scheduling: { topic: "Processes & scheduling", generate: schedulingProblem },
+  banker: { topic: "Deadlock", generate: bankerProblem },
+  "resource-graph": { topic: "Deadlock", generate: resourceGraphProblem },
+};
+
+const PREFIX = "gen:";
+
+export const isGeneratedId = (id: string) => id.startsWith(PREFIX);
+
+export const generateQuestion = (id: string, language: Language): Question | undefined => {
+  const [, name, seed] = id.split(":");
+  const generator = GENERATORS[name];
+  if (!isGeneratedId(id) || !generator || !/^\d+$/.test(seed ?? "")) return undefined;
+
+  return {
+    ...generator.generate(createRandom(Number(seed)), language),
+    id,
+    topics: [generator.topic],
+  };
+};
+
+// Ids of new problems from the generators on the given topics (any topic when
+// empty), drawn from `random` so a session's seed reproduces them
+export const createGeneratedIds = (count: number, topics: string[], random: Random) => {
+  const names = Object.keys(GENERATORS).filter(
+    (name) => !topics.length || topics.includes(GENERATORS[name].topic)
+  );
+  if (!names.length) return [];
+
+  return Array.from(
+    { length: count },
+    () => `${PREFIX}${pickOne(random, names)}:${randomInt(random, 0, 2 ** 31 - 1)}`
+  );
+};
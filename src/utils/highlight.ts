@@ -0,0 +1,118 @@
+// A small highlighter for the snippets in OS questions: shell commands and C.
+// It only splits text into tokens; components decide how they look.
+
+export type HighlightLanguage = "shell" | "c";
+
+export type TokenType =
+  | "plain"
+  | "comment"
+  | "string"
+  | "keyword"
+  | "builtin"
+  | "number"
+  | "variable"
+  | "flag"
+  | "preprocessor";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const LANGUAGE_ALIASES: Record<string, HighlightLanguage> = {
+  sh: "shell",
+  bash: "shell",
+  shell: "shell",
+  console: "shell",
+  zsh: "shell",
+  c: "c",
+  h: "c",
+};
+
+const SHELL_KEYWORDS = new Set(
+  "if then else elif fi for in while until do done case esac function return exit break continue local export readonly select shift".split(" ")
+);
+const SHELL_BUILTINS = new Set(
+  "echo read cd pwd test expr printf set unset trap wait exec eval source kill let true false grep egrep sed awk cut sort uniq wc ls cat tac chmod chown find head tail tr tee xargs ps mkdir rmdir rm cp mv ln touch who date basename dirname diff".split(" ")
+);
+const C_KEYWORDS = new Set(
+  "auto break case char const continue default do double else enum extern float for goto if int long register return short signed sizeof static struct switch typedef union unsigned void volatile while".split(" ")
+);
+const C_BUILTINS = new Set(
+  "NULL FILE pid_t size_t ssize_t off_t mode_t fork exec execl execlp execv execvp wait waitpid exit pipe dup dup2 open close read write lseek kill signal sleep printf fprintf scanf malloc free getpid getppid".split(" ")
+);
+
+interface Rule {
+  type: TokenType;
+  pattern: RegExp;
+}
+
+// Tried in order at each position; the patterns are sticky so they only match there
+const RULES: Record<HighlightLanguage, Rule[]> = {
+  shell: [
+    // "#" starts a comment only at the beginning of a word ("$#" is a variable)
+    { type: "comment", pattern: /(?<=^|\s)#.*/y },
+    { type: "string", pattern: /'[^']*'?/y },
+    { type: "string", pattern: /"(?:\\.|[^"\\])*"?/y },
+    { type: "string", pattern: /`[^`]*`?/y },
+    { type: "variable", pattern: /\$(?:\{[^}]*\}|\(\(?|\w+|[#?$!@*-])/y },
+    { type: "flag", pattern: /(?<=^|\s)--?[A-Za-z][\w-]*/y },
+    { type: "number", pattern: /\b\d+\b/y },
+  ],
+  c: [
+    { type: "comment", pattern: /\/\/.*/y },
+    { type: "comment", pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: "preprocessor", pattern: /(?<=^[ \t]*)#\s*\w+/my },
+    { type: "string", pattern: /"(?:\\.|[^"\\\n])*"?/y },
+    { type: "string", pattern: /'(?:\\.|[^'\\\n])*'?/y },
+    { type: "number", pattern: /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?)[uUlLfF]*\b/y },
+  ],
+};
+
+const WORDS: Record<HighlightLanguage, { keywords: Set<string>; builtins: Set<string> }> = {
+  shell: { keywords: SHELL_KEYWORDS, builtins: SHELL_BUILTINS },
+  c: { keywords: C_KEYWORDS, builtins: C_BUILTINS },
+};
+
+const IDENTIFIER = /[A-Za-z_]\w*/y;
+
+// The language of a fenced code block ("language-bash"), if it is highlighted
+export const highlightLanguage = (className?: string): HighlightLanguage | null => {
+  const name = className?.match(/language-(\w+)/)?.[1]?.toLowerCase();
+  return (name && LANGUAGE_ALIASES[name]) || null;
+};
+
+export const highlightCode = (code: string, language: HighlightLanguage): Token[] => {
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let position = 0;
+  scan: while (position < code.length) {
+    for (const { type, pattern } of RULES[language]) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0]) {
+        push(type, match[0]);
+        position += match[0].length;
+        continue scan;
+      }
+    }
+
+    IDENTIFIER.lastIndex = position;
+    const word = IDENTIFIER.exec(code)?.[0];
+    if (word) {
+      const { keywords, builtins } = WORDS[language];
+      push(keywords.has(word) ? "keyword" : builtins.has(word) ? "builtin" : "plain", word);
+      position += word.length;
+    } else {
+      push("plain", code[position]);
+      position++;
+    }
+  }
+
+  return tokens;
+};
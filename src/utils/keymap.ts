@@ -0,0 +1,178 @@
+import { KeyAction, KeyBindings, KeyScope } from "../types";
+
+interface KeyActionInfo {
+  scope: KeyScope;
+  label: string;
+  keys: string[];
+  fixed?: boolean; // handled by position (digits) or by the dialogs themselves (Escape)
+  display?: string;
+}
+
+// Bindings are written as "Mod+Shift+Enter", "J" or "?"; Mod is Ctrl, or Cmd on a Mac
+export type Keymap = Record<KeyAction, string[]>;
+
+export const KEY_SCOPES: Record<KeyScope, string> = {
+  global: "Everywhere",
+  quiz: "Questions",
+  review: "Review mistakes",
+  palette: "Search",
+  dialog: "Dialogs",
+};
+
+export const KEY_ACTIONS: Record<KeyAction, KeyActionInfo> = {
+  openSearch: { scope: "global", label: "Search questions", keys: ["Mod+K"] },
+  showShortcuts: { scope: "global", label: "Show keyboard shortcuts", keys: ["?"] },
+  nextAnswer: { scope: "quiz", label: "Next answer", keys: ["ArrowDown", "J"] },
+  previousAnswer: { scope: "quiz", label: "Previous answer", keys: ["ArrowUp", "K"] },
+  toggleAnswer: { scope: "quiz", label: "Select or deselect the focused answer", keys: ["Space"] },
+  submit: { scope: "quiz", label: "Submit answer or go to the next question", keys: ["Enter"] },
+  selectAnswer: {
+    scope: "quiz",
+    label: "Select an answer by its number",
+    keys: ["1", "2", "3", "4", "5", "6", "7", "8", "9"],
+    fixed: true,
+    display: "1–9",
+  },
+  answerTrue: { scope: "quiz", label: "Answer True", keys: ["T"] },
+  answerFalse: { scope: "quiz", label: "Answer False", keys: ["F"] },
+  toggleTranslation: {
+    scope: "quiz",
+    label: "Show or hide the question in the other language",
+    keys: ["L"],
+  },
+  nextMistake: { scope: "review", label: "Next mistake", keys: ["J"] },
+  previousMistake: { scope: "review", label: "Previous mistake", keys: ["K"] },
+  retryMistakes: { scope: "review", label: "Retry the mistakes", keys: ["R"] },
+  leaveReview: { scope: "review", label: "Go back", keys: ["Backspace"] },
+  nextResult: { scope: "palette", label: "Next result", keys: ["ArrowDown"] },
+  previousResult: { scope: "palette", label: "Previous result", keys: ["ArrowUp"] },
+  openResult: { scope: "palette", label: "Go to the question", keys: ["Enter"] },
+  editResult: { scope: "palette", label: "Edit the question", keys: ["Shift+Enter"] },
+  closeDialog: { scope: "dialog", label: "Close", keys: ["Escape"], fixed: true },
+};
+
+// Keys the browser or the dialogs need for themselves
+const RESERVED_BINDINGS: Record<string, string> = {
+  Tab: "Tab moves the focus",
+  "Shift+Tab": "Shift+Tab moves the focus",
+  Escape: "Escape closes dialogs",
+  "Mod+L": "Used by the browser",
+  "Mod+N": "Used by the browser",
+  "Mod+Q": "Used by the browser",
+  "Mod+R": "Used by the browser",
+  "Mod+T": "Used by the browser",
+  "Mod+W": "Used by the browser",
+  F5: "Used by the browser",
+};
+
+const MODIFIER_KEYS = ["Control", "Meta", "Alt", "Shift", "CapsLock"];
+
+const KEY_NAMES: Record<string, string> = { " ": "Space", "+": "Plus", Esc: "Escape" };
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+const isMac = () => typeof navigator !== "undefined" && navigator.platform.includes("Mac");
+
+type KeyPress = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">;
+
+// The binding a key press stands for, or null for a lone modifier. Shift only
+// counts for letters and named keys: "?" already needs it on most layouts
+export const getBinding = (event: KeyPress): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const name = KEY_NAMES[event.key] ?? event.key;
+  const key = name.length === 1 ? name.toUpperCase() : name;
+  const shiftMatters = name.length > 1 || /^[A-Z]$/.test(key);
+  return [
+    (event.ctrlKey || event.metaKey) && "Mod",
+    event.altKey && "Alt",
+    event.shiftKey && shiftMatters && "Shift",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+");
+};
+
+export const getKeymap = (bindings: KeyBindings = {}): Keymap =>
+  Object.fromEntries(
+    (Object.keys(KEY_ACTIONS) as KeyAction[]).map((action) => [
+      action,
+      KEY_ACTIONS[action].fixed ? KEY_ACTIONS[action].keys : bindings[action] ?? KEY_ACTIONS[action].keys,
+    ])
+  ) as Keymap;
+
+// The action of the scope a key press triggers, if any
+export const getAction = (keymap: Keymap, scope: KeyScope, event: KeyPress): KeyAction | null => {
+  const binding = getBinding(event);
+  if (!binding) return null;
+  return (
+    (Object.keys(KEY_ACTIONS) as KeyAction[]).find(
+      (action) => KEY_ACTIONS[action].scope === scope && keymap[action].includes(binding)
+    ) ?? null
+  );
+};
+
+// Global shortcuts are live in every scope, so they clash with all of them
+const scopesOverlap = (a: KeyScope, b: KeyScope) => a === b || a === "global" || b === "global";
+
+export interface KeyConflict {
+  binding: string;
+  actions: KeyAction[];
+}
+
+// Keys bound to more than one action at the same time, as a restored backup can bring
+export const findConflicts = (keymap: Keymap): KeyConflict[] => {
+  const actions = Object.keys(KEY_ACTIONS) as KeyAction[];
+  const conflicts: KeyConflict[] = [];
+  actions.forEach((action, i) => {
+    for (const binding of keymap[action]) {
+      const others = actions
+        .slice(i + 1)
+        .filter(
+          (other) =>
+            scopesOverlap(KEY_ACTIONS[action].scope, KEY_ACTIONS[other].scope) &&
+            keymap[other].includes(binding)
+        );
+      if (others.length) conflicts.push({ binding, actions: [action, ...others] });
+    }
+  });
+  return conflicts;
+};
+
+// Why a key can't be added to the action, or null when it can
+export const checkBinding = (keymap: Keymap, action: KeyAction, binding: string): string | null => {
+  if (RESERVED_BINDINGS[binding]) return RESERVED_BINDINGS[binding];
+  if (keymap[action].includes(binding)) return "Already bound to this action";
+  // The search field has the focus, so a plain character would be typed into it
+  if (KEY_ACTIONS[action].scope === "palette" && binding.length === 1) {
+    return "Would be typed into the search field";
+  }
+  const taken = (Object.keys(KEY_ACTIONS) as KeyAction[]).find(
+    (other) =>
+      scopesOverlap(KEY_ACTIONS[action].scope, KEY_ACTIONS[other].scope) &&
+      keymap[other].includes(binding)
+  );
+  return taken ? `Already used for "${KEY_ACTIONS[taken].label}"` : null;
+};
+
+export const formatBinding = (binding: string) =>
+  binding
+    .split("+")
+    .map((part) => (part === "Mod" ? (isMac() ? "⌘" : "Ctrl") : KEY_SYMBOLS[part] ?? part))
+    .join("+");
+
+export const formatKeys = (keymap: Keymap, action: KeyAction) =>
+  KEY_ACTIONS[action].display ?? keymap[action].map(formatBinding).join(" or ");
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+// Open dialogs take the keyboard: page shortcuts wait until they close
+export const hasOpenDialog = () => document.querySelector('[role="dialog"]') !== null;
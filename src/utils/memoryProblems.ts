@@ -0,0 +1,351 @@
+import { GeneratedProblem, Language } from "../types";
+import {
+  Frame,
+  PLACEMENT_ALGORITHMS,
+  PageReference,
+  PlacementAlgorithm,
+  REPLACEMENT_ALGORITHMS,
+  ReplacementAlgorithm,
+  ReplacementResult,
+  NRU_RESET_INTERVAL,
+  simulatePlacement,
+  simulateReplacement,
+} from "./memorySimulator";
+import { Random, answerOptions, pickOne, randomInt } from "./random";
+
+const REPLACEMENT_RULES: Record<Language, Record<ReplacementAlgorithm, string>> = {
+  en: {
+    FIFO: "FIFO replaces the page that was loaded first.",
+    LRU: "LRU replaces the page whose last use is furthest in the past.",
+    OPT: "OPT replaces the page whose next use is furthest in the future.",
+    NRU: "NRU replaces a page from the lowest class: (R=0, M=0), then (0, 1), (1, 0) and (1, 1).",
+    Clock:
+      "Clock moves the hand past pages with R=1, clearing the bit, and replaces the first page with R=0.",
+  },
+  ro: {
+    FIFO: "FIFO inlocuieste pagina incarcata prima.",
+    LRU: "LRU inlocuieste pagina nefolosita de cel mai mult timp.",
+    OPT: "OPT inlocuieste pagina care va fi folosita cel mai tarziu.",
+    NRU: "NRU inlocuieste o pagina din cea mai mica clasa: (R=0, M=0), apoi (0, 1), (1, 0) si (1, 1).",
+    Clock:
+      "Clock avanseaza acul peste paginile cu R=1, resetand bitul, si inlocuieste prima pagina cu R=0.",
+  },
+};
+
+const PLACEMENT_RULES: Record<Language, Record<PlacementAlgorithm, string>> = {
+  en: {
+    "first-fit": "first-fit places each request in the first free block large enough for it.",
+    "best-fit": "best-fit places each request in the smallest free block large enough for it.",
+    "worst-fit": "worst-fit places each request in the largest free block.",
+    "next-fit":
+      "next-fit places each request in the first block large enough for it, searching from the block used last.",
+  },
+  ro: {
+    "first-fit": "first-fit plaseaza fiecare cerere in primul bloc liber suficient de mare.",
+    "best-fit": "best-fit plaseaza fiecare cerere in cel mai mic bloc liber suficient de mare.",
+    "worst-fit": "worst-fit plaseaza fiecare cerere in cel mai mare bloc liber.",
+    "next-fit":
+      "next-fit plaseaza fiecare cerere in primul bloc suficient de mare, cautand de la ultimul bloc folosit.",
+  },
+};
+
+const TEXT = {
+  en: {
+    references: (refs: string, frames: number) =>
+      `A process references pages in the order: ${refs}. Memory has ${frames} frames, initially empty.`,
+    faultsQuestion: (algorithm: string) =>
+      `How many page faults occur with the ${algorithm} replacement algorithm?`,
+    pagesQuestion: (algorithm: string) =>
+      `Which pages are in memory after the last reference, with the ${algorithm} replacement algorithm?`,
+    optTies: "When several pages are never used again, the one loaded first is replaced.",
+    nruRules: `A "w" marks a write, which sets the page's M bit. R bits are cleared after every ${NRU_RESET_INTERVAL} references. Within a class, the page loaded first is replaced.`,
+    clockRules: "A page starts with R=1 when loaded. The hand starts at frame 1 and moves past the frame it fills.",
+    faultsResult: (algorithm: string, faults: number) =>
+      `${algorithm} causes **${faults}** page faults.`,
+    pagesResult: (pages: string) => `At the end memory holds pages **${pages}**.`,
+    reference: "Page",
+    frame: (n: number) => `Frame ${n}`,
+    fault: "Fault",
+    evicted: "Evicted",
+    yes: "yes",
+    clockNote: "R: the page's R bit is set. › marks the frame the hand points to.",
+    nruNote: `R, M: the page's bits that are set. R bits are cleared before references ${NRU_RESET_INTERVAL + 1}, ${2 * NRU_RESET_INTERVAL + 1}, …`,
+    blocks: (sizes: string, count: number) =>
+      `Memory has free blocks of ${sizes} KB (B1–B${count}, in address order).`,
+    requests: (sizes: string, count: number) =>
+      `Processes P1–P${count} request ${sizes} KB, in this order.`,
+    mappingQuestion: (algorithm: string) => `Where is each process placed with ${algorithm}?`,
+    freeQuestion: (algorithm: string, count: number) =>
+      `What sizes (in KB) do the free blocks B1–B${count} have after all requests, with ${algorithm}?`,
+    placementRules:
+      'The part of a block left over stays free as a smaller block. "-" means the request cannot be placed.',
+    nextFitRule: "next-fit resumes searching at the block it used last.",
+    process: "Process",
+    size: "Size (KB)",
+    block: "Block",
+    free: "Free blocks (KB)",
+    and: "and",
+  },
+  ro: {
+    references: (refs: string, frames: number) =>
+      `Un proces face referire la pagini in ordinea: ${refs}. Memoria are ${frames} cadre, initial goale.`,
+    faultsQuestion: (algorithm: string) =>
+      `Cate erori de pagina (page faults) apar cu algoritmul de inlocuire ${algorithm}?`,
+    pagesQuestion: (algorithm: string) =>
+      `Ce pagini se afla in memorie dupa ultima referinta, cu algoritmul de inlocuire ${algorithm}?`,
+    optTies: "Daca mai multe pagini nu mai sunt folosite, se inlocuieste cea incarcata prima.",
+    nruRules: `"w" marcheaza o scriere, care seteaza bitul M al paginii. Bitii R sunt resetati dupa fiecare ${NRU_RESET_INTERVAL} referinte. In cadrul unei clase se inlocuieste pagina incarcata prima.`,
+    clockRules: "O pagina incarcata porneste cu R=1. Acul porneste de la cadrul 1 si trece de cadrul pe care il ocupa.",
+    faultsResult: (algorithm: string, faults: number) =>
+      `${algorithm} produce **${faults}** erori de pagina.`,
+    pagesResult: (pages: string) => `La final in memorie se afla paginile **${pages}**.`,
+    reference: "Pagina",
+    frame: (n: number) => `Cadru ${n}`,
+    fault: "Eroare",
+    evicted: "Evacuata",
+    yes: "da",
+    clockNote: "R: bitul R al paginii este setat. › marcheaza cadrul la care arata acul.",
+    nruNote: `R, M: bitii setati ai paginii. Bitii R sunt resetati inaintea referintelor ${NRU_RESET_INTERVAL + 1}, ${2 * NRU_RESET_INTERVAL + 1}, …`,
+    blocks: (sizes: string, count: number) =>
+      `Memoria are blocuri libere de ${sizes} KB (B1–B${count}, in ordinea adreselor).`,
+    requests: (sizes: string, count: number) =>
+      `Procesele P1–P${count} cer ${sizes} KB, in aceasta ordine.`,
+    mappingQuestion: (algorithm: string) => `Unde este plasat fiecare proces cu metoda ${algorithm}?`,
+    freeQuestion: (algorithm: string, count: number) =>
+      `Ce dimensiuni (in KB) au blocurile libere B1–B${count} dupa toate cererile, cu metoda ${algorithm}?`,
+    placementRules:
+      'Partea ramasa dintr-un bloc ramane libera ca bloc mai mic. "-" inseamna ca cererea nu poate fi satisfacuta.',
+    nextFitRule: "next-fit reia cautarea de la ultimul bloc folosit.",
+    process: "Proces",
+    size: "Dimensiune (KB)",
+    block: "Bloc",
+    free: "Blocuri libere (KB)",
+    and: "si",
+  },
+};
+
+// "100, 200 and 300"
+const listSizes = (sizes: number[], and: string) =>
+  `${sizes.slice(0, -1).join(", ")} ${and} ${sizes[sizes.length - 1]}`;
+
+const formatPages = (pages: number[]) => [...pages].sort((a, b) => a - b).join(", ");
+
+const formatReference = (reference: PageReference, algorithm: ReplacementAlgorithm) =>
+  `${reference.page}${algorithm === "NRU" && reference.write ? "w" : ""}`;
+
+const formatFrame = (frame: Frame | null, algorithm: ReplacementAlgorithm) => {
+  if (!frame) return "";
+  if (algorithm === "Clock") return `${frame.page}${frame.referenced ? " R" : ""}`;
+  if (algorithm === "NRU") {
+    return `${frame.page}${frame.referenced ? " R" : ""}${frame.modified ? " M" : ""}`;
+  }
+  return String(frame.page);
+};
+
+// References that stay near the recently used pages, as real programs do
+const generateReferences = (random: Random, pageCount: number, length: number) => {
+  const references: PageReference[] = [];
+  while (references.length < length) {
+    const recent = references.slice(-4).map((r) => r.page);
+    const page =
+      recent.length && random() < 0.4 ? pickOne(random, recent) : randomInt(random, 1, pageCount);
+    if (page === references[references.length - 1]?.page) continue;
+    references.push({ page, write: random() < 0.3 });
+  }
+  return references;
+};
+
+const replacementSolution = (
+  result: ReplacementResult,
+  algorithm: ReplacementAlgorithm,
+  frameCount: number,
+  language: Language
+) => {
+  const text = TEXT[language];
+  return {
+    columns: [
+      text.reference,
+      ...Array.from({ length: frameCount }, (_, i) => text.frame(i + 1)),
+      text.fault,
+      text.evicted,
+    ],
+    rows: result.steps.map((step) => [
+      formatReference(step.reference, algorithm),
+      ...step.frames.map(
+        (frame, i) =>
+          `${algorithm === "Clock" && i === step.hand ? "› " : ""}${formatFrame(frame, algorithm)}`
+      ),
+      step.fault ? text.yes : "",
+      step.evicted === null ? "" : String(step.evicted),
+    ]),
+    highlightedRows: result.steps.flatMap((step, i) => (step.fault ? [i] : [])),
+    note:
+      algorithm === "Clock" ? text.clockNote : algorithm === "NRU" ? text.nruNote : undefined,
+  };
+};
+
+export const pageReplacementProblem = (random: Random, language: Language): GeneratedProblem => {
+  const text = TEXT[language];
+  const frameCount = pickOne(random, [3, 4]);
+  const algorithm = pickOne(random, REPLACEMENT_ALGORITHMS);
+  const askFaults = random() < 0.5;
+
+  // Retry until some pages actually get replaced
+  let references: PageReference[] = [];
+  let results = {} as Record<ReplacementAlgorithm, ReplacementResult>;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    references = generateReferences(
+      random,
+      frameCount + randomInt(random, 2, 3),
+      randomInt(random, 12, 15)
+    );
+    results = Object.fromEntries(
+      REPLACEMENT_ALGORITHMS.map((a) => [a, simulateReplacement(a, references, frameCount)])
+    ) as typeof results;
+    if (results[algorithm].faults > frameCount + 2) break;
+  }
+  const result = results[algorithm];
+  const others = REPLACEMENT_ALGORITHMS.filter((a) => a !== algorithm).map((a) => results[a]);
+
+  let correct: string;
+  let answers: string[];
+  if (askFaults) {
+    correct = String(result.faults);
+    answers = answerOptions(
+      random,
+      correct,
+      others.map((r) => String(r.faults)),
+      () => String(Math.max(frameCount, result.faults + pickOne(random, [-2, -1, 1, 2])))
+    ).sort((a, b) => Number(a) - Number(b));
+  } else {
+    correct = formatPages(result.pages);
+    const used = [...new Set(references.map((r) => r.page))];
+    answers = answerOptions(
+      random,
+      correct,
+      others.map((r) => formatPages(r.pages)),
+      () => {
+        // Swap one page for another referenced page
+        const missing = used.filter((page) => !result.pages.includes(page));
+        const pages = [...result.pages];
+        pages[randomInt(random, 0, pages.length - 1)] = pickOne(random, missing);
+        return formatPages(pages);
+      }
+    );
+  }
+
+  const rules = {
+    FIFO: [],
+    LRU: [],
+    OPT: [text.optTies],
+    NRU: [text.nruRules],
+    Clock: [text.clockRules],
+  }[algorithm];
+
+  return {
+    question: [
+      text.references(references.map((r) => formatReference(r, algorithm)).join(" "), frameCount),
+      ...rules,
+      askFaults ? text.faultsQuestion(algorithm) : text.pagesQuestion(algorithm),
+    ].join(" "),
+    answers,
+    correct,
+    explanation: [
+      REPLACEMENT_RULES[language][algorithm],
+      text.faultsResult(algorithm, result.faults),
+      askFaults ? "" : text.pagesResult(correct),
+    ]
+      .filter(Boolean)
+      .join(" "),
+    solution: { tables: [replacementSolution(result, algorithm, frameCount, language)] },
+  };
+};
+
+const formatMapping = (blocks: (number | null)[]) =>
+  blocks.map((block, i) => `P${i + 1} → ${block === null ? "-" : `B${block + 1}`}`).join(", ");
+
+export const placementProblem = (random: Random, language: Language): GeneratedProblem => {
+  const text = TEXT[language];
+  const algorithm = pickOne(random, PLACEMENT_ALGORITHMS);
+  const askMapping = random() < 0.5;
+
+  // Retry until the algorithms disagree, so the choice of algorithm matters
+  let blocks: number[] = [];
+  let requests: number[] = [];
+  for (let attempt = 0; attempt < 20; attempt++) {
+    blocks = Array.from({ length: 5 }, () => randomInt(random, 2, 12) * 50);
+    requests = Array.from({ length: 4 }, () => randomInt(random, 5, 45) * 10);
+    const outcomes = PLACEMENT_ALGORITHMS.map((a) =>
+      formatMapping(simulatePlacement(a, blocks, requests).blocks)
+    );
+    if (new Set(outcomes).size >= 3) break;
+  }
+
+  const result = simulatePlacement(algorithm, blocks, requests);
+  const others = PLACEMENT_ALGORITHMS.filter((a) => a !== algorithm).map((a) =>
+    simulatePlacement(a, blocks, requests)
+  );
+
+  let correct: string;
+  let answers: string[];
+  if (askMapping) {
+    correct = formatMapping(result.blocks);
+    answers = answerOptions(
+      random,
+      correct,
+      others.map((r) => formatMapping(r.blocks)),
+      () => {
+        const wrong = [...result.blocks];
+        wrong[randomInt(random, 0, wrong.length - 1)] = randomInt(random, 0, blocks.length - 1);
+        return formatMapping(wrong);
+      }
+    );
+  } else {
+    correct = result.free.join(", ");
+    answers = answerOptions(
+      random,
+      correct,
+      others.map((r) => r.free.join(", ")),
+      // A request left out, as if it had been forgotten
+      () => {
+        const skipped = randomInt(random, 0, requests.length - 1);
+        return simulatePlacement(
+          algorithm,
+          blocks,
+          requests.filter((_, i) => i !== skipped)
+        ).free.join(", ");
+      }
+    );
+  }
+
+  return {
+    question: [
+      text.blocks(listSizes(blocks, text.and), blocks.length),
+      text.requests(listSizes(requests, text.and), requests.length),
+      askMapping
+        ? text.mappingQuestion(algorithm)
+        : text.freeQuestion(algorithm, blocks.length),
+      text.placementRules,
+      algorithm === "next-fit" ? text.nextFitRule : "",
+    ]
+      .filter(Boolean)
+      .join(" "),
+    answers,
+    correct,
+    explanation: PLACEMENT_RULES[language][algorithm],
+    solution: {
+      tables: [
+        {
+          columns: [text.process, text.size, text.block, text.free],
+          rows: result.steps.map((step, i) => [
+            `P${i + 1}`,
+            String(step.request),
+            step.block === null ? "-" : `B${step.block + 1}`,
+            step.free.join(", "),
+          ]),
+          highlightedRows: result.steps.flatMap((step, i) => (step.block === null ? [i] : [])),
+        },
+      ],
+    },
+  };
+};
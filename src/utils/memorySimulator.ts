@@ -0,0 +1,199 @@
+// Step by step simulators for page replacement and free block placement, used
+// to solve the generated memory management problems
+
+export type ReplacementAlgorithm = "FIFO" | "LRU" | "OPT" | "NRU" | "Clock";
+
+export const REPLACEMENT_ALGORITHMS: ReplacementAlgorithm[] = [
+  "FIFO",
+  "LRU",
+  "OPT",
+  "NRU",
+  "Clock",
+];
+
+export interface PageReference {
+  page: number;
+  write: boolean; // sets the M bit, which only NRU looks at
+}
+
+export interface Frame {
+  page: number;
+  referenced: boolean; // R bit
+  modified: boolean; // M bit
+}
+
+export interface ReplacementStep {
+  reference: PageReference;
+  frames: (Frame | null)[]; // after the reference
+  fault: boolean;
+  evicted: number | null;
+  hand: number; // Clock's hand after the reference
+}
+
+export interface ReplacementResult {
+  steps: ReplacementStep[];
+  faults: number;
+  pages: number[]; // in memory at the end, in frame order
+}
+
+// NRU clears the R bits on a clock interrupt, here before every 4th reference
+export const NRU_RESET_INTERVAL = 4;
+
+// Index of the smallest score; ties go to the page loaded first
+const pickVictim = (scores: number[], loadedAt: number[]) =>
+  scores.reduce(
+    (best, score, i) =>
+      score < scores[best] || (score === scores[best] && loadedAt[i] < loadedAt[best])
+        ? i
+        : best,
+    0
+  );
+
+export const simulateReplacement = (
+  algorithm: ReplacementAlgorithm,
+  references: PageReference[],
+  frameCount: number
+): ReplacementResult => {
+  const frames: (Frame | null)[] = Array(frameCount).fill(null);
+  const loadedAt: number[] = Array(frameCount).fill(-1);
+  const lastUsed: number[] = Array(frameCount).fill(-1);
+  const steps: ReplacementStep[] = [];
+  let hand = 0;
+
+  references.forEach((reference, time) => {
+    if (algorithm === "NRU" && time > 0 && time % NRU_RESET_INTERVAL === 0) {
+      frames.forEach((frame) => frame && (frame.referenced = false));
+    }
+
+    const hit = frames.findIndex((frame) => frame?.page === reference.page);
+    let evicted: number | null = null;
+
+    if (hit >= 0) {
+      const frame = frames[hit]!;
+      frame.referenced = true;
+      frame.modified ||= reference.write;
+      lastUsed[hit] = time;
+    } else {
+      let target = frames.indexOf(null);
+
+      if (target < 0) {
+        const resident = frames as Frame[];
+        switch (algorithm) {
+          case "FIFO":
+            target = pickVictim(loadedAt, loadedAt);
+            break;
+          case "LRU":
+            target = pickVictim(lastUsed, loadedAt);
+            break;
+          case "OPT": {
+            // The page needed furthest in the future, or never again
+            const nextUse = resident.map((frame) => {
+              const next = references.findIndex(
+                (r, t) => t > time && r.page === frame.page
+              );
+              return next < 0 ? Infinity : next;
+            });
+            target = pickVictim(nextUse.map((t) => -t), loadedAt);
+            break;
+          }
+          case "NRU":
+            // Lowest class first: not referenced, not modified
+            target = pickVictim(
+              resident.map((f) => (f.referenced ? 2 : 0) + (f.modified ? 1 : 0)),
+              loadedAt
+            );
+            break;
+          case "Clock":
+            // Second chance: clear R bits until the hand finds a page without one
+            while (resident[hand].referenced) {
+              resident[hand].referenced = false;
+              hand = (hand + 1) % frameCount;
+            }
+            target = hand;
+            break;
+        }
+        evicted = frames[target]!.page;
+      }
+
+      frames[target] = { page: reference.page, referenced: true, modified: reference.write };
+      loadedAt[target] = time;
+      lastUsed[target] = time;
+      if (algorithm === "Clock") hand = (target + 1) % frameCount;
+    }
+
+    steps.push({
+      reference,
+      frames: frames.map((frame) => frame && { ...frame }),
+      fault: hit < 0,
+      evicted,
+      hand,
+    });
+  });
+
+  return {
+    steps,
+    faults: steps.filter((step) => step.fault).length,
+    pages: frames.flatMap((frame) => (frame ? [frame.page] : [])),
+  };
+};
+
+export type PlacementAlgorithm = "first-fit" | "best-fit" | "worst-fit" | "next-fit";
+
+export const PLACEMENT_ALGORITHMS: PlacementAlgorithm[] = [
+  "first-fit",
+  "best-fit",
+  "worst-fit",
+  "next-fit",
+];
+
+export interface PlacementStep {
+  request: number; // size
+  block: number | null; // index of the block it went into, null if none fits
+  free: number[]; // free space left in every block afterwards
+}
+
+export interface PlacementResult {
+  steps: PlacementStep[];
+  blocks: (number | null)[]; // per request
+  free: number[];
+}
+
+// A request is cut from the chosen block, whose leftover stays free in place
+export const simulatePlacement = (
+  algorithm: PlacementAlgorithm,
+  blocks: number[],
+  requests: number[]
+): PlacementResult => {
+  const free = [...blocks];
+  const steps: PlacementStep[] = [];
+  // Next-fit resumes the search at the block it used last
+  let last = 0;
+
+  for (const request of requests) {
+    const fits = free.map((_, i) => i).filter((i) => free[i] >= request);
+    let block: number | null = null;
+
+    if (fits.length) {
+      switch (algorithm) {
+        case "first-fit":
+          block = fits[0];
+          break;
+        case "best-fit":
+          block = fits.reduce((best, i) => (free[i] < free[best] ? i : best));
+          break;
+        case "worst-fit":
+          block = fits.reduce((best, i) => (free[i] > free[best] ? i : best));
+          break;
+        case "next-fit":
+          block = fits.find((i) => i >= last) ?? fits[0];
+          break;
+      }
+      free[block!] -= request;
+      last = block!;
+    }
+
+    steps.push({ request, block, free: [...free] });
+  }
+
+  return { steps, blocks: steps.map((step) => step.block), free };
+};
@@ -0,0 +1,44 @@
+import { Question, Session, ReviewCard } from "../types";
+
+// Sessions and review cards used to reference questions by their position in
+// the loaded JSON array. Map those positions to stable question ids.
+
+type LegacySession = Omit<Session, "questionIds"> & {
+  questionIds: Array<string | number>;
+};
+
+type LegacyReviewCard = Omit<ReviewCard, "questionId"> & {
+  questionId: string | number;
+};
+
+const toQuestionId = (id: string | number, questions: Question[]) =>
+  typeof id === "number" ? questions[id]?.id : id;
+
+export const needsIdMigration = (
+  sessions: LegacySession[],
+  cards: LegacyReviewCard[] = []
+) =>
+  sessions.some((s) => s.questionIds.some((id) => typeof id === "number")) ||
+  cards.some((c) => typeof c.questionId === "number");
+
+export const migrateSessions = (
+  sessions: LegacySession[],
+  questions: Question[]
+): Session[] =>
+  sessions.map((session) => ({
+    ...session,
+    // Positions past the end of the bank no longer point anywhere; keep the
+    // slot so answeredQuestions and currentQuestionIndex stay aligned
+    questionIds: session.questionIds.map(
+      (id) => toQuestionId(id, questions) ?? String(id)
+    ),
+  }));
+
+export const migrateCards = (
+  cards: LegacyReviewCard[],
+  questions: Question[]
+): ReviewCard[] =>
+  cards.flatMap((card) => {
+    const questionId = toQuestionId(card.questionId, questions);
+    return questionId ? [{ ...card, questionId }] : [];
+  });
@@ -0,0 +1,152 @@
+import { SyncChannel } from "./sync";
+
+// Without it devices only find each other on the same network. It is only asked
+// for this device's public address; no data goes through it
+export const STUN_SERVER = "stun:stun.l.google.com:19302";
+const SIGNAL_PREFIX = "OSX1:";
+const ICE_GATHERING_TIMEOUT = 5000;
+
+export interface PeerConnection {
+  peer: RTCPeerConnection;
+  channel: Promise<RTCDataChannel>;
+}
+
+// Offer and answer codes are the session description, base64 encoded so they
+// survive being pasted into chat apps
+export const encodeSignal = (description: RTCSessionDescriptionInit) =>
+  SIGNAL_PREFIX +
+  btoa(
+    String.fromCharCode(
+      ...new TextEncoder().encode(
+        JSON.stringify({ type: description.type, sdp: description.sdp })
+      )
+    )
+  );
+
+export const decodeSignal = (
+  code: string,
+  expected: RTCSdpType
+): RTCSessionDescriptionInit => {
+  const trimmed = code.replace(/\s+/g, "");
+  if (!trimmed.startsWith(SIGNAL_PREFIX)) {
+    throw new Error("This is not a pairing code from this app");
+  }
+
+  let description: RTCSessionDescriptionInit;
+  try {
+    const bytes = Uint8Array.from(atob(trimmed.slice(SIGNAL_PREFIX.length)), (c) =>
+      c.charCodeAt(0)
+    );
+    description = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("The pairing code is incomplete, copy it again");
+  }
+
+  if (description.type !== expected || typeof description.sdp !== "string") {
+    throw new Error(
+      expected === "offer"
+        ? "Paste the code from the device that started pairing"
+        : "Paste the code shown on the other device after it joined"
+    );
+  }
+  return description;
+};
+
+// Codes are only exchanged once, so all candidates have to be in them
+const waitForIceGathering = (peer: RTCPeerConnection) =>
+  new Promise<void>((resolve) => {
+    if (peer.iceGatheringState === "complete") {
+      resolve();
+      return;
+    }
+    const timeout = setTimeout(resolve, ICE_GATHERING_TIMEOUT);
+    peer.addEventListener("icegatheringstatechange", () => {
+      if (peer.iceGatheringState === "complete") {
+        clearTimeout(timeout);
+        resolve();
+      }
+    });
+  });
+
+const waitForOpen = (channel: RTCDataChannel) =>
+  new Promise<RTCDataChannel>((resolve, reject) => {
+    if (channel.readyState === "open") {
+      resolve(channel);
+      return;
+    }
+    channel.addEventListener("open", () => resolve(channel), { once: true });
+    channel.addEventListener(
+      "error",
+      () => reject(new Error("The connection to the other device failed")),
+      { once: true }
+    );
+  });
+
+const createPeer = (useStun: boolean) =>
+  new RTCPeerConnection({ iceServers: useStun ? [{ urls: STUN_SERVER }] : [] });
+
+// Settles with an error when the devices cannot reach each other
+const connectionFailure = (peer: RTCPeerConnection) =>
+  new Promise<never>((_, reject) => {
+    peer.addEventListener("connectionstatechange", () => {
+      if (peer.connectionState === "failed") {
+        reject(
+          new Error(
+            "Could not reach the other device, try again on the same network or pair across networks"
+          )
+        );
+      }
+    });
+  });
+
+// The device that starts pairing creates the channel and shows the offer code
+export const createOffer = async (
+  useStun = false
+): Promise<PeerConnection & { offer: string }> => {
+  const peer = createPeer(useStun);
+  const channel = peer.createDataChannel("sync", { ordered: true });
+
+  await peer.setLocalDescription(await peer.createOffer());
+  await waitForIceGathering(peer);
+
+  return {
+    peer,
+    channel: Promise.race([waitForOpen(channel), connectionFailure(peer)]),
+    offer: encodeSignal(peer.localDescription!),
+  };
+};
+
+// The joining device turns the offer code into an answer code to send back
+export const acceptOffer = async (
+  code: string,
+  useStun = false
+): Promise<PeerConnection & { answer: string }> => {
+  const offer = decodeSignal(code, "offer");
+  const peer = createPeer(useStun);
+  const channel = new Promise<RTCDataChannel>((resolve) => {
+    peer.addEventListener("datachannel", (event) => resolve(event.channel), {
+      once: true,
+    });
+  }).then(waitForOpen);
+  const opened = Promise.race([channel, connectionFailure(peer)]);
+
+  await peer.setRemoteDescription(offer);
+  await peer.setLocalDescription(await peer.createAnswer());
+  await waitForIceGathering(peer);
+
+  return { peer, channel: opened, answer: encodeSignal(peer.localDescription!) };
+};
+
+export const acceptAnswer = (peer: RTCPeerConnection, code: string) =>
+  peer.setRemoteDescription(decodeSignal(code, "answer"));
+
+export const fromDataChannel = (channel: RTCDataChannel): SyncChannel => ({
+  send: (message) => channel.send(message),
+  setListener: (listener) => {
+    channel.onmessage = (event) => listener(event.data);
+  },
+  setCloseListener: (listener) => {
+    channel.addEventListener("close", listener);
+    channel.addEventListener("error", listener);
+  },
+});
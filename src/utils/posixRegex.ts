@@ -0,0 +1,87 @@
+// POSIX regular expressions, as grep and awk take them, translated to
+// JavaScript ones. Basic expressions (grep without -E) treat ( ) { } | + ?
+// literally unless escaped; extended ones (grep -E, awk) the other way round
+
+const CLASSES: Record<string, string> = {
+  alpha: "a-zA-Z",
+  digit: "0-9",
+  alnum: "a-zA-Z0-9",
+  upper: "A-Z",
+  lower: "a-z",
+  space: " \\t\\n\\r\\f\\v",
+  blank: " \\t",
+  punct: "!-\\/:-@\\[-`{-~",
+  xdigit: "0-9A-Fa-f",
+};
+
+const SPECIAL = "(){}|+?";
+
+// "[[:digit:]x]" → "[0-9x]"; returns the translation and the index after "]"
+const translateBracket = (pattern: string, start: number): [string, number] => {
+  let i = start + 1;
+  let result = "[";
+  if (pattern[i] === "^") {
+    result += "^";
+    i++;
+  }
+  // A "]" right after the opening bracket is a literal
+  if (pattern[i] === "]") {
+    result += "\\]";
+    i++;
+  }
+  while (i < pattern.length && pattern[i] !== "]") {
+    const named = /^\[:(\w+):\]/.exec(pattern.slice(i));
+    if (named && CLASSES[named[1]]) {
+      result += CLASSES[named[1]];
+      i += named[0].length;
+    } else {
+      // Backslashes are literal inside POSIX brackets
+      result += pattern[i] === "\\" || pattern[i] === "[" ? `\\${pattern[i]}` : pattern[i];
+      i++;
+    }
+  }
+  if (i >= pattern.length) throw new SyntaxError("Unmatched [");
+  return [result + "]", i + 1];
+};
+
+export const toJsRegexSource = (pattern: string, extended: boolean) => {
+  let result = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "[") {
+      const [bracket, next] = translateBracket(pattern, i);
+      result += bracket;
+      i = next;
+      continue;
+    }
+    if (char === "\\" && i + 1 < pattern.length) {
+      const next = pattern[i + 1];
+      i += 2;
+      if (next === "<" || next === ">") result += "\\b";
+      else if (SPECIAL.includes(next)) result += extended ? `\\${next}` : next;
+      else if (/[1-9wWsSbB]/.test(next)) result += `\\${next}`;
+      else if (next === "t") result += "\\t";
+      else if (next === "n") result += "\\n";
+      // Other escaped letters mean themselves; escaped punctuation stays escaped
+      else result += /[a-zA-Z0-9]/.test(next) ? next : `\\${next}`;
+      continue;
+    }
+    i++;
+    if (SPECIAL.includes(char)) {
+      result += extended ? char : `\\${char}`;
+    } else if (char === "*" && !extended && (result === "" || result === "^")) {
+      // A leading * has nothing to repeat, so it matches itself
+      result += "\\*";
+    } else if (char === "/") {
+      result += "\\/";
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+// Throws a SyntaxError for patterns that do not compile
+export const toJsRegex = (pattern: string, extended: boolean, flags = "") =>
+  new RegExp(toJsRegexSource(pattern, extended), flags);
@@ -0,0 +1,363 @@
+import { Question, Language, QuestionOverride } from "../types";
+import { questionCache } from "./questionCache";
+import {
+  getCorrectAnswers,
+  getCorrectKeys,
+  getQuestionKind,
+  parseNumberAnswer,
+} from "./scoring";
+import { runCommand } from "./shell";
+import { foldText } from "./text";
+import { createFs } from "./virtualFs";
+
+export interface BankPairingIssue {
+  id: string;
+  problem: "missing-en" | "missing-ro" | "duplicate-id";
+  question: string;
+}
+
+export interface BankChanges {
+  added: Question[];
+  removed: Question[];
+  changed: Question[];
+}
+
+export interface BankUpdate {
+  language: Language;
+  questions: Question[];
+  changes: BankChanges;
+}
+
+export interface QuestionError {
+  index: number;
+  id?: string;
+  message: string;
+}
+
+const QUESTION_KINDS = ["single", "multiple", "text", "task"];
+const ANSWER_FORMATS = ["number", "list"];
+
+// Id of the bundled RO/EN bank, as opposed to banks imported from files
+export const DEFAULT_BANK_ID = "default";
+
+const QUESTION_FILES: Record<Language, string> = {
+  ro: "/questions.json",
+  en: "/questions-en.json",
+};
+
+// Deterministic 32-bit FNV-1a hash of the question text, as 8 hex chars
+export const hashQuestionText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of text.trim().normalize("NFC")) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+// The sandbox must build and every reference command must succeed in it
+const validateTask = (question: Question, commands: string[]) => {
+  const { task } = question;
+  if (task !== undefined && (typeof task !== "object" || task === null)) {
+    return ["task must be an object"];
+  }
+  for (const command of [...commands, ...(question.acceptedAnswers ?? []), task?.check ?? ""]) {
+    if (!command) continue;
+    try {
+      const { output, status } = runCommand(createFs(task), command);
+      if (status !== 0) {
+        return [`command "${command}" fails: ${output.trim().split("\n")[0] || `exit status ${status}`}`];
+      }
+    } catch (error) {
+      return [`task files: ${(error as Error).message}`];
+    }
+  }
+  return [];
+};
+
+// Problems that make a question unusable, empty when it is valid
+export const validateQuestion = (question: Question): string[] => {
+  const errors: string[] = [];
+
+  if (!isString(question.question) || !question.question.trim()) {
+    errors.push("question text is empty");
+  }
+  if (question.kind && !QUESTION_KINDS.includes(question.kind)) {
+    errors.push(`unknown kind "${question.kind}"`);
+  }
+  for (const field of ["explanation", "source", "image"] as const) {
+    if (question[field] !== undefined && !isString(question[field])) {
+      errors.push(`${field} must be text`);
+    }
+  }
+  if (question.markdown !== undefined && typeof question.markdown !== "boolean") {
+    errors.push("markdown must be true or false");
+  }
+  if (!Array.isArray(question.answers) || !question.answers.every(isString)) {
+    errors.push("answers must be a list of strings");
+    return errors;
+  }
+  if (question.answers.some((answer) => !answer.trim())) {
+    errors.push("an answer is empty");
+  }
+  if (new Set(question.answers).size !== question.answers.length) {
+    errors.push("answers contain duplicates");
+  }
+
+  const keys = Array.isArray(question.correct)
+    ? question.correct
+    : [question.correct];
+  if (!keys.length || !keys.every((key) => isString(key) && key.trim())) {
+    errors.push("correct answer is empty");
+    return errors;
+  }
+
+  const kind = getQuestionKind(question);
+  if (question.answerFormat !== undefined) {
+    if (kind !== "text") {
+      errors.push("only text questions have an answer format");
+    } else if (!ANSWER_FORMATS.includes(question.answerFormat)) {
+      errors.push(`unknown answer format "${question.answerFormat}"`);
+    } else if (
+      question.answerFormat === "number" &&
+      [...keys, ...(question.acceptedAnswers ?? [])].some((key) => isNaN(parseNumberAnswer(key)))
+    ) {
+      errors.push("correct answers of number questions must be numbers");
+    }
+  }
+  if (
+    question.tolerance !== undefined &&
+    (question.answerFormat !== "number" || !(question.tolerance >= 0))
+  ) {
+    errors.push("tolerance must be a number of at least 0, for number answers");
+  }
+  if (kind === "text" || kind === "task") {
+    if (question.answers.length) {
+      errors.push(`${kind} questions must not have answers`);
+    }
+    if (kind === "task") errors.push(...validateTask(question, keys));
+    return errors;
+  }
+
+  const correctKeys = getCorrectKeys(question);
+  const correctAnswers = getCorrectAnswers(question);
+  if (kind === "multiple" && correctAnswers.length === 0) {
+    errors.push("multiple choice questions need at least one correct answer");
+  } else if (correctAnswers.length !== correctKeys.length) {
+    errors.push(`correct "${question.correct}" is not one of the answers`);
+  } else if (new Set(correctAnswers).size !== correctAnswers.length) {
+    errors.push("correct answers contain duplicates");
+  } else if (kind === "single" && correctAnswers.length > 1) {
+    errors.push("single choice questions have exactly one correct answer");
+  }
+
+  return errors;
+};
+
+// Give every entry a stable id (the explicit `id` field, or a hash of its
+// text) and split off the entries that fail validation
+export const parseQuestionBank = (raw: unknown) => {
+  if (!Array.isArray(raw)) {
+    throw new Error("Question bank must be a JSON array");
+  }
+
+  const questions: Question[] = [];
+  const errors: QuestionError[] = [];
+
+  raw.forEach((entry, index) => {
+    const question: Question = {
+      ...entry,
+      id: entry?.id
+        ? String(entry.id)
+        : hashQuestionText(String(entry?.question ?? "")),
+    };
+    const problems = validateQuestion(question);
+
+    if (problems.length) {
+      errors.push(
+        ...problems.map((message) => ({ index, id: question.id, message }))
+      );
+    } else {
+      questions.push(question);
+    }
+  });
+
+  return { questions, errors };
+};
+
+export const normalizeQuestions = (raw: unknown): Question[] => {
+  const { questions, errors } = parseQuestionBank(raw);
+  if (errors.length) {
+    console.warn(`Skipped ${errors.length} invalid question(s):`);
+    console.table(errors);
+  }
+  return questions;
+};
+
+// The parsed bank and a hash of the file, to tell when it has changed
+export const fetchQuestionBank = async (language: Language) => {
+  const response = await fetch(QUESTION_FILES[language], { cache: "no-cache" });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${QUESTION_FILES[language]}: ${response.status}`);
+  }
+
+  const text = (await response.text()).replace(/^\uFEFF/, "");
+  return {
+    questions: normalizeQuestions(JSON.parse(text)),
+    hash: hashQuestionText(text),
+  };
+};
+
+export const loadQuestionBank = async (language: Language) => {
+  // Try to get questions from cache first
+  const cachedQuestions = await questionCache.getCachedQuestions(language);
+  if (cachedQuestions) return cachedQuestions;
+
+  // If not in cache, fetch from file and cache it for future use
+  const { questions, hash } = await fetchQuestionBank(language);
+  await questionCache.cacheQuestions(questions, language, hash);
+  return questions;
+};
+
+export const diffQuestionBanks = (
+  previous: Question[],
+  next: Question[]
+): BankChanges => {
+  const previousById = new Map(previous.map((q) => [q.id, q]));
+  const nextIds = new Set(next.map((q) => q.id));
+
+  return {
+    added: next.filter((q) => !previousById.has(q.id)),
+    removed: previous.filter((q) => !nextIds.has(q.id)),
+    changed: next.filter((q) => {
+      const old = previousById.get(q.id);
+      return old !== undefined && JSON.stringify(old) !== JSON.stringify(q);
+    }),
+  };
+};
+
+export const countBankChanges = ({ added, removed, changed }: BankChanges) =>
+  added.length + removed.length + changed.length;
+
+// Fetch the bank file and replace the cached copy if its hash differs.
+// Resolves to null when nothing changed or there was no cached copy to compare with.
+export const checkForBankUpdate = async (
+  language: Language
+): Promise<BankUpdate | null> => {
+  const cached = await questionCache.getCacheEntry(language);
+  const { questions, hash } = await fetchQuestionBank(language);
+  if (cached?.hash === hash) return null;
+
+  await questionCache.cacheQuestions(questions, language, hash);
+  if (!cached) return null;
+
+  return {
+    language,
+    questions,
+    changes: diffQuestionBanks(cached.questions, questions),
+  };
+};
+
+// Report RO/EN entries that do not pair up by id
+export const checkBankPairing = (ro: Question[], en: Question[]) => {
+  const issues: BankPairingIssue[] = [];
+  const enIds = new Set(en.map((q) => q.id));
+  const roIds = new Set(ro.map((q) => q.id));
+
+  const findDuplicates = (questions: Question[]) => {
+    const seen = new Set<string>();
+    for (const q of questions) {
+      if (seen.has(q.id)) {
+        issues.push({ id: q.id, problem: "duplicate-id", question: q.question });
+      }
+      seen.add(q.id);
+    }
+  };
+
+  findDuplicates(ro);
+  findDuplicates(en);
+
+  for (const q of ro) {
+    if (!enIds.has(q.id)) {
+      issues.push({ id: q.id, problem: "missing-en", question: q.question });
+    }
+  }
+  for (const q of en) {
+    if (!roIds.has(q.id)) {
+      issues.push({ id: q.id, problem: "missing-ro", question: q.question });
+    }
+  }
+
+  return issues;
+};
+
+export const applyOverrides = (
+  questions: Question[],
+  overrides: QuestionOverride[],
+  language: Language
+) => {
+  if (!overrides.length) return questions;
+
+  const byId = new Map(overrides.map((o) => [o.id, o[language]]));
+  return questions.map((q) => byId.get(q.id) ?? q);
+};
+
+// Question text ignoring case, accents and punctuation
+export const duplicateKey = (text: string) =>
+  foldText(text).replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+// Another question in the bank with the same text, ignoring case, accents and punctuation
+export const findDuplicateQuestion = (question: Question, bank: Question[]) => {
+  const key = duplicateKey(question.question);
+  return bank.find((q) => q.id !== question.id && duplicateKey(q.question) === key);
+};
+
+// Images are relative to public/, so they are served (and cached) from the app's origin
+export const resolveImageUrl = (image: string) =>
+  /^(https?:)?\/\//.test(image) || image.startsWith("/") ? image : `/${image}`;
+
+export const getImageUrls = (questions: Question[]) => [
+  ...new Set(questions.flatMap((q) => (q.image ? [resolveImageUrl(q.image)] : []))),
+];
+
+// Bank file contents with a stable field order, ready to commit
+export const serializeQuestionBank = (questions: Question[]) =>
+  JSON.stringify(
+    questions.map(
+      ({
+        id,
+        kind,
+        markdown,
+        question,
+        image,
+        answers,
+        correct,
+        acceptedAnswers,
+        answerFormat,
+        tolerance,
+        task,
+        topics,
+        explanation,
+        source,
+      }) => ({
+        id,
+        kind,
+        markdown,
+        question,
+        image,
+        answers,
+        correct,
+        acceptedAnswers,
+        answerFormat,
+        tolerance,
+        task,
+        topics,
+        explanation,
+        source,
+      })
+    ),
+    null,
+    2
+  ) + "\n";
@@ -1,61 +1,77 @@
 import { openDB, IDBPDatabase } from "idb";
+import { CustomBank, Question } from "../types";
 
-interface Question {
-  question: string;
-  answers: string[];
-  correct: string;
-}
-
-interface QuestionCache {
+export interface QuestionCache {
   id: string;
   questions: Question[];
+  // Hash of the bank file the questions were parsed from
+  hash?: string;
   timestamp: number;
 }
 
 const DB_NAME = "question-cache";
 const STORE_NAME = "questions";
-const CACHE_VERSION = 1;
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+const BANKS_STORE_NAME = "banks";
+const CACHE_VERSION = 3;
 
 class QuestionCacheManager {
   private db: IDBPDatabase | null = null;
 
   async init() {
     this.db = await openDB(DB_NAME, CACHE_VERSION, {
-      upgrade(db) {
+      upgrade(db, oldVersion, _newVersion, transaction) {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        } else if (oldVersion < 2) {
+          // Entries cached before version 2 have no stable question ids
+          transaction.objectStore(STORE_NAME).clear();
+        }
+        // Imported banks are kept until deleted, they never expire
+        if (!db.objectStoreNames.contains(BANKS_STORE_NAME)) {
+          db.createObjectStore(BANKS_STORE_NAME, { keyPath: "id" });
         }
       },
     });
   }
 
-  async cacheQuestions(questions: Question[], language: string = 'ro') {
+  async cacheQuestions(questions: Question[], language: string = 'ro', hash?: string) {
     if (!this.db) await this.init();
 
     const cache: QuestionCache = {
       id: `questions-${language}`,
       questions,
+      hash,
       timestamp: Date.now(),
     };
 
     await this.db!.put(STORE_NAME, cache);
   }
 
-  async getCachedQuestions(language: string = 'ro'): Promise<Question[] | null> {
+  // Cached banks never expire; they are replaced when the bank file changes
+  async getCacheEntry(language: string = 'ro'): Promise<QuestionCache | null> {
     if (!this.db) await this.init();
+    return (await this.db!.get(STORE_NAME, `questions-${language}`)) ?? null;
+  }
 
-    const cache = await this.db!.get(STORE_NAME, `questions-${language}`);
+  async getCachedQuestions(language: string = 'ro'): Promise<Question[] | null> {
+    const cache = await this.getCacheEntry(language);
+    return cache?.questions ?? null;
+  }
 
-    if (!cache) return null;
+  async saveBank(bank: CustomBank) {
+    if (!this.db) await this.init();
+    await this.db!.put(BANKS_STORE_NAME, bank);
+  }
 
-    // Check if cache is expired
-    if (Date.now() - cache.timestamp > CACHE_DURATION) {
-      await this.db!.delete(STORE_NAME, `questions-${language}`);
-      return null;
-    }
+  async getBanks(): Promise<CustomBank[]> {
+    if (!this.db) await this.init();
+    const banks: CustomBank[] = await this.db!.getAll(BANKS_STORE_NAME);
+    return banks.sort((a, b) => a.importedAt - b.importedAt);
+  }
 
-    return cache.questions;
+  async deleteBank(id: string) {
+    if (!this.db) await this.init();
+    await this.db!.delete(BANKS_STORE_NAME, id);
   }
 
   async clearCache() {
@@ -0,0 +1,52 @@
+// Seeded pseudo-random numbers (mulberry32), so a generated problem can be
+// rebuilt exactly from its seed
+export type Random = () => number;
+
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+// Whole number between min and max, both included
+export const randomInt = (random: Random, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+export const pickOne = <T>(random: Random, items: readonly T[]) =>
+  items[Math.floor(random() * items.length)];
+
+export const shuffled = <T>(random: Random, items: readonly T[]) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Answer options for a generated problem: the correct one, plausible wrong
+// results (such as another algorithm's), then near misses until there are enough
+export const answerOptions = (
+  random: Random,
+  correct: string,
+  alternatives: string[],
+  nearMiss: () => string,
+  count = 4
+) => {
+  const options = new Set([correct]);
+  for (const option of shuffled(random, alternatives)) {
+    if (options.size >= count) break;
+    options.add(option);
+  }
+  for (let tries = 0; options.size < count && tries < 50; tries++) {
+    options.add(nearMiss());
+  }
+  return shuffled(random, [...options]);
+};
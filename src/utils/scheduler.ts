@@ -0,0 +1,91 @@
+import { ReviewCard } from "../types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+// SM-2 quality grades for a binary correct/incorrect answer
+const QUALITY_CORRECT = 4;
+const QUALITY_WRONG = 1;
+
+export const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const createCard = (questionId: string, now = Date.now()): ReviewCard => ({
+  questionId,
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  lastReviewed: null,
+});
+
+export const reviewCard = (
+  card: ReviewCard,
+  correct: boolean,
+  now = Date.now()
+): ReviewCard => {
+  const quality = correct ? QUALITY_CORRECT : QUALITY_WRONG;
+  const ease = Math.max(
+    MIN_EASE,
+    card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (!correct) {
+    // A lapse resets the card and makes it due again right away
+    return {
+      ...card,
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: now,
+      lastReviewed: now,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    due: startOfDay(now) + interval * DAY,
+    lastReviewed: now,
+  };
+};
+
+// Cards due by the end of today, most overdue first
+export const getDueCards = (cards: ReviewCard[], now = Date.now()) => {
+  const endOfToday = startOfDay(now) + DAY;
+  return cards
+    .filter((card) => card.due < endOfToday)
+    .sort((a, b) => a.due - b.due);
+};
+
+// Number of cards falling due on each of the next `days` days; today includes overdue cards
+export const getDueForecast = (
+  cards: ReviewCard[],
+  days = 7,
+  now = Date.now()
+) => {
+  const today = startOfDay(now);
+  const forecast = Array.from({ length: days }, (_, i) => ({
+    date: today + i * DAY,
+    count: 0,
+  }));
+
+  for (const card of cards) {
+    const day = Math.max(0, Math.floor((card.due - today) / DAY));
+    if (day < days) forecast[day].count++;
+  }
+
+  return forecast;
+};
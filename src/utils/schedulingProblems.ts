@@ -0,0 +1,196 @@
+import { GeneratedProblem, Language } from "../types";
+import {
+  ProcessSpec,
+  SCHEDULING_ALGORITHMS,
+  SchedulingAlgorithm,
+  SchedulingResult,
+  simulateScheduling,
+} from "./schedulingSimulator";
+import { Random, pickOne, randomInt } from "./random";
+import { formatScore } from "./scoring";
+import { formatCodeTable } from "./text";
+
+type Metric = "waiting" | "turnaround";
+
+const SCHEDULING_RULES: Record<Language, Record<SchedulingAlgorithm, string>> = {
+  en: {
+    FCFS: "FCFS runs the processes to completion in the order they arrive.",
+    SJF: "Non-preemptive SJF runs the waiting process with the shortest burst to completion.",
+    SRTF: "SRTF always runs the process with the shortest remaining time, preempting the running one when a shorter process arrives.",
+    Priority: "Non-preemptive priority scheduling runs the waiting process with the highest priority to completion.",
+    RR: "Round Robin runs the processes in turn from a queue, each for at most one quantum.",
+  },
+  ro: {
+    FCFS: "FCFS ruleaza procesele pana la final, in ordinea sosirii.",
+    SJF: "SJF fara preemptiune ruleaza pana la final procesul in asteptare cu cea mai scurta durata.",
+    SRTF: "SRTF ruleaza mereu procesul cu cel mai mic timp ramas, intrerupand procesul curent cand soseste unul mai scurt.",
+    Priority: "Planificarea cu prioritati fara preemptiune ruleaza pana la final procesul in asteptare cu cea mai mare prioritate.",
+    RR: "Round Robin ruleaza procesele pe rand dintr-o coada, fiecare cel mult o cuanta.",
+  },
+};
+
+const TEXT = {
+  en: {
+    intro: (algorithm: string) => `The processes below are scheduled with ${algorithm}:`,
+    quantum: (quantum: number) =>
+      `The quantum is ${quantum}. A process that arrives when another is preempted joins the queue before it.`,
+    priority: "A lower number means a higher priority.",
+    ties: "Ties go to the process that arrived first.",
+    metricQuestion: (metric: Metric) =>
+      `What is the average ${metric === "waiting" ? "waiting" : "turnaround"} time? Give the answer as a number, rounded to two decimals.`,
+    orderQuestion: "In what order do the processes finish? List them separated by commas, e.g. P1, P2, P3.",
+    metricResult: (metric: Metric, sum: string, count: number, average: string) =>
+      `Average ${metric === "waiting" ? "waiting" : "turnaround"} time: (${sum}) / ${count} = **${average}**.`,
+    orderResult: (order: string) => `The processes finish in the order **${order}**.`,
+    definitions: "Turnaround is completion minus arrival; waiting is turnaround minus burst.",
+    process: "Process",
+    arrival: "Arrival",
+    burst: "Burst",
+    priorityColumn: "Priority",
+    completion: "Completion",
+    turnaround: "Turnaround",
+    waiting: "Waiting",
+    average: "Average",
+  },
+  ro: {
+    intro: (algorithm: string) => `Procesele de mai jos sunt planificate cu ${algorithm}:`,
+    quantum: (quantum: number) =>
+      `Cuanta este ${quantum}. Un proces care soseste in momentul in care altul este intrerupt intra primul in coada.`,
+    priority: "Un numar mai mic inseamna o prioritate mai mare.",
+    ties: "La egalitate castiga procesul sosit primul.",
+    metricQuestion: (metric: Metric) =>
+      `Care este timpul mediu de ${metric === "waiting" ? "asteptare" : "executie (turnaround)"}? Raspundeti cu un numar, rotunjit la doua zecimale.`,
+    orderQuestion: "In ce ordine se termina procesele? Enumerati-le separate prin virgula, de ex. P1, P2, P3.",
+    metricResult: (metric: Metric, sum: string, count: number, average: string) =>
+      `Timpul mediu de ${metric === "waiting" ? "asteptare" : "executie"}: (${sum}) / ${count} = **${average}**.`,
+    orderResult: (order: string) => `Procesele se termina in ordinea **${order}**.`,
+    definitions: "Timpul de executie este terminarea minus sosirea; asteptarea este timpul de executie minus durata.",
+    process: "Proces",
+    arrival: "Sosire",
+    burst: "Durata",
+    priorityColumn: "Prioritate",
+    completion: "Terminare",
+    turnaround: "Executie",
+    waiting: "Asteptare",
+    average: "Media",
+  },
+};
+
+const generateProcesses = (random: Random): ProcessSpec[] => {
+  let arrival = 0;
+  return Array.from({ length: randomInt(random, 4, 5) }, (_, i) => {
+    // The first process arrives at 0, so the CPU never starts idle
+    if (i > 0) arrival += randomInt(random, 0, 3);
+    return {
+      name: `P${i + 1}`,
+      arrival,
+      burst: randomInt(random, 1, 9),
+      priority: randomInt(random, 1, 5),
+    };
+  });
+};
+
+const schedulingSolution = (result: SchedulingResult, showPriority: boolean, language: Language) => {
+  const text = TEXT[language];
+  return {
+    gantt: result.gantt,
+    tables: [
+      {
+        columns: [
+          text.process,
+          text.arrival,
+          text.burst,
+          ...(showPriority ? [text.priorityColumn] : []),
+          text.completion,
+          text.turnaround,
+          text.waiting,
+        ],
+        rows: [
+          ...result.processes.map((p) => [
+            p.name,
+            String(p.arrival),
+            String(p.burst),
+            ...(showPriority ? [String(p.priority)] : []),
+            String(p.completion),
+            String(p.turnaround),
+            String(p.waiting),
+          ]),
+          [
+            text.average,
+            "",
+            "",
+            ...(showPriority ? [""] : []),
+            "",
+            formatScore(result.averageTurnaround),
+            formatScore(result.averageWaiting),
+          ],
+        ],
+      },
+    ],
+  };
+};
+
+export const schedulingProblem = (random: Random, language: Language): GeneratedProblem => {
+  const text = TEXT[language];
+  const algorithm = pickOne(random, SCHEDULING_ALGORITHMS);
+  const quantum = randomInt(random, 2, 4);
+  // FCFS finishes in the order of arrival, so only its averages are worth asking
+  const ask = pickOne(
+    random,
+    algorithm === "FCFS" ? (["waiting", "turnaround"] as const) : (["waiting", "turnaround", "order"] as const)
+  );
+  const showPriority = algorithm === "Priority";
+
+  // Retry until the algorithm gives a different schedule than FCFS, so it matters
+  let processes: ProcessSpec[] = [];
+  let result = {} as SchedulingResult;
+  for (let attempt = 0; attempt < 20; attempt++) {
+    processes = generateProcesses(random);
+    result = simulateScheduling(algorithm, processes, quantum);
+    const fcfs = simulateScheduling("FCFS", processes);
+    if (algorithm === "FCFS" || result.order.join() !== fcfs.order.join()) break;
+  }
+
+  const table = formatCodeTable(
+    [text.process, text.arrival, text.burst, ...(showPriority ? [text.priorityColumn] : [])],
+    processes.map((p) => [
+      p.name,
+      String(p.arrival),
+      String(p.burst),
+      ...(showPriority ? [String(p.priority)] : []),
+    ])
+  );
+  const rules = [
+    algorithm === "RR" ? text.quantum(quantum) : "",
+    showPriority ? text.priority : "",
+    text.ties,
+  ].filter(Boolean);
+
+  const order = result.order.join(", ");
+  const metric = ask === "order" ? null : ask;
+  const average = metric && (metric === "waiting" ? result.averageWaiting : result.averageTurnaround);
+  const sum =
+    metric && result.processes.map((p) => (metric === "waiting" ? p.waiting : p.turnaround)).join(" + ");
+
+  return {
+    kind: "text",
+    markdown: true,
+    question: [
+      text.intro(algorithm === "RR" ? `Round Robin (q = ${quantum})` : algorithm),
+      table,
+      rules.join(" "),
+      metric ? text.metricQuestion(metric) : text.orderQuestion,
+    ].join("\n\n"),
+    answers: [],
+    correct: metric ? formatScore(average!) : order,
+    answerFormat: metric ? "number" : "list",
+    ...(metric && { tolerance: 0.01 }),
+    explanation: [
+      SCHEDULING_RULES[language][algorithm],
+      metric
+        ? `${text.definitions} ${text.metricResult(metric, sum!, processes.length, formatScore(average!))}`
+        : text.orderResult(order),
+    ].join(" "),
+    solution: schedulingSolution(result, showPriority, language),
+  };
+};
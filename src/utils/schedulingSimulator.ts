@@ -0,0 +1,142 @@
+import { GanttSlice } from "../types";
+
+// CPU scheduling simulator, used to solve the generated scheduling problems
+
+export type SchedulingAlgorithm = "FCFS" | "SJF" | "SRTF" | "Priority" | "RR";
+
+export const SCHEDULING_ALGORITHMS: SchedulingAlgorithm[] = [
+  "FCFS",
+  "SJF",
+  "SRTF",
+  "Priority",
+  "RR",
+];
+
+export interface ProcessSpec {
+  name: string;
+  arrival: number;
+  burst: number;
+  priority: number; // a lower number runs first
+}
+
+export interface ScheduledProcess extends ProcessSpec {
+  completion: number;
+  turnaround: number; // completion - arrival
+  waiting: number; // turnaround - burst
+}
+
+export interface SchedulingResult {
+  gantt: GanttSlice[];
+  processes: ScheduledProcess[]; // in the given order
+  order: string[]; // names, by completion time
+  averageWaiting: number;
+  averageTurnaround: number;
+}
+
+// Ties between processes go to the one that arrived first, then to the one listed first
+export const simulateScheduling = (
+  algorithm: SchedulingAlgorithm,
+  processes: ProcessSpec[],
+  quantum = 2
+): SchedulingResult => {
+  const remaining = processes.map((p) => p.burst);
+  const completion: number[] = Array(processes.length).fill(0);
+  const order: string[] = [];
+  const gantt: GanttSlice[] = [];
+  // Processes that have not arrived yet, by arrival
+  const pending = processes
+    .map((_, i) => i)
+    .sort((a, b) => processes[a].arrival - processes[b].arrival || a - b);
+  // Round robin's queue; the other algorithms pick from it by their own key
+  const ready: number[] = [];
+  let time = 0;
+
+  const admit = () => {
+    while (pending.length && processes[pending[0]].arrival <= time) {
+      ready.push(pending.shift()!);
+    }
+  };
+
+  const run = (process: number | null, until: number) => {
+    const name = process === null ? null : processes[process].name;
+    const last = gantt[gantt.length - 1];
+    // Round robin shows every quantum, even when the same process runs again
+    if (last && last.process === name && (algorithm !== "RR" || name === null)) {
+      last.end = until;
+    } else {
+      gantt.push({ process: name, start: time, end: until });
+    }
+    time = until;
+  };
+
+  const pick = (key: (i: number) => number) =>
+    ready.reduce((best, i) => (key(i) < key(best) ? i : best));
+
+  admit();
+  while (order.length < processes.length) {
+    if (!ready.length) {
+      run(null, processes[pending[0]].arrival);
+      admit();
+      continue;
+    }
+
+    let process: number;
+    let until: number;
+    switch (algorithm) {
+      case "FCFS":
+        process = ready[0];
+        until = time + remaining[process];
+        break;
+      case "SJF":
+        process = pick((i) => processes[i].burst);
+        until = time + remaining[process];
+        break;
+      case "Priority":
+        process = pick((i) => processes[i].priority);
+        until = time + remaining[process];
+        break;
+      case "SRTF": {
+        process = pick((i) => remaining[i]);
+        // Run until it finishes or the next arrival, which may preempt it
+        const next = pending.length ? processes[pending[0]].arrival : Infinity;
+        until = Math.min(time + remaining[process], next);
+        break;
+      }
+      case "RR":
+        process = ready[0];
+        until = time + Math.min(quantum, remaining[process]);
+        break;
+    }
+
+    ready.splice(ready.indexOf(process), 1);
+    remaining[process] -= until - time;
+    run(process, until);
+    // Processes arriving during the slice queue up before the preempted one
+    admit();
+
+    if (remaining[process] === 0) {
+      completion[process] = time;
+      order.push(processes[process].name);
+    } else if (algorithm === "RR") {
+      ready.push(process);
+    } else {
+      // SRTF keeps the order of arrival, so ties still go to the earliest process
+      ready.push(process);
+      ready.sort((a, b) => processes[a].arrival - processes[b].arrival || a - b);
+    }
+  }
+
+  const scheduled = processes.map((p, i) => {
+    const turnaround = completion[i] - p.arrival;
+    return { ...p, completion: completion[i], turnaround, waiting: turnaround - p.burst };
+  });
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  return {
+    gantt,
+    processes: scheduled,
+    order,
+    averageWaiting: average(scheduled.map((p) => p.waiting)),
+    averageTurnaround: average(scheduled.map((p) => p.turnaround)),
+  };
+};
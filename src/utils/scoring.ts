@@ -0,0 +1,162 @@
+import { AnswerValue, MultiScoring, Question, QuestionKind } from "../types";
+import { runTask } from "./shell";
+import { foldText } from "./text";
+
+// "ac" style keys, as used by main.py for multiple choice questions
+const LETTER_KEY = /^[a-z]+$/;
+
+export const answerLetter = (index: number) => String.fromCharCode(97 + index);
+
+export const getQuestionKind = (question: Question): QuestionKind => {
+  if (question.kind) return question.kind;
+  if (question.answers.length === 0) return "text";
+  if (Array.isArray(question.correct)) return "multiple";
+  if (
+    !question.answers.includes(question.correct) &&
+    LETTER_KEY.test(question.correct) &&
+    question.correct.length > 1
+  ) {
+    return "multiple";
+  }
+  return "single";
+};
+
+// Resolve a key entry (answer text or letter) to the answer text
+const resolveKey = (question: Question, key: string) => {
+  if (question.answers.includes(key)) return key;
+  if (key.length === 1 && LETTER_KEY.test(key)) {
+    return question.answers[key.charCodeAt(0) - 97];
+  }
+  return undefined;
+};
+
+// The entries of `correct`, with "ac" split into one letter per answer
+export const getCorrectKeys = (question: Question): string[] => {
+  if (Array.isArray(question.correct)) return question.correct;
+  if (
+    getQuestionKind(question) === "multiple" &&
+    !question.answers.includes(question.correct)
+  ) {
+    return [...question.correct];
+  }
+  return [question.correct];
+};
+
+// The correct answer texts of a choice question, the accepted answers of a
+// text question, or the reference commands of a task
+export const getCorrectAnswers = (question: Question): string[] => {
+  const keys = getCorrectKeys(question);
+  const kind = getQuestionKind(question);
+
+  if (kind === "text" || kind === "task") {
+    return [...keys, ...(question.acceptedAnswers ?? [])];
+  }
+  return keys.flatMap((key) => {
+    const answer = resolveKey(question, key);
+    return answer === undefined ? [] : [answer];
+  });
+};
+
+export const isCorrectOption = (question: Question, answer: string) =>
+  getCorrectAnswers(question).includes(answer);
+
+export const isSelected = (response: AnswerValue, answer: string) =>
+  Array.isArray(response) ? response.includes(answer) : response === answer;
+
+// Case, diacritics and whitespace do not matter for free text answers
+export const normalizeTextAnswer = (text: string) =>
+  foldText(text).trim().replace(/\s+/g, " ");
+
+// "4.5", "4,5" or "9/2"; NaN when the text is not a number
+export const parseNumberAnswer = (text: string) => {
+  const value = text.trim().replace(",", ".");
+  const fraction = /^(-?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/.exec(value);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(value) ? Number(value) : NaN;
+};
+
+// Only the items of a list answer count, not the commas or arrows between them
+const normalizeListAnswer = (text: string) =>
+  normalizeTextAnswer(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .join(" ");
+
+const textAnswerMatches = (question: Question, answer: string, given: string) => {
+  switch (question.answerFormat) {
+    case "number": {
+      const value = parseNumberAnswer(given);
+      // The small slack absorbs rounding in decimal answers
+      return Math.abs(value - parseNumberAnswer(answer)) <= (question.tolerance ?? 0) + 1e-9;
+    }
+    case "list":
+      return normalizeListAnswer(answer) === normalizeListAnswer(given);
+    default:
+      return normalizeTextAnswer(answer) === normalizeTextAnswer(given);
+  }
+};
+
+export const hasResponse = (response: AnswerValue) =>
+  Array.isArray(response) ? response.length > 0 : response.trim().length > 0;
+
+// Credit between 0 and 1 for a response
+export const gradeAnswer = (
+  question: Question,
+  response: AnswerValue,
+  scoring: MultiScoring = "all-or-nothing"
+): number => {
+  const correctAnswers = getCorrectAnswers(question);
+
+  switch (getQuestionKind(question)) {
+    case "text": {
+      const given = Array.isArray(response) ? response.join(" ") : response;
+      return correctAnswers.some((a) => textAnswerMatches(question, a, given)) ? 1 : 0;
+    }
+
+    case "task": {
+      // Any command that prints and leaves the same as a reference one
+      const given = Array.isArray(response) ? response.join(" ") : response;
+      if (!given.trim()) return 0;
+      const outcome = runTask(question.task, given);
+      return correctAnswers.some((a) => runTask(question.task, a) === outcome) ? 1 : 0;
+    }
+
+    case "multiple": {
+      const selected = Array.isArray(response) ? response : [response];
+      const hits = selected.filter((a) => correctAnswers.includes(a)).length;
+      const misses = selected.length - hits;
+
+      // A key that names no option would divide by zero below
+      if (correctAnswers.length === 0) return 0;
+      if (scoring === "partial") {
+        // Each wrong selection cancels out a right one
+        return Math.max(0, (hits - misses) / correctAnswers.length);
+      }
+      return hits === correctAnswers.length && misses === 0 ? 1 : 0;
+    }
+
+    default:
+      return correctAnswers.includes(
+        Array.isArray(response) ? response[0] : response
+      )
+        ? 1
+        : 0;
+  }
+};
+
+// Accepted answers of a text question for display: "4.33 (± 0.01)", or the
+// first few of a long list such as every safe sequence
+export const describeAcceptedAnswers = (question: Question, shown = 3) => {
+  const answers = getCorrectAnswers(question);
+  const more = answers.length - shown;
+  return [
+    answers.slice(0, shown).join(" / "),
+    more > 0 ? ` / … (${more} more)` : "",
+    question.answerFormat === "number" && question.tolerance ? ` (± ${question.tolerance})` : "",
+  ].join("");
+};
+
+export const formatResponse = (response: AnswerValue) =>
+  Array.isArray(response) ? response.join(", ") : response;
+
+export const formatScore = (score: number) => Number(score.toFixed(2)).toString();
@@ -0,0 +1,290 @@
+import { AnswerEvent, Question, QuestionNote } from "../types";
+import { foldText } from "./text";
+
+export type SearchFilter =
+  | "is:wrong"
+  | "is:flagged"
+  | "is:unseen"
+  | "correct:false"
+  | "correct:true";
+
+export const SEARCH_FILTERS: Record<SearchFilter, string> = {
+  "is:wrong": "answered wrongly at least once",
+  "is:flagged": "reported as broken",
+  "is:unseen": "never answered",
+  "correct:false": "last answer was wrong",
+  "correct:true": "last answer was right",
+};
+
+type FieldSource =
+  | "question"
+  | "translation"
+  | "answer"
+  | "translated-answer"
+  | "explanation"
+  | "note";
+
+// Matches in the question itself count more than matches in its answers,
+// translation, explanation or the user's note
+const FIELD_WEIGHTS: Record<FieldSource, number> = {
+  question: 1,
+  translation: 0.8,
+  answer: 0.6,
+  note: 0.6,
+  "translated-answer": 0.5,
+  explanation: 0.4,
+};
+
+interface SearchField {
+  source: FieldSource;
+  text: string;
+  tokens: Set<string>;
+}
+
+export interface SearchDocument {
+  index: number;
+  question: Question;
+  translation?: Question;
+  note?: string;
+  fields: SearchField[];
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  vocabulary: string[];
+}
+
+export interface SearchResult {
+  index: number;
+  question: Question;
+  translation?: Question;
+  note?: string;
+  score: number;
+  // Folded tokens that matched a search term, for highlighting
+  matched: Set<string>;
+}
+
+export interface SearchContext {
+  events: AnswerEvent[];
+  flaggedIds: Set<string>;
+}
+
+export const tokenize = (text: string) =>
+  foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// How well a search term matches a word, between 0 (no match) and 1 (exact)
+const matchTerm = (term: string, token: string) => {
+  if (token === term) return 1;
+  if (term.length >= 2 && token.startsWith(term)) return 0.8;
+
+  const maxTypos = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (!maxTypos) return 0;
+  if (editDistance(term, token, maxTypos) <= maxTypos) return 0.6;
+  // A typo in the beginning of a longer word ("impsa" for "impasul")
+  if (
+    token.length > term.length &&
+    editDistance(term, token.slice(0, term.length), maxTypos) <= maxTypos
+  ) {
+    return 0.5;
+  }
+  return 0;
+};
+
+const createField = (source: FieldSource, text: string): SearchField => ({
+  source,
+  text,
+  tokens: new Set(tokenize(text)),
+});
+
+// Index the question text, answers and explanation in both languages, paired
+// by id, together with the user's notes
+export const buildSearchIndex = (
+  questions: Question[],
+  translations: Question[],
+  notes: QuestionNote[] = []
+): SearchIndex => {
+  const translationsById = new Map(translations.map((q) => [q.id, q]));
+  const notesById = new Map(notes.map((n) => [n.questionId, n.text]));
+  const vocabulary = new Set<string>();
+
+  const documents = questions.map((question, index) => {
+    const translation = translationsById.get(question.id);
+    const note = notesById.get(question.id);
+    const explanations = [question.explanation, translation?.explanation].filter(
+      (text): text is string => !!text
+    );
+    const fields = [
+      createField("question", question.question),
+      ...question.answers.map((answer) => createField("answer", answer)),
+      ...(translation
+        ? [
+            createField("translation", translation.question),
+            ...translation.answers.map((answer) =>
+              createField("translated-answer", answer)
+            ),
+          ]
+        : []),
+      ...explanations.map((text) => createField("explanation", text)),
+      ...(note ? [createField("note", note)] : []),
+    ];
+    fields.forEach((field) => field.tokens.forEach((token) => vocabulary.add(token)));
+
+    return { index, question, translation, note, fields };
+  });
+
+  return { documents, vocabulary: [...vocabulary] };
+};
+
+export const parseSearchQuery = (input: string) => {
+  const filters: SearchFilter[] = [];
+  const text: string[] = [];
+
+  for (const part of input.trim().split(/\s+/).filter(Boolean)) {
+    const filter = part.toLowerCase();
+    if (filter in SEARCH_FILTERS) {
+      filters.push(filter as SearchFilter);
+    } else {
+      text.push(part);
+    }
+  }
+
+  return { filters, terms: tokenize(text.join(" ")) };
+};
+
+const createFilterTest = ({ events, flaggedIds }: SearchContext) => {
+  const wrong = new Set<string>();
+  const last = new Map<string, boolean>();
+  for (const event of events) {
+    if (!event.correct) wrong.add(event.questionId);
+    last.set(event.questionId, event.correct);
+  }
+
+  return (filter: SearchFilter, id: string) => {
+    switch (filter) {
+      case "is:wrong":
+        return wrong.has(id);
+      case "is:flagged":
+        return flaggedIds.has(id);
+      case "is:unseen":
+        return !last.has(id);
+      case "correct:false":
+        return last.get(id) === false;
+      default:
+        return last.get(id) === true;
+    }
+  };
+};
+
+// Results matching every filter and every term, best match first
+export const searchQuestions = (
+  index: SearchIndex,
+  input: string,
+  context: SearchContext
+): SearchResult[] => {
+  const { filters, terms } = parseSearchQuery(input);
+  const passesFilter = createFilterTest(context);
+
+  // Score each distinct word once per term instead of once per question
+  const termMatches = terms.map((term) => {
+    const matches = new Map<string, number>();
+    for (const token of index.vocabulary) {
+      const score = matchTerm(term, token);
+      if (score > 0) matches.set(token, score);
+    }
+    return matches;
+  });
+
+  const results: SearchResult[] = [];
+
+  for (const document of index.documents) {
+    const { question } = document;
+    if (!filters.every((filter) => passesFilter(filter, question.id))) continue;
+
+    const matched = new Set<string>();
+    let score = 0;
+    let matchesAll = true;
+
+    terms.forEach((term, i) => {
+      // The question number matches too ("12" finds Q12)
+      let best = term === String(document.index + 1) ? 1.5 : 0;
+      for (const field of document.fields) {
+        for (const token of field.tokens) {
+          const tokenScore = termMatches[i].get(token);
+          if (!tokenScore) continue;
+          matched.add(token);
+          best = Math.max(best, tokenScore * FIELD_WEIGHTS[field.source]);
+        }
+      }
+      if (best === 0) matchesAll = false;
+      score += best;
+    });
+
+    if (matchesAll) {
+      results.push({
+        index: document.index,
+        question,
+        translation: document.translation,
+        note: document.note,
+        score,
+        matched,
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.index - b.index);
+};
+
+// Split text into parts, marking the words that matched the search
+export const highlightMatches = (text: string, matched: Set<string>) =>
+  text
+    .split(/([\p{L}\p{N}]+)/u)
+    .filter(Boolean)
+    .map((part) => ({ text: part, isMatch: matched.has(foldText(part)) }));
+
+export const hasMatch = (text: string, matched: Set<string>) =>
+  tokenize(text).some((token) => matched.has(token));
+
+// A single-line excerpt of a long text around its first matching word
+export const matchExcerpt = (text: string, matched: Set<string>, radius = 50) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const parts = highlightMatches(flat, matched);
+  let offset = 0;
+  for (const part of parts) {
+    if (part.isMatch) break;
+    offset += part.text.length;
+  }
+
+  const start = Math.max(0, offset - radius);
+  const end = Math.min(flat.length, offset + radius * 2);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+};
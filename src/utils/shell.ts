@@ -0,0 +1,415 @@
+import { ShellTask } from "../types";
+import { COMMANDS, CommandContext, UsageError, runScript } from "./shellCommands";
+import { HOME, USER, VirtualFs, createFs, listDirectory, lookup, readFile, writeFile } from "./virtualFs";
+
+// A small bash for the sandbox: quoting, $VARIABLES, wildcards, pipes,
+// redirection and ";", "&&", "||" lists, running the commands in
+// shellCommands.ts against a virtual filesystem
+
+export interface ShellResult {
+  output: string; // stdout and stderr, as the terminal shows them
+  stdout: string; // only what reached the terminal on stdout
+  status: number;
+}
+
+class ShellError extends Error {}
+
+// Variables are expanded when the command runs, so "false; echo $?" sees
+// the status of false
+type WordPart = { text: string; glob: boolean } | { variable: string };
+
+interface Word {
+  parts: WordPart[];
+}
+
+// Characters of an expanded word; `glob` marks the unquoted wildcards (* ? [...])
+interface ExpandedWord {
+  text: string;
+  glob: boolean[];
+}
+
+type Token = { type: "word"; word: Word } | { type: "op"; value: string };
+
+interface SimpleCommand {
+  words: Word[];
+  redirects: { op: string; target: Word }[];
+}
+
+interface ListItem {
+  pipeline: SimpleCommand[];
+  connector: string; // how it follows the previous pipeline: ";", "&&" or "||"
+}
+
+interface ShellState {
+  fs: VirtualFs;
+  status: number;
+  depth: number;
+  output: string[];
+  stdout: string[];
+}
+
+// Longest first
+const OPERATORS = ["2>>", "&&", "||", ">>", "2>", ">", "<", "|", ";", "\n"];
+const REDIRECTS = ["<", ">", ">>", "2>", "2>>"];
+const MAX_DEPTH = 8;
+
+const variables = (state: ShellState): Record<string, string> => ({
+  HOME,
+  USER,
+  PWD: state.fs.cwd,
+  SHELL: "/bin/bash",
+  "?": String(state.status),
+});
+
+// $NAME, ${NAME} or $?; returns the variable's name (null for a lone "$")
+// and the index after it
+const readVariable = (line: string, start: number): [string | null, number] => {
+  if (line[start + 1] === "(") throw new ShellError("command substitution is not supported");
+  const match = /^\$(?:\{(\w+|\?)\}|(\w+|\?))/.exec(line.slice(start));
+  if (!match) return [null, start + 1];
+  return [match[1] ?? match[2], start + match[0].length];
+};
+
+const tokenize = (line: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+    if (char === " " || char === "\t" || char === "\r") {
+      i++;
+      continue;
+    }
+    if (char === "#") {
+      while (i < line.length && line[i] !== "\n") i++;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => line.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "op", value: operator === "\n" ? ";" : operator });
+      i += operator.length;
+      continue;
+    }
+    if (char === "&") throw new ShellError("background jobs (&) are not supported");
+
+    const word: Word = { parts: [] };
+    const literal = (text: string) => word.parts.push({ text, glob: false });
+    const wildcard = (text: string) => word.parts.push({ text, glob: true });
+    const variable = (start: number) => {
+      const [name, next] = readVariable(line, start);
+      word.parts.push(name === null ? { text: "$", glob: false } : { variable: name });
+      return next;
+    };
+    while (i < line.length && !/[\s|;&<>]/.test(line[i])) {
+      const c = line[i];
+      if (c === "'") {
+        const end = line.indexOf("'", i + 1);
+        if (end < 0) throw new ShellError("unexpected end of input, unmatched '");
+        literal(line.slice(i + 1, end));
+        i = end + 1;
+      } else if (c === '"') {
+        let text = "";
+        i++;
+        while (i < line.length && line[i] !== '"') {
+          if (line[i] === "\\" && '$`"\\'.includes(line[i + 1])) {
+            text += line[i + 1];
+            i += 2;
+          } else if (line[i] === "$") {
+            literal(text);
+            text = "";
+            i = variable(i);
+          } else if (line[i] === "`") {
+            throw new ShellError("command substitution is not supported");
+          } else {
+            text += line[i++];
+          }
+        }
+        if (i >= line.length) throw new ShellError('unexpected end of input, unmatched "');
+        literal(text);
+        i++;
+      } else if (c === "\\") {
+        literal(line[i + 1] ?? "");
+        i += 2;
+      } else if (c === "$") {
+        i = variable(i);
+      } else if (c === "`") {
+        throw new ShellError("command substitution is not supported");
+      } else if (c === "~" && !word.parts.length && /^(\/|\s|$)/.test(line.slice(i + 1, i + 2))) {
+        literal(HOME);
+        i++;
+      } else if (c === "*" || c === "?") {
+        wildcard(c);
+        i++;
+      } else if (c === "[" && /^\[!?\]?[^\]\s]*\]/.test(line.slice(i))) {
+        const bracket = /^\[!?\]?[^\]\s]*\]/.exec(line.slice(i))![0];
+        wildcard(bracket);
+        i += bracket.length;
+      } else {
+        literal(c);
+        i++;
+      }
+    }
+    tokens.push({ type: "word", word });
+  }
+  return tokens;
+};
+
+const parse = (tokens: Token[]): ListItem[] => {
+  const items: ListItem[] = [];
+  let connector = ";";
+  let pipeline: SimpleCommand[] = [];
+  let command: SimpleCommand = { words: [], redirects: [] };
+  const unexpected = (value: string) => new ShellError(`syntax error near unexpected token '${value}'`);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "word") {
+      command.words.push(token.word);
+    } else if (REDIRECTS.includes(token.value)) {
+      const target = tokens[++i];
+      if (!target || target.type !== "word") throw unexpected(target?.type === "op" ? target.value : "newline");
+      command.redirects.push({ op: token.value, target: target.word });
+    } else {
+      if (!command.words.length && !command.redirects.length) {
+        // Empty statements between semicolons are fine, empty pipeline stages are not
+        if (token.value === ";" && !pipeline.length) continue;
+        throw unexpected(token.value);
+      }
+      pipeline.push(command);
+      command = { words: [], redirects: [] };
+      if (token.value !== "|") {
+        items.push({ pipeline, connector });
+        pipeline = [];
+        connector = token.value;
+      }
+    }
+  }
+  if (command.words.length || command.redirects.length) pipeline.push(command);
+  else if (pipeline.length || connector !== ";") throw unexpected("newline");
+  if (pipeline.length) items.push({ pipeline, connector });
+  return items;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const resolveWord = (state: ShellState, word: Word): ExpandedWord => {
+  const values = variables(state);
+  const expanded: ExpandedWord = { text: "", glob: [] };
+  for (const part of word.parts) {
+    const text = "variable" in part ? (values[part.variable] ?? "") : part.text;
+    expanded.text += text;
+    expanded.glob.push(...Array.from(text, () => "glob" in part && part.glob));
+  }
+  return expanded;
+};
+
+// One path component of a word, as a regular expression when it has wildcards
+const componentPattern = (word: ExpandedWord, start: number, end: number) => {
+  if (!word.glob.slice(start, end).some(Boolean)) return null;
+  let source = "";
+  for (let i = start; i < end; i++) {
+    const char = word.text[i];
+    if (!word.glob[i]) source += escapeRegExp(char);
+    else if (char === "*") source += ".*";
+    else if (char === "?") source += ".";
+    else {
+      const close = word.text.indexOf("]", i + 2);
+      const body = word.text.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\");
+      source += `[${body}]`;
+      i = close;
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Pathname expansion; a pattern matching nothing stays as it is, as in bash
+const expandWord = (state: ShellState, unexpanded: Word): string[] => {
+  const { fs } = state;
+  const word = resolveWord(state, unexpanded);
+  if (!word.glob.some(Boolean)) return [word.text];
+  const components: { text: string; pattern: RegExp | null }[] = [];
+  let start = 0;
+  for (let i = 0; i <= word.text.length; i++) {
+    if (i === word.text.length || word.text[i] === "/") {
+      components.push({ text: word.text.slice(start, i), pattern: componentPattern(word, start, i) });
+      start = i + 1;
+    }
+  }
+
+  let paths = [""];
+  components.forEach(({ text, pattern }, index) => {
+    const join = (prefix: string, name: string) => (index === 0 ? name : `${prefix}/${name}`);
+    if (!pattern) {
+      paths = paths.map((prefix) => join(prefix, text));
+      return;
+    }
+    paths = paths.flatMap((prefix) => {
+      let names: string[];
+      try {
+        names = listDirectory(fs, index === 0 ? "." : prefix || "/");
+      } catch {
+        return [];
+      }
+      // Hidden files only match a pattern that starts with a dot
+      return names
+        .filter((name) => pattern.test(name) && (!name.startsWith(".") || text.startsWith(".")))
+        .map((name) => join(prefix, name));
+    });
+  });
+  return paths.length ? paths : [word.text];
+};
+
+const reason = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const runSimpleCommand = (
+  state: ShellState,
+  command: SimpleCommand,
+  input: string,
+  pipeOut: ((text: string) => void) | null
+): number => {
+  const { fs } = state;
+  const terminalErr = (text: string) => {
+    state.output.push(text);
+  };
+  let stdin = input;
+  let out =
+    pipeOut ??
+    ((text: string) => {
+      state.output.push(text);
+      state.stdout.push(text);
+    });
+  let err = terminalErr;
+  let terminal = !pipeOut;
+
+  // Files are created (or emptied) before the command runs, as in bash
+  for (const { op, target } of command.redirects) {
+    const paths = expandWord(state, target);
+    if (paths.length !== 1) {
+      err(`bash: ${resolveWord(state, target).text}: ambiguous redirect\n`);
+      return 1;
+    }
+    const [path] = paths;
+    try {
+      if (op === "<") {
+        stdin = readFile(fs, path);
+      } else {
+        writeFile(fs, path, "", op.endsWith(">>"));
+        const append = (text: string) => {
+          writeFile(fs, path, text, true);
+        };
+        if (op.startsWith("2")) err = append;
+        else {
+          out = append;
+          terminal = false;
+        }
+      }
+    } catch (error) {
+      terminalErr(`bash: ${path}: ${reason(error)}\n`);
+      return 1;
+    }
+  }
+
+  const words = command.words.flatMap((word) => expandWord(state, word));
+  if (!words.length) return 0;
+  const [name, ...args] = words;
+  const context: CommandContext = {
+    fs,
+    args,
+    stdin,
+    terminal,
+    out,
+    err,
+    run: (line) => runLine(state, line),
+  };
+
+  try {
+    // ./script.sh runs a script, which needs the execute permission
+    if (name.includes("/")) {
+      let inode;
+      try {
+        inode = lookup(fs, name);
+      } catch (error) {
+        err(`bash: ${name}: ${reason(error)}\n`);
+        return 127;
+      }
+      if (inode.type === "directory") {
+        err(`bash: ${name}: Is a directory\n`);
+        return 126;
+      }
+      if (!(inode.mode & 0o100)) {
+        err(`bash: ${name}: Permission denied\n`);
+        return 126;
+      }
+      return runScript(context, name);
+    }
+    const run = COMMANDS[name];
+    if (!run) {
+      err(`${name}: command not found\n`);
+      return 127;
+    }
+    return run(context);
+  } catch (error) {
+    if (error instanceof ShellError) throw error;
+    err(`${name}: ${reason(error)}\n`);
+    return error instanceof UsageError ? 2 : 1;
+  }
+};
+
+const runPipeline = (state: ShellState, pipeline: SimpleCommand[]) => {
+  let input = "";
+  let status = 0;
+  pipeline.forEach((command, i) => {
+    let captured = "";
+    const last = i === pipeline.length - 1;
+    status = runSimpleCommand(state, command, input, last ? null : (text) => (captured += text));
+    input = captured;
+  });
+  return status;
+};
+
+const runLine = (state: ShellState, line: string): number => {
+  if (state.depth >= MAX_DEPTH) {
+    state.output.push("bash: maximum script nesting reached\n");
+    return 1;
+  }
+  state.depth++;
+  try {
+    for (const { pipeline, connector } of parse(tokenize(line))) {
+      if ((connector === "&&" && state.status !== 0) || (connector === "||" && state.status === 0)) continue;
+      state.status = runPipeline(state, pipeline);
+    }
+  } catch (error) {
+    if (!(error instanceof ShellError)) throw error;
+    state.output.push(`bash: ${error.message}\n`);
+    state.status = 2;
+  } finally {
+    state.depth--;
+  }
+  return state.status;
+};
+
+// Runs a command line, changing the filesystem as it goes
+export const runCommand = (fs: VirtualFs, line: string): ShellResult => {
+  const state: ShellState = { fs, status: 0, depth: 0, output: [], stdout: [] };
+  const status = runLine(state, line);
+  return { output: state.output.join(""), stdout: state.stdout.join(""), status };
+};
+
+const trimOutput = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .trimEnd();
+
+// What a command does to a task's sandbox: its output, then the output of the
+// task's check command. Two commands solve the task equally when these match
+export const runTask = (task: ShellTask | undefined, command: string) => {
+  const fs = createFs(task);
+  const outputs = [runCommand(fs, command).stdout];
+  if (task?.check) {
+    // Timestamps only record how many changes were made, which is no concern of the check
+    for (const inode of fs.inodes.values()) inode.modified = 0;
+    outputs.push(runCommand(fs, task.check).stdout);
+  }
+  return outputs.map(trimOutput).join("\n");
+};
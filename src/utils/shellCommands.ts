@@ -0,0 +1,787 @@
+import { runAwk } from "./awk";
+import { toJsRegexSource } from "./posixRegex";
+import {
+  FsError,
+  HOME,
+  Inode,
+  USER,
+  VirtualFs,
+  baseName,
+  changeDirectory,
+  exists,
+  formatMode,
+  inodeTime,
+  listDirectory,
+  lookup,
+  makeDirectory,
+  makeLink,
+  makeSymlink,
+  readFile,
+  removeEntry,
+  setMode,
+  touch,
+} from "./virtualFs";
+
+// The commands of the shell sandbox. Each one writes through the context and
+// returns its exit status; messages and exit statuses follow GNU coreutils
+
+export interface CommandContext {
+  fs: VirtualFs;
+  args: string[];
+  stdin: string; // empty when nothing is piped or redirected in
+  terminal: boolean; // stdout is shown rather than piped or redirected
+  out: (text: string) => void;
+  err: (text: string) => void;
+  run: (line: string) => number; // runs a line in the same shell (scripts)
+}
+
+export type Command = (ctx: CommandContext) => number;
+
+// Bad options; the shell reports it as "<command>: <message>"
+export class UsageError extends Error {}
+
+const UMASK = 0o022;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const reason = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Short options, grouped ("-li") or not; options in `valued` take the rest of
+// the group or the next argument ("-F:" or "-F :"). Options may follow operands
+const parseOptions = (args: string[], allowed: string, valued = "") => {
+  const flags = new Set<string>();
+  const values: Record<string, string[]> = {};
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      operands.push(arg);
+      continue;
+    }
+    for (let j = 1; j < arg.length; j++) {
+      const option = arg[j];
+      if (valued.includes(option)) {
+        const value = j + 1 < arg.length ? arg.slice(j + 1) : args[++i];
+        if (value === undefined) throw new UsageError(`option requires an argument -- '${option}'`);
+        (values[option] ??= []).push(value);
+        break;
+      }
+      if (!allowed.includes(option)) throw new UsageError(`invalid option -- '${option}'`);
+      flags.add(option);
+    }
+  }
+  return { flags, values, operands };
+};
+
+// Lines with their terminators, so a missing final newline is kept
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+// Lines without the empty one after the final newline
+const toLines = (text: string) => splitLines(text).map((line) => line.replace(/\n$/, ""));
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const readInput = (ctx: CommandContext, operand: string) =>
+  operand === "-" ? ctx.stdin : readFile(ctx.fs, operand);
+
+// "Oct  7 10:03", as ls -l shows recent files
+const formatTime = (inode: Inode) => {
+  const date = inodeTime(inode);
+  const time = [date.getUTCHours(), date.getUTCMinutes()].map((n) => String(n).padStart(2, "0")).join(":");
+  return `${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2)} ${time}`;
+};
+
+const inodeSize = (inode: Inode) => (inode.type === "directory" ? 4096 : byteLength(inode.content));
+
+// Disk usage in 1K blocks, with 4K allocation units
+const inodeBlocks = (inode: Inode) =>
+  inode.type === "symlink" ? 0 : Math.ceil(inodeSize(inode) / 4096) * 4;
+
+interface ListEntry {
+  name: string;
+  inode: Inode;
+}
+
+const ls: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "laid1");
+  const long = flags.has("l");
+  const showInodes = flags.has("i");
+  const targets = (operands.length ? operands : ["."]).sort(compareText);
+  const files: ListEntry[] = [];
+  const directories: string[] = [];
+  let status = 0;
+
+  for (const target of targets) {
+    try {
+      // ls -l shows a symlink itself; plain ls lists the directory it points to
+      const inode = lookup(ctx.fs, target, !(long || flags.has("d")) || target.endsWith("/"));
+      if (inode.type === "directory" && !flags.has("d")) directories.push(target);
+      else files.push({ name: target, inode });
+    } catch (error) {
+      ctx.err(`ls: cannot access '${target}': ${reason(error)}\n`);
+      status = 2;
+    }
+  }
+
+  const format = (entries: ListEntry[], withTotal: boolean) => {
+    const width = (values: (string | number)[]) => Math.max(0, ...values.map((value) => String(value).length));
+    const inodeWidth = width(entries.map((entry) => entry.inode.number));
+    const prefix = (entry: ListEntry) =>
+      showInodes ? `${String(entry.inode.number).padStart(inodeWidth)} ` : "";
+
+    if (long) {
+      const linkWidth = width(entries.map((entry) => entry.inode.links));
+      const sizeWidth = width(entries.map((entry) => inodeSize(entry.inode)));
+      const lines = entries.map(({ name, inode }) => {
+        const target = inode.type === "symlink" ? ` -> ${inode.content}` : "";
+        return (
+          `${prefix({ name, inode })}${formatMode(inode)} ${String(inode.links).padStart(linkWidth)} ` +
+          `${USER} ${USER} ${String(inodeSize(inode)).padStart(sizeWidth)} ${formatTime(inode)} ${name}${target}\n`
+        );
+      });
+      const total = entries.reduce((sum, entry) => sum + inodeBlocks(entry.inode), 0);
+      return (withTotal ? `total ${total}\n` : "") + lines.join("");
+    }
+    if (!entries.length) return "";
+    // One name per line when piped, as ls does
+    if (flags.has("1") || !ctx.terminal) return entries.map((entry) => `${prefix(entry)}${entry.name}\n`).join("");
+    return entries.map((entry) => `${prefix(entry)}${entry.name}`).join("  ") + "\n";
+  };
+
+  const blocks: string[] = [];
+  if (files.length) blocks.push(format(files, false));
+  for (const directory of directories) {
+    const header = targets.length > 1 ? `${directory}:\n` : "";
+    try {
+      const names = listDirectory(ctx.fs, directory);
+      const shown = flags.has("a") ? [".", "..", ...names] : names.filter((name) => !name.startsWith("."));
+      const entries = shown.map((name) => ({ name, inode: lookup(ctx.fs, `${directory}/${name}`, false) }));
+      blocks.push(header + format(entries, true));
+    } catch (error) {
+      ctx.err(`ls: cannot open directory '${directory}': ${reason(error)}\n`);
+      status = 2;
+    }
+  }
+  ctx.out(blocks.join("\n"));
+  return status;
+};
+
+const cat: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "n");
+  let status = 0;
+  let content = "";
+  for (const operand of operands.length ? operands : ["-"]) {
+    try {
+      content += readInput(ctx, operand);
+    } catch (error) {
+      ctx.err(`cat: ${operand}: ${reason(error)}\n`);
+      status = 1;
+    }
+  }
+  if (flags.has("n")) {
+    content = splitLines(content)
+      .map((line, i) => `${String(i + 1).padStart(6)}\t${line}`)
+      .join("");
+  }
+  ctx.out(content);
+  return status;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+const grep: Command = (ctx) => {
+  const { flags, values, operands } = parseOptions(ctx.args, "ivcnwxlLhHoqsEF", "e");
+  const patterns = values.e ?? (operands.length ? [operands.shift()!] : []);
+  if (!patterns.length) throw new UsageError("usage: grep [OPTION]... PATTERNS [FILE]...");
+
+  let matcher: RegExp;
+  try {
+    let source = patterns
+      .flatMap((pattern) => pattern.split("\n"))
+      .map((pattern) => `(?:${flags.has("F") ? escapeRegExp(pattern) : toJsRegexSource(pattern, flags.has("E"))})`)
+      .join("|");
+    if (flags.has("w")) source = `(?<!\\w)(?:${source})(?!\\w)`;
+    if (flags.has("x")) source = `^(?:${source})$`;
+    matcher = new RegExp(source, flags.has("i") ? "i" : "");
+  } catch {
+    ctx.err("grep: invalid regular expression\n");
+    return 2;
+  }
+
+  const files = operands.length ? operands : ["-"];
+  const showNames = flags.has("H") || (files.length > 1 && !flags.has("h"));
+  let found = false;
+  let failed = false;
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = readInput(ctx, file);
+    } catch (error) {
+      if (!flags.has("s")) ctx.err(`grep: ${file}: ${reason(error)}\n`);
+      failed = true;
+      continue;
+    }
+    const label = file === "-" ? "(standard input)" : file;
+    const matches = toLines(content)
+      .map((line, i) => ({ line, number: i + 1 }))
+      .filter(({ line }) => matcher.test(line) !== flags.has("v"));
+    if (matches.length) found = true;
+    if (flags.has("q")) {
+      if (found) return 0;
+      continue;
+    }
+
+    const name = showNames ? `${label}:` : "";
+    if (flags.has("l")) {
+      if (matches.length) ctx.out(`${label}\n`);
+    } else if (flags.has("L")) {
+      if (!matches.length) ctx.out(`${label}\n`);
+    } else if (flags.has("c")) {
+      ctx.out(`${name}${matches.length}\n`);
+    } else {
+      for (const { line, number } of matches) {
+        const prefix = name + (flags.has("n") ? `${number}:` : "");
+        if (flags.has("o") && !flags.has("v")) {
+          const global = new RegExp(matcher.source, `${matcher.flags}g`);
+          for (const [part] of line.matchAll(global)) {
+            if (part) ctx.out(`${prefix}${part}\n`);
+          }
+        } else {
+          ctx.out(`${prefix}${line}\n`);
+        }
+      }
+    }
+  }
+  return failed && !(flags.has("q") && found) ? 2 : found ? 0 : 1;
+};
+
+const awk: Command = (ctx) => {
+  const args = [...ctx.args];
+  const assignments: string[] = [];
+  let fieldSeparator: string | undefined;
+  let program: string | undefined;
+
+  // Options come before the program text
+  while (args.length && args[0].startsWith("-") && args[0] !== "-") {
+    const arg = args.shift()!;
+    if (arg === "--") break;
+    const option = arg[1];
+    const value = arg.length > 2 ? arg.slice(2) : args.shift();
+    if (!"Fvf".includes(option)) throw new UsageError(`invalid option -- '${option}'`);
+    if (value === undefined) throw new UsageError(`option requires an argument -- '${option}'`);
+    if (option === "F") fieldSeparator = value;
+    else if (option === "v") assignments.push(value);
+    else {
+      try {
+        program = readFile(ctx.fs, value);
+      } catch (error) {
+        ctx.err(`awk: can't open file ${value}: ${reason(error)}\n`);
+        return 2;
+      }
+    }
+  }
+  program ??= args.shift();
+  if (program === undefined) throw new UsageError("usage: awk [-F fs][-v var=value][prog | -f progfile][file ...]");
+
+  return runAwk({
+    program,
+    operands: args,
+    assignments,
+    fieldSeparator,
+    stdin: ctx.stdin,
+    readFile: (name) => readFile(ctx.fs, name),
+    out: ctx.out,
+    err: ctx.err,
+  });
+};
+
+const wc: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "lwcm");
+  const shown = flags.size ? ["l", "w", "c", "m"].filter((flag) => flags.has(flag)) : ["l", "w", "c"];
+  const files = operands.length ? operands : ["-"];
+  const rows: { counts: number[]; name: string }[] = [];
+  let status = 0;
+
+  for (const file of files) {
+    try {
+      const content = readInput(ctx, file);
+      const counts: Record<string, number> = {
+        l: (content.match(/\n/g) ?? []).length,
+        w: content.split(/\s+/).filter(Boolean).length,
+        c: byteLength(content),
+        m: [...content].length,
+      };
+      rows.push({ counts: shown.map((flag) => counts[flag]), name: file === "-" ? "" : file });
+    } catch (error) {
+      ctx.err(`wc: ${file}: ${reason(error)}\n`);
+      status = 1;
+    }
+  }
+  if (rows.length > 1) {
+    rows.push({ counts: shown.map((_, i) => rows.reduce((sum, row) => sum + row.counts[i], 0)), name: "total" });
+  }
+  // GNU pads to the widest count, and to 7 when reading a pipe
+  const width =
+    shown.length === 1 && rows.length === 1
+      ? 1
+      : files.includes("-")
+        ? 7
+        : Math.max(...rows.flatMap((row) => row.counts.map((count) => String(count).length)));
+  for (const { counts, name } of rows) {
+    ctx.out(counts.map((count) => String(count).padStart(width)).join(" ") + (name ? ` ${name}` : "") + "\n");
+  }
+  return status;
+};
+
+const WHO_BITS: Record<string, number> = { u: 0o700, g: 0o070, o: 0o007, a: 0o777 };
+
+// "u+x,go-w", "a=r", "+x"; null when the mode is not valid
+const applySymbolicMode = (mode: string, current: number, isDirectory: boolean) => {
+  let result = current;
+  for (const clause of mode.split(",")) {
+    const match = /^([ugoa]*)((?:[-+=][rwxX]*)+)$/.exec(clause);
+    if (!match) return null;
+    const who = [...match[1]].reduce((bits, char) => bits | WHO_BITS[char], 0);
+    // Without u, g, o or a the umask decides which bits may change
+    const mask = who || 0o777 & ~UMASK;
+    for (const [, op, perms] of match[2].matchAll(/([-+=])([rwxX]*)/g)) {
+      const bits =
+        [...perms].reduce(
+          (sum, perm) =>
+            sum |
+            (perm === "r"
+              ? 0o444
+              : perm === "w"
+                ? 0o222
+                : perm === "x" || isDirectory || result & 0o111
+                  ? 0o111
+                  : 0),
+          0
+        ) & mask;
+      if (op === "+") result |= bits;
+      else if (op === "-") result &= ~bits;
+      else result = (result & ~(who || 0o777)) | bits;
+    }
+  }
+  return result;
+};
+
+const chmod: Command = (ctx) => {
+  // Modes like "-w" look like options, so the first argument is always the mode
+  const [mode, ...files] = ctx.args;
+  if (!mode) throw new UsageError("missing operand");
+  if (!files.length) throw new UsageError(`missing operand after '${mode}'`);
+  if (!/^[0-7]{1,4}$/.test(mode) && applySymbolicMode(mode, 0, false) === null) {
+    ctx.err(`chmod: invalid mode: '${mode}'\n`);
+    return 1;
+  }
+  let status = 0;
+  for (const file of files) {
+    try {
+      const inode = lookup(ctx.fs, file);
+      const updated = /^[0-7]{1,4}$/.test(mode)
+        ? parseInt(mode, 8)
+        : applySymbolicMode(mode, inode.mode, inode.type === "directory")!;
+      setMode(ctx.fs, file, updated);
+    } catch (error) {
+      const message = reason(error);
+      ctx.err(
+        message === "No such file or directory"
+          ? `chmod: cannot access '${file}': ${message}\n`
+          : `chmod: changing permissions of '${file}': ${message}\n`
+      );
+      status = 1;
+    }
+  }
+  return status;
+};
+
+const INTERPRETERS: Record<string, string> = {
+  bash: "Bourne-Again shell script",
+  sh: "POSIX shell script",
+  python3: "Python script",
+  python: "Python script",
+  awk: "awk or perl script",
+};
+
+// What file(1) says about a file, for the file types the sandbox has
+const describeFile = (fs: VirtualFs, path: string) => {
+  const inode = lookup(fs, path, false);
+  if (inode.type === "symlink") return `symbolic link to ${inode.content}`;
+  if (inode.type === "directory") return "directory";
+  if (!(inode.mode & 0o400)) return "regular file, no read permission";
+  const { content } = inode;
+  if (!content) return "empty";
+
+  const encoding = /[^\t\n\r\x20-\x7e]/.test(content) ? "Unicode text, UTF-8 text" : "ASCII text";
+  const terminators = content.includes("\n") ? "" : ", with no line terminators";
+  const shebang = /^#!\s*(\S+)(?:\s+(\S+))?/.exec(content);
+  if (shebang) {
+    const program = baseName(shebang[1]) === "env" && shebang[2] ? shebang[2] : baseName(shebang[1]);
+    const kind = INTERPRETERS[program] ?? `a ${program} script`;
+    return `${kind}, ${encoding} executable${terminators}`;
+  }
+  if (/^\s*#\s*include\b|\bint\s+main\s*\(/m.test(content)) return `C source, ${encoding}${terminators}`;
+  return `${encoding}${terminators}`;
+};
+
+const file: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "b");
+  if (!operands.length) throw new UsageError("usage: file [-b] file ...");
+  const width = Math.max(...operands.map((operand) => operand.length + 1));
+  for (const operand of operands) {
+    const name = flags.has("b") ? "" : `${`${operand}:`.padEnd(width)} `;
+    try {
+      ctx.out(`${name}${describeFile(ctx.fs, operand)}\n`);
+    } catch (error) {
+      ctx.out(`${name}cannot open \`${operand}' (${reason(error)})\n`);
+    }
+  }
+  return 0;
+};
+
+const ln: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "sf");
+  if (!operands.length) throw new UsageError("missing file operand");
+  const symbolic = flags.has("s");
+  const kind = symbolic ? "symbolic link" : "hard link";
+  const targets = operands.length === 1 ? operands : operands.slice(0, -1);
+  const destination = operands.length === 1 ? "." : operands[operands.length - 1];
+  const intoDirectory = exists(ctx.fs, destination) && lookup(ctx.fs, destination).type === "directory";
+  if (targets.length > 1 && !intoDirectory) {
+    ctx.err(`ln: target '${destination}' is not a directory\n`);
+    return 1;
+  }
+
+  let status = 0;
+  for (const target of targets) {
+    const link = intoDirectory ? `${destination}/${baseName(target)}` : destination;
+    try {
+      if (!symbolic) {
+        if (!exists(ctx.fs, target)) {
+          ctx.err(`ln: failed to access '${target}': No such file or directory\n`);
+          status = 1;
+          continue;
+        }
+        if (lookup(ctx.fs, target).type === "directory") {
+          ctx.err(`ln: ${target}: hard link not allowed for directory\n`);
+          status = 1;
+          continue;
+        }
+      }
+      if (flags.has("f") && exists(ctx.fs, link, false)) removeEntry(ctx.fs, link);
+      if (symbolic) makeSymlink(ctx.fs, target, link);
+      else makeLink(ctx.fs, target, link);
+    } catch (error) {
+      ctx.err(`ln: failed to create ${kind} '${link}': ${reason(error)}\n`);
+      status = 1;
+    }
+  }
+  return status;
+};
+
+// "1,3-5,7-" → whether a 1-based position is selected
+const parseList = (list: string) => {
+  const ranges = list.split(",").map((part) => {
+    const match = /^(\d*)(-?)(\d*)$/.exec(part);
+    if (!match || (!match[1] && !match[3]) || match[1] === "0") throw new UsageError(`invalid field value '${part}'`);
+    const from = match[1] ? Number(match[1]) : 1;
+    const to = match[2] ? (match[3] ? Number(match[3]) : Infinity) : from;
+    return [from, to];
+  });
+  return (position: number) => ranges.some(([from, to]) => position >= from && position <= to);
+};
+
+const cut: Command = (ctx) => {
+  const { flags, values, operands } = parseOptions(ctx.args, "s", "dfcb");
+  const delimiter = values.d?.[0] ?? "\t";
+  if (delimiter.length !== 1) throw new UsageError("the delimiter must be a single character");
+  const fields = values.f?.[0];
+  const characters = values.c?.[0] ?? values.b?.[0];
+  if (!fields && !characters) throw new UsageError("you must specify a list of bytes, characters, or fields");
+  const selected = parseList((fields ?? characters)!);
+
+  let status = 0;
+  for (const operand of operands.length ? operands : ["-"]) {
+    let content: string;
+    try {
+      content = readInput(ctx, operand);
+    } catch (error) {
+      ctx.err(`cut: ${operand}: ${reason(error)}\n`);
+      status = 1;
+      continue;
+    }
+    for (const line of toLines(content)) {
+      if (characters) {
+        ctx.out([...line].filter((_, i) => selected(i + 1)).join("") + "\n");
+      } else if (!line.includes(delimiter)) {
+        // Lines without the delimiter are printed whole, unless -s
+        if (!flags.has("s")) ctx.out(`${line}\n`);
+      } else {
+        ctx.out(line.split(delimiter).filter((_, i) => selected(i + 1)).join(delimiter) + "\n");
+      }
+    }
+  }
+  return status;
+};
+
+// head and tail: "-5" is short for "-n 5"
+const headOrTail = (name: "head" | "tail"): Command => (ctx) => {
+  const args = ctx.args.map((arg) => (/^-\d+$/.test(arg) ? `-n${arg.slice(1)}` : arg));
+  const { values, operands } = parseOptions(args, "", "n");
+  const count = values.n?.[0] ?? "10";
+  if (!/^[+-]?\d+$/.test(count)) throw new UsageError(`invalid number of lines: '${count}'`);
+  const files = operands.length ? operands : ["-"];
+  let status = 0;
+
+  files.forEach((operand, i) => {
+    let content: string;
+    try {
+      content = readInput(ctx, operand);
+    } catch (error) {
+      ctx.err(`${name}: cannot open '${operand}' for reading: ${reason(error)}\n`);
+      status = 1;
+      return;
+    }
+    if (files.length > 1) ctx.out(`${i ? "\n" : ""}==> ${operand} <==\n`);
+    const lines = splitLines(content);
+    const n = Math.abs(Number(count));
+    let shown: string[];
+    if (name === "head") shown = count.startsWith("-") ? lines.slice(0, Math.max(lines.length - n, 0)) : lines.slice(0, n);
+    // tail -n +3 starts at the third line
+    else shown = count.startsWith("+") ? lines.slice(Math.max(n - 1, 0)) : n ? lines.slice(-n) : [];
+    ctx.out(shown.join(""));
+  });
+  return status;
+};
+
+const NUMBER_PREFIX = /^\s*[-+]?(\d+\.?\d*|\.\d+)/;
+
+const sort: Command = (ctx) => {
+  const { flags, values, operands } = parseOptions(ctx.args, "rnuf", "tk");
+  const separator = values.t?.[0];
+  const keySpec = values.k?.[0];
+  let keyStart = 1;
+  let keyEnd = Infinity;
+  if (keySpec) {
+    const match = /^(\d+)(?:,(\d+))?$/.exec(keySpec);
+    if (!match || match[1] === "0") throw new UsageError(`invalid key '${keySpec}'`);
+    keyStart = Number(match[1]);
+    keyEnd = match[2] ? Number(match[2]) : Infinity;
+  }
+
+  const key = (line: string) => {
+    let text = line;
+    if (keySpec) {
+      const fields = separator !== undefined ? line.split(separator) : line.trim().split(/\s+/);
+      text = fields.slice(keyStart - 1, keyEnd).join(separator ?? " ");
+    }
+    return flags.has("f") ? text.toUpperCase() : text;
+  };
+  const compareKeys = (a: string, b: string) => {
+    if (flags.has("n")) {
+      const number = (text: string) => Number(NUMBER_PREFIX.exec(text)?.[0] ?? 0);
+      return number(key(a)) - number(key(b));
+    }
+    return compareText(key(a), key(b));
+  };
+
+  let lines: string[] = [];
+  let status = 0;
+  for (const operand of operands.length ? operands : ["-"]) {
+    try {
+      lines.push(...toLines(readInput(ctx, operand)));
+    } catch (error) {
+      ctx.err(`sort: cannot read: ${operand}: ${reason(error)}\n`);
+      status = 2;
+    }
+  }
+  // Equal keys fall back to comparing whole lines, except with -u
+  const direction = flags.has("r") ? -1 : 1;
+  lines.sort((a, b) => direction * (compareKeys(a, b) || (flags.has("u") ? 0 : compareText(a, b))));
+  if (flags.has("u")) lines = lines.filter((line, i) => i === 0 || compareKeys(lines[i - 1], line) !== 0);
+  ctx.out(lines.map((line) => `${line}\n`).join(""));
+  return status;
+};
+
+const uniq: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "cdu");
+  let content: string;
+  try {
+    content = readInput(ctx, operands[0] ?? "-");
+  } catch (error) {
+    ctx.err(`uniq: ${operands[0]}: ${reason(error)}\n`);
+    return 1;
+  }
+  const groups: { line: string; count: number }[] = [];
+  for (const line of toLines(content)) {
+    const last = groups[groups.length - 1];
+    if (last && last.line === line) last.count++;
+    else groups.push({ line, count: 1 });
+  }
+  for (const { line, count } of groups) {
+    if ((flags.has("d") && count < 2) || (flags.has("u") && count > 1)) continue;
+    ctx.out(flags.has("c") ? `${String(count).padStart(7)} ${line}\n` : `${line}\n`);
+  }
+  return 0;
+};
+
+const echo: Command = (ctx) => {
+  const args = [...ctx.args];
+  let newline = true;
+  let escapes = false;
+  while (/^-[ne]+$/.test(args[0] ?? "")) {
+    const option = args.shift()!;
+    if (option.includes("n")) newline = false;
+    if (option.includes("e")) escapes = true;
+  }
+  let text = args.join(" ");
+  if (escapes) {
+    text = text.replace(/\\([ntr\\])/g, (_, char: string) => ({ n: "\n", t: "\t", r: "\r", "\\": "\\" })[char]!);
+  }
+  ctx.out(newline ? `${text}\n` : text);
+  return 0;
+};
+
+const cd: Command = (ctx) => {
+  const target = ctx.args[0] ?? HOME;
+  try {
+    changeDirectory(ctx.fs, target);
+    return 0;
+  } catch (error) {
+    ctx.err(`cd: ${target}: ${reason(error)}\n`);
+    return 1;
+  }
+};
+
+const mkdir: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "p");
+  if (!operands.length) throw new UsageError("missing operand");
+  let status = 0;
+  for (const operand of operands) {
+    try {
+      if (flags.has("p")) {
+        // Every missing directory on the way, and no error if it exists
+        const parts = operand.split("/");
+        parts.forEach((_, i) => {
+          const path = parts.slice(0, i + 1).join("/");
+          if (path && !exists(ctx.fs, path)) makeDirectory(ctx.fs, path);
+        });
+      } else {
+        makeDirectory(ctx.fs, operand);
+      }
+    } catch (error) {
+      ctx.err(`mkdir: cannot create directory '${operand}': ${reason(error)}\n`);
+      status = 1;
+    }
+  }
+  return status;
+};
+
+const touchCommand: Command = (ctx) => {
+  const { operands } = parseOptions(ctx.args, "");
+  if (!operands.length) throw new UsageError("missing file operand");
+  let status = 0;
+  for (const operand of operands) {
+    try {
+      touch(ctx.fs, operand);
+    } catch (error) {
+      ctx.err(`touch: cannot touch '${operand}': ${reason(error)}\n`);
+      status = 1;
+    }
+  }
+  return status;
+};
+
+const removeTree = (fs: VirtualFs, path: string) => {
+  const inode = lookup(fs, path, false);
+  if (inode.type === "directory") {
+    for (const name of listDirectory(fs, path)) removeTree(fs, `${path}/${name}`);
+  }
+  removeEntry(fs, path);
+};
+
+const rm: Command = (ctx) => {
+  const { flags, operands } = parseOptions(ctx.args, "rRf");
+  const recursive = flags.has("r") || flags.has("R");
+  if (!operands.length && !flags.has("f")) throw new UsageError("missing operand");
+  let status = 0;
+  for (const operand of operands) {
+    try {
+      if (!exists(ctx.fs, operand, false)) {
+        if (flags.has("f")) continue;
+        throw new FsError("No such file or directory");
+      }
+      if (lookup(ctx.fs, operand, false).type === "directory" && !recursive) throw new FsError("Is a directory");
+      removeTree(ctx.fs, operand);
+    } catch (error) {
+      ctx.err(`rm: cannot remove '${operand}': ${reason(error)}\n`);
+      status = 1;
+    }
+  }
+  return status;
+};
+
+// Runs a script's lines in the current shell; arguments ($1, …) are not supported
+export const runScript = (ctx: CommandContext, path: string) => {
+  const lines = readFile(ctx.fs, path)
+    .split("\n")
+    .filter((line) => line.trim() && !line.trim().startsWith("#"));
+  let status = 0;
+  for (const line of lines) status = ctx.run(line);
+  return status;
+};
+
+const shell =
+  (name: string): Command =>
+  (ctx) => {
+    const [script] = ctx.args;
+    if (!script) {
+      ctx.err(`${name}: interactive shells are not supported\n`);
+      return 2;
+    }
+    try {
+      return runScript(ctx, script);
+    } catch (error) {
+      ctx.err(`${name}: ${script}: ${reason(error)}\n`);
+      return 127;
+    }
+  };
+
+export const COMMANDS: Record<string, Command> = {
+  awk,
+  bash: shell("bash"),
+  cat,
+  cd,
+  chmod,
+  cut,
+  echo,
+  file,
+  grep,
+  head: headOrTail("head"),
+  help: (ctx) => {
+    ctx.out(`Commands: ${Object.keys(COMMANDS).join(", ")}, clear, reset\n`);
+    ctx.out("Pipes (|), redirection (<, >, >>, 2>), ;, && and ||, wildcards and quotes work as in bash\n");
+    return 0;
+  },
+  ln,
+  ls,
+  mkdir,
+  pwd: (ctx) => {
+    ctx.out(`${ctx.fs.cwd}\n`);
+    return 0;
+  },
+  rm,
+  sh: shell("sh"),
+  sort,
+  tail: headOrTail("tail"),
+  touch: touchCommand,
+  uniq,
+  wc,
+};
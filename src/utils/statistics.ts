@@ -0,0 +1,114 @@
+import { AnswerEvent, Question, Session } from "../types";
+import { startOfDay } from "./scheduler";
+import { getQuestionTopics } from "./topics";
+
+export interface AccuracyPoint {
+  key: string;
+  label: string;
+  correct: number;
+  total: number;
+}
+
+export interface MissedQuestion {
+  questionId: string;
+  misses: number;
+  attempts: number;
+}
+
+export const accuracy = ({ correct, total }: { correct: number; total: number }) =>
+  total ? (correct / total) * 100 : 0;
+
+// Accuracy per calendar day, oldest first
+export const getAccuracyByDay = (events: AnswerEvent[]): AccuracyPoint[] => {
+  const days = new Map<number, AccuracyPoint>();
+
+  for (const event of events) {
+    const day = startOfDay(event.timestamp);
+    const point = days.get(day) ?? {
+      key: day.toString(),
+      label: new Date(day).toLocaleDateString(),
+      correct: 0,
+      total: 0,
+    };
+    point.total++;
+    if (event.correct) point.correct++;
+    days.set(day, point);
+  }
+
+  return [...days.entries()].sort(([a], [b]) => a - b).map(([, point]) => point);
+};
+
+// Accuracy of each session that has recorded answers, in session order
+export const getSessionTrend = (
+  events: AnswerEvent[],
+  sessions: Session[]
+): AccuracyPoint[] =>
+  sessions
+    .map((session) => {
+      const sessionEvents = events.filter((e) => e.sessionId === session.id);
+      return {
+        key: session.id,
+        label: new Date(session.timestamp).toLocaleDateString(),
+        correct: sessionEvents.filter((e) => e.correct).length,
+        total: sessionEvents.length,
+      };
+    })
+    .filter((point) => point.total > 0);
+
+export const getMostMissed = (
+  events: AnswerEvent[],
+  limit = 20
+): MissedQuestion[] => {
+  const stats = new Map<string, MissedQuestion>();
+
+  for (const event of events) {
+    const stat = stats.get(event.questionId) ?? {
+      questionId: event.questionId,
+      misses: 0,
+      attempts: 0,
+    };
+    stat.attempts++;
+    if (!event.correct) stat.misses++;
+    stats.set(event.questionId, stat);
+  }
+
+  return [...stats.values()]
+    .filter((stat) => stat.misses > 0)
+    .sort((a, b) => b.misses - a.misses || a.attempts - b.attempts)
+    .slice(0, limit);
+};
+
+export const getUnseenQuestions = (
+  events: AnswerEvent[],
+  questions: Question[]
+) => {
+  const seen = new Set(events.map((e) => e.questionId));
+  return questions.filter((q) => !seen.has(q.id));
+};
+
+// Accuracy per topic; a question tagged with several topics counts for each
+export const getTopicAccuracy = (
+  events: AnswerEvent[],
+  questionsById: Map<string, Question>
+): AccuracyPoint[] => {
+  const topics = new Map<string, AccuracyPoint>();
+
+  for (const event of events) {
+    const question = questionsById.get(event.questionId);
+    if (!question) continue;
+
+    for (const topic of getQuestionTopics(question)) {
+      const point = topics.get(topic) ?? {
+        key: topic,
+        label: topic,
+        correct: 0,
+        total: 0,
+      };
+      point.total++;
+      if (event.correct) point.correct++;
+      topics.set(topic, point);
+    }
+  }
+
+  return [...topics.values()].sort((a, b) => accuracy(a) - accuracy(b));
+};
@@ -1,8 +1,34 @@
-import { Session } from "../types";
+import {
+  Deletion,
+  Session,
+  ReviewCard,
+  AnswerEvent,
+  QuestionOverride,
+  QuestionFlag,
+  QuestionNote,
+} from "../types";
 
 const DB_NAME = "quiz-app";
 const STORE_NAME = "sessions";
-const DB_VERSION = 1;
+const CARDS_STORE_NAME = "cards";
+const ANSWERS_STORE_NAME = "answers";
+const OVERRIDES_STORE_NAME = "overrides";
+const FLAGS_STORE_NAME = "flags";
+const NOTES_STORE_NAME = "notes";
+const DELETIONS_STORE_NAME = "deletions";
+const DB_VERSION = 7;
+
+// Swap the whole contents of a keyed store in one transaction
+const replaceStore = (db: IDBDatabase, storeName: string, items: unknown[]) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite");
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    items.forEach((item) => store.put(item));
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
 
 export const storage = {
   async init() {
@@ -17,6 +43,24 @@ export const storage = {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME);
         }
+        if (!db.objectStoreNames.contains(CARDS_STORE_NAME)) {
+          db.createObjectStore(CARDS_STORE_NAME, { keyPath: "questionId" });
+        }
+        if (!db.objectStoreNames.contains(ANSWERS_STORE_NAME)) {
+          db.createObjectStore(ANSWERS_STORE_NAME, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(OVERRIDES_STORE_NAME)) {
+          db.createObjectStore(OVERRIDES_STORE_NAME, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(FLAGS_STORE_NAME)) {
+          db.createObjectStore(FLAGS_STORE_NAME, { keyPath: "questionId" });
+        }
+        if (!db.objectStoreNames.contains(NOTES_STORE_NAME)) {
+          db.createObjectStore(NOTES_STORE_NAME, { keyPath: "questionId" });
+        }
+        if (!db.objectStoreNames.contains(DELETIONS_STORE_NAME)) {
+          db.createObjectStore(DELETIONS_STORE_NAME, { keyPath: ["kind", "key"] });
+        }
       };
     });
   },
@@ -67,4 +111,247 @@ export const storage = {
       };
     });
   },
+  async saveCard(card: ReviewCard) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        CARDS_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(CARDS_STORE_NAME).put(card);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async loadCards(): Promise<ReviewCard[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        CARDS_STORE_NAME,
+        "readonly"
+      );
+      const request = transaction.objectStore(CARDS_STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  },
+  async replaceCards(cards: ReviewCard[]) {
+    const db = await this.init();
+    return replaceStore(db as IDBDatabase, CARDS_STORE_NAME, cards);
+  },
+
+  async replaceAnswerEvents(events: AnswerEvent[]) {
+    const db = await this.init();
+    return replaceStore(db as IDBDatabase, ANSWERS_STORE_NAME, events);
+  },
+
+  async replaceOverrides(overrides: QuestionOverride[]) {
+    const db = await this.init();
+    return replaceStore(db as IDBDatabase, OVERRIDES_STORE_NAME, overrides);
+  },
+
+  async replaceFlags(flags: QuestionFlag[]) {
+    const db = await this.init();
+    return replaceStore(db as IDBDatabase, FLAGS_STORE_NAME, flags);
+  },
+
+  async replaceNotes(notes: QuestionNote[]) {
+    const db = await this.init();
+    return replaceStore(db as IDBDatabase, NOTES_STORE_NAME, notes);
+  },
+
+  async replaceDeletions(deletions: Deletion[]) {
+    const db = await this.init();
+    return replaceStore(db as IDBDatabase, DELETIONS_STORE_NAME, deletions);
+  },
+  async addAnswerEvent(event: AnswerEvent) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        ANSWERS_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(ANSWERS_STORE_NAME).add(event);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async loadAnswerEvents(): Promise<AnswerEvent[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        ANSWERS_STORE_NAME,
+        "readonly"
+      );
+      const request = transaction.objectStore(ANSWERS_STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () =>
+        resolve(
+          (request.result as AnswerEvent[]).sort(
+            (a, b) => a.timestamp - b.timestamp
+          )
+        );
+    });
+  },
+  async saveOverride(override: QuestionOverride) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        OVERRIDES_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(OVERRIDES_STORE_NAME).put(override);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async deleteOverride(id: string) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        OVERRIDES_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(OVERRIDES_STORE_NAME).delete(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async loadOverrides(): Promise<QuestionOverride[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        OVERRIDES_STORE_NAME,
+        "readonly"
+      );
+      const request = transaction.objectStore(OVERRIDES_STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  },
+  async saveFlag(flag: QuestionFlag) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        FLAGS_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(FLAGS_STORE_NAME).put(flag);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async deleteFlag(questionId: string) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        FLAGS_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(FLAGS_STORE_NAME).delete(questionId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async loadFlags(): Promise<QuestionFlag[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        FLAGS_STORE_NAME,
+        "readonly"
+      );
+      const request = transaction.objectStore(FLAGS_STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () =>
+        resolve(
+          (request.result as QuestionFlag[]).sort((a, b) => a.createdAt - b.createdAt)
+        );
+    });
+  },
+  async saveNote(note: QuestionNote) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        NOTES_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(NOTES_STORE_NAME).put(note);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async deleteNote(questionId: string) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        NOTES_STORE_NAME,
+        "readwrite"
+      );
+      const request = transaction.objectStore(NOTES_STORE_NAME).delete(questionId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  },
+
+  async saveDeletions(deletions: Deletion[]) {
+    const db = await this.init();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        DELETIONS_STORE_NAME,
+        "readwrite"
+      );
+      const store = transaction.objectStore(DELETIONS_STORE_NAME);
+      deletions.forEach((deletion) => store.put(deletion));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  },
+
+  async loadDeletions(): Promise<Deletion[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        DELETIONS_STORE_NAME,
+        "readonly"
+      );
+      const request = transaction.objectStore(DELETIONS_STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  },
+
+  async loadNotes(): Promise<QuestionNote[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = (db as IDBDatabase).transaction(
+        NOTES_STORE_NAME,
+        "readonly"
+      );
+      const request = transaction.objectStore(NOTES_STORE_NAME).getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  },
 };
@@ -0,0 +1,261 @@
+import { Deletion, Session } from "../types";
+import { BackupData, checkProgress, mergeBy } from "./backup";
+
+// The progress exchanged between devices; preferences stay per device
+export type SyncState = Omit<BackupData, "preferences"> & { deletions: Deletion[] };
+
+// Where a device keeps its progress: IndexedDB in the app, memory in the harness
+export interface SyncStore {
+  load: () => Promise<SyncState>;
+  save: (state: SyncState) => Promise<void>;
+}
+
+// A message pipe to the other device, e.g. a WebRTC data channel
+export interface SyncChannel {
+  send: (message: string) => void;
+  setListener: (listener: (message: string) => void) => void;
+  // Called when the channel closes or breaks
+  setCloseListener: (listener: () => void) => void;
+}
+
+export interface SyncSummary {
+  newSessions: number;
+  updatedSessions: number;
+  removedSessions: number;
+  newAnswers: number;
+}
+
+type SyncMessage =
+  | { type: "state"; part: number; parts: number; data: string }
+  | { type: "done" };
+
+const PROTOCOL_VERSION = 1;
+// Browsers limit the size of a single data channel message
+const CHUNK_SIZE = 16 * 1024;
+// How long the other device may stay silent before the sync is given up
+const SYNC_TIMEOUT = 30 * 1000;
+
+export type SessionProgress = Pick<
+  Session,
+  "currentQuestionIndex" | "score" | "answeredQuestions" | "completed"
+>;
+
+// The session with new progress, stamped with the time of the change. Opening
+// or resuming a session sets the same values again; that keeps the old stamp,
+// so a stale copy does not win over newer progress from another device
+export const withProgress = (
+  session: Session,
+  progress: SessionProgress,
+  now = Date.now()
+): Session => {
+  const answered = new Set(session.answeredQuestions);
+  const unchanged =
+    session.currentQuestionIndex === progress.currentQuestionIndex &&
+    session.score === progress.score &&
+    session.completed === progress.completed &&
+    answered.size === progress.answeredQuestions.length &&
+    progress.answeredQuestions.every((position) => answered.has(position));
+  return unchanged ? session : { ...session, ...progress, updatedAt: now };
+};
+
+// Pick the copy changed last; on a tie both devices pick the same copy
+const newest =
+  <T>(changedAt: (item: T) => number) =>
+  (mine: T, theirs: T) => {
+    const difference = changedAt(theirs) - changedAt(mine);
+    if (difference !== 0) return difference > 0 ? theirs : mine;
+    return JSON.stringify(theirs) > JSON.stringify(mine) ? theirs : mine;
+  };
+
+// Sort by a key so the merged lists come out in the same order on both devices
+const sortBy = <T>(items: T[], key: (item: T) => string | number) =>
+  items.sort((a, b) => {
+    const [x, y] = [key(a), key(b)];
+    return x < y ? -1 : x > y ? 1 : 0;
+  });
+
+// Every list merged on its own, before deletions are applied
+const mergeProgress = (a: SyncState, b: SyncState): Omit<SyncState, "deletions"> => ({
+  sessions: sortBy(
+    mergeBy(a.sessions, b.sessions, (s) => s.id, newest((s) => s.updatedAt ?? s.timestamp)),
+    (s) => `${String(s.timestamp).padStart(15, "0")}:${s.id}`
+  ),
+  answerEvents: sortBy(
+    mergeBy(a.answerEvents, b.answerEvents, (e) => e.id, (mine) => mine),
+    (e) => `${String(e.timestamp).padStart(15, "0")}:${e.id}`
+  ),
+  reviewCards: sortBy(
+    mergeBy(
+      a.reviewCards,
+      b.reviewCards,
+      (c) => c.questionId,
+      newest((c) => c.lastReviewed ?? 0)
+    ),
+    (c) => c.questionId
+  ),
+  overrides: sortBy(
+    mergeBy(a.overrides, b.overrides, (o) => o.id, newest((o) => o.updatedAt)),
+    (o) => o.id
+  ),
+  flags: sortBy(
+    mergeBy(a.flags, b.flags, (f) => f.questionId, newest((f) => f.createdAt)),
+    (f) => f.questionId
+  ),
+  // Devices running an older version do not send notes
+  notes: sortBy(
+    mergeBy(a.notes ?? [], b.notes ?? [], (n) => n.questionId, newest((n) => n.updatedAt)),
+    (n) => n.questionId
+  ),
+});
+
+const deletionKey = (deletion: Pick<Deletion, "kind" | "key">) =>
+  `${deletion.kind}:${deletion.key}`;
+
+// Last writer wins per session, card, edit, report and note, and a deletion
+// counts as a change at the time it was made; answer events are append-only.
+// The result does not depend on the order of the arguments, so both devices
+// end up with the same state.
+export const mergeSyncStates = (a: SyncState, b: SyncState): SyncState => {
+  const deletions = sortBy(
+    mergeBy(a.deletions, b.deletions, deletionKey, newest((d) => d.deletedAt)),
+    deletionKey
+  );
+  const deletedAt = new Map(deletions.map((d) => [deletionKey(d), d.deletedAt]));
+  // Kept when changed after the deletion, e.g. a question reported again
+  const kept =
+    <T>(kind: Deletion["kind"], key: (item: T) => string, changedAt: (item: T) => number) =>
+    (item: T) =>
+      (deletedAt.get(deletionKey({ kind, key: key(item) })) ?? -Infinity) < changedAt(item);
+
+  const merged = mergeProgress(a, b);
+  return {
+    ...merged,
+    sessions: merged.sessions.filter(
+      kept("session", (s) => s.id, (s) => s.updatedAt ?? s.timestamp)
+    ),
+    overrides: merged.overrides.filter(kept("override", (o) => o.id, (o) => o.updatedAt)),
+    flags: merged.flags.filter(kept("flag", (f) => f.questionId, (f) => f.createdAt)),
+    notes: merged.notes.filter(kept("note", (n) => n.questionId, (n) => n.updatedAt)),
+    deletions,
+  };
+};
+
+export const summarizeSync = (
+  before: SyncState,
+  after: SyncState
+): SyncSummary => {
+  const sessionsBefore = new Map(before.sessions.map((s) => [s.id, s]));
+  const sessionIds = new Set(after.sessions.map((s) => s.id));
+  const eventIds = new Set(before.answerEvents.map((e) => e.id));
+
+  return {
+    newSessions: after.sessions.filter((s) => !sessionsBefore.has(s.id)).length,
+    updatedSessions: after.sessions.filter((s) => {
+      const previous = sessionsBefore.get(s.id);
+      return previous && JSON.stringify(previous) !== JSON.stringify(s);
+    }).length,
+    removedSessions: before.sessions.filter((s) => !sessionIds.has(s.id)).length,
+    newAnswers: after.answerEvents.filter((e) => !eventIds.has(e.id)).length,
+  };
+};
+
+// The state in a complete payload; throws when it can't be merged
+const readPayload = (text: string): SyncState => {
+  const payload = JSON.parse(text);
+  if (payload?.version !== PROTOCOL_VERSION) {
+    throw new Error("The other device runs an incompatible version");
+  }
+  const errors = checkProgress(payload.state);
+  if (errors.length) {
+    throw new Error(`The other device sent invalid data: ${errors[0]}`);
+  }
+  return {
+    ...payload.state,
+    overrides: payload.state.overrides ?? [],
+    flags: payload.state.flags ?? [],
+    notes: payload.state.notes ?? [],
+    deletions: payload.state.deletions ?? [],
+  };
+};
+
+// Exchange states over the channel, save the merged state and wait until the
+// other device has saved too, so the channel can be closed afterwards
+export const runSync = async (
+  channel: SyncChannel,
+  store: SyncStore,
+  timeout = SYNC_TIMEOUT
+): Promise<SyncSummary> => {
+  let resolveRemote: (state: SyncState) => void;
+  let resolveDone: () => void;
+  const remoteState = new Promise<SyncState>((resolve) => {
+    resolveRemote = resolve;
+  });
+  const remoteDone = new Promise<void>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  // Rejects when the channel goes away, the other device goes quiet or sends
+  // something that can't be read
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let giveUp: (error: Error) => void;
+  const failure = new Promise<never>((_, reject) => {
+    giveUp = reject;
+  });
+  // Nobody is waiting for it any more once the sync is over
+  failure.catch(() => {});
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => giveUp(new Error("The other device stopped responding")), timeout);
+  };
+  channel.setCloseListener(() => {
+    giveUp(new Error("The connection to the other device was lost"));
+  });
+  restartTimer();
+
+  const parts: string[] = [];
+  channel.setListener((raw) => {
+    restartTimer();
+    try {
+      const message: SyncMessage = JSON.parse(raw);
+      if (message.type === "done") {
+        resolveDone();
+        return;
+      }
+
+      parts[message.part] = message.data;
+      if (parts.filter((part) => part !== undefined).length === message.parts) {
+        resolveRemote(readPayload(parts.join("")));
+      }
+    } catch (error) {
+      giveUp(
+        error instanceof SyntaxError
+          ? new Error("The other device sent a message that could not be read")
+          : (error as Error)
+      );
+    }
+  });
+
+  const local = await store.load();
+  const data = JSON.stringify({ version: PROTOCOL_VERSION, state: local });
+  const count = Math.max(1, Math.ceil(data.length / CHUNK_SIZE));
+  for (let part = 0; part < count; part++) {
+    const message: SyncMessage = {
+      type: "state",
+      part,
+      parts: count,
+      data: data.slice(part * CHUNK_SIZE, (part + 1) * CHUNK_SIZE),
+    };
+    channel.send(JSON.stringify(message));
+  }
+
+  try {
+    const merged = mergeSyncStates(local, await Promise.race([remoteState, failure]));
+    await store.save(merged);
+    channel.send(JSON.stringify({ type: "done" } satisfies SyncMessage));
+    await Promise.race([remoteDone, failure]);
+
+    return summarizeSync(local, merged);
+  } finally {
+    clearTimeout(timer);
+  }
+};
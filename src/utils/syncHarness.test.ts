@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+import { AnswerEvent, Session } from "../types";
+import { runSync, withProgress } from "./sync";
+import {
+  createMemoryChannelPair,
+  createMemorySyncStore,
+  runSyncHarness,
+} from "./syncHarness";
+
+const session = (id: string, changes: Partial<Session> = {}): Session => ({
+  id,
+  timestamp: 1000,
+  totalQuestions: 10,
+  currentQuestionIndex: 0,
+  score: 0,
+  isTest: false,
+  questionIds: [],
+  answeredQuestions: [],
+  completed: false,
+  ...changes,
+});
+
+const answerEvent = (id: string, timestamp = 1000): AnswerEvent => ({
+  id,
+  questionId: `q-${id}`,
+  answer: "a",
+  correct: true,
+  timeTaken: 5000,
+  sessionId: null,
+  language: "ro",
+  timestamp,
+});
+
+describe("runSyncHarness", () => {
+  it("leaves both devices with the same state", async () => {
+    const a = createMemorySyncStore({
+      sessions: [session("s1")],
+      answerEvents: [answerEvent("e1")],
+      notes: [{ questionId: "q1", text: "from a", updatedAt: 1000 }],
+    });
+    const b = createMemorySyncStore({
+      sessions: [session("s2", { timestamp: 2000 })],
+      flags: [{ questionId: "q2", reason: "ambiguous", note: "", createdAt: 1000 }],
+    });
+
+    const result = await runSyncHarness(a, b);
+
+    expect(result.converged).toBe(true);
+    expect(result.a.sessions.map((s) => s.id)).toEqual(["s1", "s2"]);
+    expect(result.a.notes).toHaveLength(1);
+    expect(result.b.flags).toHaveLength(1);
+    expect(result.summaries).toEqual([
+      { newSessions: 1, updatedSessions: 0, removedSessions: 0, newAnswers: 0 },
+      { newSessions: 1, updatedSessions: 0, removedSessions: 0, newAnswers: 1 },
+    ]);
+  });
+
+  it("keeps the copy of a session changed last", async () => {
+    const a = createMemorySyncStore({
+      sessions: [
+        session("s1", { score: 3, updatedAt: 3000 }),
+        session("s2", { score: 1, updatedAt: 1000 }),
+      ],
+    });
+    const b = createMemorySyncStore({
+      sessions: [
+        session("s1", { score: 2, updatedAt: 2000 }),
+        // Sessions from older versions only have their start time
+        session("s2", { score: 4, timestamp: 4000 }),
+      ],
+    });
+
+    const result = await runSyncHarness(a, b);
+
+    expect(result.converged).toBe(true);
+    expect(result.a.sessions.map((s) => [s.id, s.score])).toEqual([
+      ["s1", 3],
+      ["s2", 4],
+    ]);
+    expect(result.summaries.map((s) => s.updatedSessions)).toEqual([1, 1]);
+  });
+
+  it("keeps newer progress over a copy that was only resumed", async () => {
+    const stale = session("s1", {
+      currentQuestionIndex: 1,
+      score: 1,
+      answeredQuestions: [0],
+      updatedAt: 1000,
+    });
+    const newer = withProgress(
+      stale,
+      { currentQuestionIndex: 3, score: 3, answeredQuestions: [0, 1, 2], completed: false },
+      2000
+    );
+    // Resuming sets the saved progress again, later than the other device's change
+    const resumed = withProgress(
+      stale,
+      { currentQuestionIndex: 1, score: 1, answeredQuestions: [0], completed: false },
+      3000
+    );
+    const a = createMemorySyncStore({ sessions: [resumed] });
+    const b = createMemorySyncStore({ sessions: [newer] });
+
+    const result = await runSyncHarness(a, b);
+
+    expect(resumed).toBe(stale);
+    expect(result.converged).toBe(true);
+    expect(result.a.sessions).toEqual([newer]);
+  });
+
+  it("passes deletions on instead of bringing the entries back", async () => {
+    const a = createMemorySyncStore({
+      sessions: [session("s2")],
+      deletions: [
+        { kind: "session", key: "s1", deletedAt: 2000 },
+        { kind: "flag", key: "q1", deletedAt: 2000 },
+        { kind: "note", key: "q2", deletedAt: 2000 },
+        { kind: "override", key: "q3", deletedAt: 2000 },
+      ],
+    });
+    const b = createMemorySyncStore({
+      sessions: [session("s1", { updatedAt: 1500 }), session("s2")],
+      flags: [{ questionId: "q1", reason: "ambiguous", note: "", createdAt: 1000 }],
+      notes: [{ questionId: "q2", text: "from b", updatedAt: 1000 }],
+      overrides: [{ id: "q3", updatedAt: 1000 }],
+    });
+
+    const result = await runSyncHarness(a, b);
+
+    expect(result.converged).toBe(true);
+    expect(result.b.sessions.map((s) => s.id)).toEqual(["s2"]);
+    expect(result.b.flags).toEqual([]);
+    expect(result.b.notes).toEqual([]);
+    expect(result.b.overrides).toEqual([]);
+    expect(result.b.deletions).toHaveLength(4);
+    expect(result.summaries.map((s) => s.removedSessions)).toEqual([0, 1]);
+  });
+
+  it("keeps an entry changed after its deletion", async () => {
+    const a = createMemorySyncStore({
+      deletions: [
+        { kind: "session", key: "s1", deletedAt: 2000 },
+        { kind: "flag", key: "q1", deletedAt: 2000 },
+      ],
+    });
+    const b = createMemorySyncStore({
+      sessions: [session("s1", { updatedAt: 3000 })],
+      // Reported again after the report was removed on the other device
+      flags: [{ questionId: "q1", reason: "wrong-key", note: "", createdAt: 3000 }],
+    });
+
+    const result = await runSyncHarness(a, b);
+
+    expect(result.converged).toBe(true);
+    expect(result.a.sessions.map((s) => s.id)).toEqual(["s1"]);
+    expect(result.a.flags.map((f) => f.reason)).toEqual(["wrong-key"]);
+  });
+
+  it("merges answer events without duplicates", async () => {
+    const a = createMemorySyncStore({
+      answerEvents: [answerEvent("e1", 1000), answerEvent("e2", 2000)],
+    });
+    const b = createMemorySyncStore({
+      answerEvents: [answerEvent("e2", 2000), answerEvent("e3", 3000)],
+    });
+
+    const result = await runSyncHarness(a, b);
+
+    expect(result.converged).toBe(true);
+    expect(result.a.answerEvents.map((e) => e.id)).toEqual(["e1", "e2", "e3"]);
+    expect(result.summaries.map((s) => s.newAnswers)).toEqual([1, 1]);
+  });
+
+  it("sends a state over 16 KB in several messages", async () => {
+    const answerEvents = Array.from({ length: 300 }, (_, i) => answerEvent(`e${i}`, i));
+    const a = createMemorySyncStore({ answerEvents });
+    const b = createMemorySyncStore({ sessions: [session("s1")] });
+    expect(JSON.stringify(a.state).length).toBeGreaterThan(16 * 1024);
+
+    const [channelA, channelB] = createMemoryChannelPair();
+    const sent: string[] = [];
+    const send = channelA.send;
+    channelA.send = (message) => {
+      sent.push(message);
+      send(message);
+    };
+    await Promise.all([runSync(channelA, a), runSync(channelB, b)]);
+
+    const parts = sent.filter((message) => JSON.parse(message).type === "state");
+    expect(parts.length).toBeGreaterThan(1);
+    expect(b.state.answerEvents).toHaveLength(300);
+    expect(JSON.stringify(a.state)).toBe(JSON.stringify(b.state));
+  });
+});
+
+describe("runSync", () => {
+  it("rejects a device speaking another protocol version", async () => {
+    const [channel, other] = createMemoryChannelPair();
+    const sync = runSync(channel, createMemorySyncStore());
+
+    const data = JSON.stringify({ version: 2, state: createMemorySyncStore().state });
+    other.send(JSON.stringify({ type: "state", part: 0, parts: 1, data }));
+
+    await expect(sync).rejects.toThrow("incompatible version");
+  });
+
+  it("fails on a message that is not JSON", async () => {
+    const [channel, other] = createMemoryChannelPair();
+    const sync = runSync(channel, createMemorySyncStore());
+
+    other.send("{\"type\": \"sta");
+
+    await expect(sync).rejects.toThrow("could not be read");
+  });
+
+  it("rejects a state that does not have the shape of the progress", async () => {
+    const [channel, other] = createMemoryChannelPair();
+    const store = createMemorySyncStore({ sessions: [session("s1")] });
+    const sync = runSync(channel, store);
+
+    const state = { ...createMemorySyncStore().state, sessions: [{ id: 1 }] };
+    const data = JSON.stringify({ version: 1, state });
+    other.send(JSON.stringify({ type: "state", part: 0, parts: 1, data }));
+
+    await expect(sync).rejects.toThrow("invalid data: sessions[0].id must be a string");
+    expect(store.state.sessions).toEqual([session("s1")]);
+  });
+
+  it("fails when the connection is lost", async () => {
+    const [channel, other] = createMemoryChannelPair();
+    const sync = runSync(channel, createMemorySyncStore());
+
+    other.close();
+
+    await expect(sync).rejects.toThrow("connection to the other device was lost");
+  });
+
+  it("fails when the other device stops responding", async () => {
+    const [channel] = createMemoryChannelPair();
+
+    await expect(runSync(channel, createMemorySyncStore(), 10)).rejects.toThrow(
+      "stopped responding"
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { SyncChannel, SyncState, SyncStore, SyncSummary, runSync } from "./sync";
+
+// In-memory stand-ins for two devices, to run the sync protocol without
+// browsers or IndexedDB (e.g. from the console or a script)
+
+export interface MemorySyncStore extends SyncStore {
+  state: SyncState;
+}
+
+export const emptySyncState = (): SyncState => ({
+  sessions: [],
+  answerEvents: [],
+  reviewCards: [],
+  overrides: [],
+  flags: [],
+  notes: [],
+  deletions: [],
+});
+
+export const createMemorySyncStore = (
+  initial: Partial<SyncState> = {}
+): MemorySyncStore => {
+  const store: MemorySyncStore = {
+    state: { ...emptySyncState(), ...initial },
+    load: async () => structuredClone(store.state),
+    save: async (state) => {
+      store.state = structuredClone(state);
+    },
+  };
+  return store;
+};
+
+export interface MemorySyncChannel extends SyncChannel {
+  // Closes both ends, like a dropped connection
+  close: () => void;
+}
+
+// Two connected ends; messages are delivered asynchronously, like a data channel
+export const createMemoryChannelPair = (): [MemorySyncChannel, MemorySyncChannel] => {
+  const listeners: ((message: string) => void)[] = [];
+  const closeListeners: (() => void)[] = [];
+  const queued: string[][] = [[], []];
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    setTimeout(() => closeListeners.forEach((listener) => listener()));
+  };
+
+  const end = (self: number, other: number): MemorySyncChannel => ({
+    send: (message) => {
+      if (closed) return;
+      setTimeout(() => {
+        if (listeners[other]) listeners[other](message);
+        else queued[other].push(message);
+      });
+    },
+    setListener: (listener) => {
+      listeners[self] = listener;
+      queued[self].splice(0).forEach(listener);
+    },
+    setCloseListener: (listener) => {
+      closeListeners[self] = listener;
+    },
+    close,
+  });
+
+  return [end(0, 1), end(1, 0)];
+};
+
+export interface SyncHarnessResult {
+  a: SyncState;
+  b: SyncState;
+  summaries: [SyncSummary, SyncSummary];
+  converged: boolean;
+}
+
+// Sync two stores with each other and report whether they ended up equal
+export const runSyncHarness = async (
+  a: MemorySyncStore,
+  b: MemorySyncStore
+): Promise<SyncHarnessResult> => {
+  const [channelA, channelB] = createMemoryChannelPair();
+  const summaries = await Promise.all([
+    runSync(channelA, a),
+    runSync(channelB, b),
+  ]);
+
+  return {
+    a: a.state,
+    b: b.state,
+    summaries,
+    converged: JSON.stringify(a.state) === JSON.stringify(b.state),
+  };
+};
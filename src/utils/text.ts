@@ -0,0 +1,14 @@
+// Lowercase and strip diacritics, so "Impasul" and "impașul" compare equal
+export const foldText = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+// Fixed width columns in a fenced code block, for tables in question text,
+// which is rendered without Markdown table support
+export const formatCodeTable = (columns: string[], rows: string[][], gap = 2) => {
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...rows.map((row) => row[i].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i])).join(" ".repeat(gap)).trimEnd();
+  return ["```text", line(columns), ...rows.map(line), "```"].join("\n");
+};
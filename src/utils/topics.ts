@@ -0,0 +1,153 @@
+import { Question } from "../types";
+import { foldText } from "./text";
+
+export const GENERAL_TOPIC = "General";
+
+interface TopicRule {
+  topic: string;
+  // Matched against the diacritic-folded, lowercased question and answers
+  patterns: RegExp[];
+}
+
+export const TOPIC_RULES: TopicRule[] = [
+  {
+    topic: "Deadlock",
+    patterns: [/impas/, /deadlock/, /interbloca/, /banker/, /bancher/],
+  },
+  {
+    topic: "Memory management",
+    patterns: [
+      /memori/,
+      /memory/,
+      /paginar/,
+      /paging/,
+      /\bpagin/,
+      /\bpages?\b/,
+      /\b(nru|lru|fifo)\b/,
+      /(first|best|worst|next)[- ]fit/,
+      /segment/,
+      /swap/,
+      /\bcache\b/,
+      /plasare/,
+      /placement/,
+      /fragment/,
+      /\bheap\b/,
+      /aloca(re)? (static|dinamic)/,
+    ],
+  },
+  {
+    topic: "Processes & scheduling",
+    patterns: [
+      /proces/,
+      /\bfork\b/,
+      /\bpid/,
+      /planifica/,
+      /schedul/,
+      /round[- ]robin/,
+      /\b(fcfs|sjf|srtf)\b/,
+      /zombi/,
+      /\bexec/,
+      /\bwait\b/,
+      /semnal/,
+      /signal/,
+      /\bkill\b/,
+      /thread/,
+      /fir(e|ul)? de executie/,
+    ],
+  },
+  {
+    topic: "Synchronization & IPC",
+    patterns: [
+      /semafor/,
+      /semaphore/,
+      /mutex/,
+      /sectiun(e|ea) critica/,
+      /critical section/,
+      /\bpipe/,
+      /monitor/,
+      /excludere mutuala/,
+      /mutual exclusion/,
+    ],
+  },
+  {
+    topic: "Shell & filesystem",
+    patterns: [
+      /\bawk\b/,
+      /\bgrep\b/,
+      /\bsed\b/,
+      /\bi-? ?nod/,
+      /inode/,
+      /\bshell/,
+      /\b(chmod|chown|ls|cat|echo|sort|touch|find|cut|wc|ln|cp|mv|rm|ps|test)\b/,
+      /\b(head|tail|expr|man|pwd|mail|nano|break|continue|while|until)\b/,
+      /\b(stdin|stdout|stderr)\b/,
+      /expresi(e|i|a)? regular/,
+      /regular expression/,
+      /\[ -/,
+      /\$/,
+      /fisier/,
+      /\bfiles?\b/,
+      /director/,
+      /permisiun/,
+      /permission/,
+      /\bfat\b/,
+      /superbloc/,
+    ],
+  },
+  {
+    topic: "I/O & disks",
+    patterns: [
+      /\bdisc/,
+      /\bdisk/,
+      /periferic/,
+      /peripheral/,
+      /intrerupe/,
+      /interrupt/,
+      /\bi\/o\b/,
+      /buffer/,
+      /zon(a|e|ele) tampon/,
+      /cilindr/,
+      /cylinder/,
+      /\bsector/,
+      /\bdma\b/,
+    ],
+  },
+  {
+    topic: "OS history & concepts",
+    patterns: [
+      /generati/,
+      /generation/,
+      /\b19[4-9]0/,
+      /multiprogram/,
+      /time-?sharing/,
+      /nucleu/,
+      /kernel/,
+    ],
+  },
+];
+
+export const ALL_TOPICS = [
+  ...TOPIC_RULES.map((rule) => rule.topic),
+  GENERAL_TOPIC,
+];
+
+// Propose topics for a question from keyword rules
+export const suggestTopics = (question: Question): string[] => {
+  const text = foldText([question.question, ...question.answers].join(" "));
+  const topics = TOPIC_RULES.filter((rule) =>
+    rule.patterns.some((pattern) => pattern.test(text))
+  ).map((rule) => rule.topic);
+
+  return topics.length ? topics : [GENERAL_TOPIC];
+};
+
+// Explicit tags win over the keyword rules
+export const getQuestionTopics = (question: Question) =>
+  question.topics?.length ? question.topics : suggestTopics(question);
+
+export const filterByTopics = (questions: Question[], topics: string[]) =>
+  topics.length
+    ? questions.filter((q) =>
+        getQuestionTopics(q).some((topic) => topics.includes(topic))
+      )
+    : questions;
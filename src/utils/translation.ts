@@ -0,0 +1,55 @@
+import { Language, Question } from "../types";
+import { getCorrectAnswers, getQuestionKind } from "./scoring";
+
+export interface TranslationMismatch {
+  id: string;
+  problem: "kind" | "answer-count" | "correct";
+  question: string;
+}
+
+export const TRANSLATION_MISMATCHES: Record<TranslationMismatch["problem"], string> = {
+  kind: "The RO and EN versions are different kinds of question",
+  "answer-count": "The RO and EN versions have a different number of answers",
+  correct: "The RO and EN versions mark different answers as correct",
+};
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  ro: "Română",
+  en: "English",
+};
+
+// Positions of the correct answers, which both versions must agree on
+const correctPositions = (question: Question) =>
+  getCorrectAnswers(question)
+    .map((answer) => question.answers.indexOf(answer))
+    .sort((a, b) => a - b)
+    .join(",");
+
+// Ways the two language versions of a question disagree; free text answers
+// are worded differently by nature, and task commands work on translated
+// files, so only their kind is compared
+export const findTranslationMismatch = (
+  question: Question,
+  translation: Question
+): TranslationMismatch["problem"] | null => {
+  const kind = getQuestionKind(question);
+  if (kind !== getQuestionKind(translation)) return "kind";
+  if (kind === "text" || kind === "task") return null;
+  if (question.answers.length !== translation.answers.length) return "answer-count";
+  if (correctPositions(question) !== correctPositions(translation)) return "correct";
+  return null;
+};
+
+export const checkTranslationMismatches = (ro: Question[], en: Question[]) => {
+  const enById = new Map(en.map((q) => [q.id, q]));
+  const mismatches: TranslationMismatch[] = [];
+
+  for (const question of ro) {
+    const translation = enById.get(question.id);
+    if (!translation) continue;
+    const problem = findTranslationMismatch(question, translation);
+    if (problem) mismatches.push({ id: question.id, problem, question: question.question });
+  }
+
+  return mismatches;
+};
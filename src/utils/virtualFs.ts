@@ -0,0 +1,307 @@
+import { SandboxFile, ShellTask } from "../types";
+
+// In-memory Unix filesystem for the shell sandbox: inodes with permission
+// bits and link counts, directories mapping names to inode numbers, hard and
+// symbolic links. Everything belongs to the sandbox user, so only the owner
+// permission bits are checked
+
+export type InodeType = "file" | "directory" | "symlink";
+
+export interface Inode {
+  number: number;
+  type: InodeType;
+  mode: number; // permission bits, e.g. 0o644
+  links: number;
+  modified: number; // value of the filesystem clock at the last change
+  content: string; // file contents, or a symlink's target
+  entries: Map<string, number>; // directories only, without "." and ".."
+  parent: number; // directories only
+}
+
+export interface VirtualFs {
+  inodes: Map<number, Inode>;
+  nextInode: number;
+  clock: number; // advanced by every change, so timestamps stay deterministic
+  cwd: string;
+}
+
+export const USER = "student";
+export const HOME = `/home/${USER}`;
+const ROOT = 2;
+// Timestamps start here and move on a minute per change
+const EPOCH = Date.UTC(2024, 9, 7, 10, 0);
+const MAX_SYMLINKS = 8;
+
+export class FsError extends Error {}
+
+const DEFAULT_MODES: Record<InodeType, number> = {
+  file: 0o644,
+  directory: 0o755,
+  symlink: 0o777,
+};
+
+export const inodeTime = (inode: Inode) => new Date(EPOCH + inode.modified * 60000);
+
+const createInode = (fs: VirtualFs, type: InodeType, parent = ROOT): Inode => {
+  const inode: Inode = {
+    number: fs.nextInode++,
+    type,
+    mode: DEFAULT_MODES[type],
+    links: type === "directory" ? 2 : 1,
+    modified: fs.clock,
+    content: "",
+    entries: new Map(),
+    parent,
+  };
+  fs.inodes.set(inode.number, inode);
+  return inode;
+};
+
+const touchInode = (fs: VirtualFs, inode: Inode) => {
+  inode.modified = ++fs.clock;
+};
+
+export const getInode = (fs: VirtualFs, number: number) => fs.inodes.get(number)!;
+
+// Absolute path components, with "." and ".." resolved lexically
+export const splitPath = (fs: VirtualFs, path: string) => {
+  const expanded = path === "~" || path.startsWith("~/") ? HOME + path.slice(1) : path;
+  const absolute = expanded.startsWith("/") ? expanded : `${fs.cwd}/${expanded}`;
+  const parts: string[] = [];
+  for (const part of absolute.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return parts;
+};
+
+export const joinPath = (parts: string[]) => `/${parts.join("/")}`;
+
+export const baseName = (path: string) => path.replace(/\/+$/, "").split("/").pop() || "/";
+
+// Walks the path; symlinks in the middle are always followed, the last one
+// only when `follow` is set (stat vs lstat)
+export const lookup = (fs: VirtualFs, path: string, follow = true, depth = 0): Inode => {
+  if (depth > MAX_SYMLINKS) throw new FsError("Too many levels of symbolic links");
+  const parts = splitPath(fs, path);
+  let inode = getInode(fs, ROOT);
+  let walked: string[] = [];
+
+  for (const [i, part] of parts.entries()) {
+    if (inode.type !== "directory") throw new FsError("Not a directory");
+    if (!(inode.mode & 0o100)) throw new FsError("Permission denied");
+    const number = inode.entries.get(part);
+    if (number === undefined) throw new FsError("No such file or directory");
+    inode = getInode(fs, number);
+    const last = i === parts.length - 1;
+    if (inode.type === "symlink" && (!last || follow)) {
+      const target = inode.content.startsWith("/")
+        ? inode.content
+        : `${joinPath(walked)}/${inode.content}`;
+      inode = lookup(fs, target, true, depth + 1);
+    }
+    walked = [...walked, part];
+  }
+  return inode;
+};
+
+export const exists = (fs: VirtualFs, path: string, follow = true) => {
+  try {
+    lookup(fs, path, follow);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The directory a new entry goes in, and its name
+const lookupParent = (fs: VirtualFs, path: string) => {
+  const parts = splitPath(fs, path);
+  const name = parts.pop();
+  if (!name) throw new FsError("File exists");
+  const directory = lookup(fs, joinPath(parts));
+  if (directory.type !== "directory") throw new FsError("Not a directory");
+  return { directory, name };
+};
+
+const addEntry = (fs: VirtualFs, directory: Inode, name: string, inode: Inode) => {
+  if (!(directory.mode & 0o200)) throw new FsError("Permission denied");
+  if (directory.entries.has(name)) throw new FsError("File exists");
+  directory.entries.set(name, inode.number);
+  touchInode(fs, directory);
+};
+
+export const readFile = (fs: VirtualFs, path: string) => {
+  const inode = lookup(fs, path);
+  if (inode.type === "directory") throw new FsError("Is a directory");
+  if (!(inode.mode & 0o400)) throw new FsError("Permission denied");
+  return inode.content;
+};
+
+export const writeFile = (fs: VirtualFs, path: string, content: string, append = false) => {
+  let inode: Inode;
+  if (exists(fs, path)) {
+    inode = lookup(fs, path);
+    if (inode.type === "directory") throw new FsError("Is a directory");
+    if (!(inode.mode & 0o200)) throw new FsError("Permission denied");
+  } else {
+    const { directory, name } = lookupParent(fs, path);
+    inode = createInode(fs, "file");
+    addEntry(fs, directory, name, inode);
+  }
+  inode.content = append ? inode.content + content : content;
+  touchInode(fs, inode);
+  return inode;
+};
+
+export const makeDirectory = (fs: VirtualFs, path: string) => {
+  const { directory, name } = lookupParent(fs, path);
+  const inode = createInode(fs, "directory", directory.number);
+  addEntry(fs, directory, name, inode);
+  directory.links++;
+  return inode;
+};
+
+export const makeLink = (fs: VirtualFs, target: string, path: string) => {
+  const inode = lookup(fs, target);
+  if (inode.type === "directory") throw new FsError("hard link not allowed for directory");
+  const { directory, name } = lookupParent(fs, path);
+  addEntry(fs, directory, name, inode);
+  inode.links++;
+};
+
+export const makeSymlink = (fs: VirtualFs, target: string, path: string) => {
+  const { directory, name } = lookupParent(fs, path);
+  const inode = createInode(fs, "symlink");
+  inode.content = target;
+  addEntry(fs, directory, name, inode);
+};
+
+export const removeEntry = (fs: VirtualFs, path: string) => {
+  const inode = lookup(fs, path, false);
+  const { directory, name } = lookupParent(fs, path);
+  if (!(directory.mode & 0o200)) throw new FsError("Permission denied");
+  if (inode.type === "directory") {
+    if (inode.entries.size) throw new FsError("Directory not empty");
+    directory.links--;
+  }
+  directory.entries.delete(name);
+  touchInode(fs, directory);
+  if (--inode.links <= 0 || inode.type === "directory") fs.inodes.delete(inode.number);
+};
+
+export const setMode = (fs: VirtualFs, path: string, mode: number) => {
+  const inode = lookup(fs, path);
+  inode.mode = mode & 0o7777;
+  touchInode(fs, inode);
+};
+
+export const touch = (fs: VirtualFs, path: string) => {
+  if (exists(fs, path)) touchInode(fs, lookup(fs, path));
+  else writeFile(fs, path, "");
+};
+
+// Entry names of a directory, sorted as in the C locale
+export const listDirectory = (fs: VirtualFs, path: string) => {
+  const inode = lookup(fs, path);
+  if (inode.type !== "directory") throw new FsError("Not a directory");
+  if (!(inode.mode & 0o400)) throw new FsError("Permission denied");
+  return [...inode.entries.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+};
+
+export const changeDirectory = (fs: VirtualFs, path: string) => {
+  const inode = lookup(fs, path);
+  if (inode.type !== "directory") throw new FsError("Not a directory");
+  if (!(inode.mode & 0o100)) throw new FsError("Permission denied");
+  fs.cwd = joinPath(splitPath(fs, path));
+};
+
+// "drwxr-xr-x"
+export const formatMode = (inode: Inode) => {
+  const type = { file: "-", directory: "d", symlink: "l" }[inode.type];
+  const bits = [6, 3, 0]
+    .map((shift) => {
+      const value = (inode.mode >> shift) & 7;
+      return `${value & 4 ? "r" : "-"}${value & 2 ? "w" : "-"}${value & 1 ? "x" : "-"}`;
+    })
+    .join("");
+  return type + bits;
+};
+
+export const PASSWD = `root:x:0:0:root:/root:/bin/bash
+daemon:x:1:1:daemon:/usr/sbin:/usr/sbin/nologin
+student:x:1000:1000:Student:/home/student:/bin/bash
+maria:x:1001:711:Maria Pop:/home/maria:/bin/bash
+ion:x:1002:711:Ion Ionescu:/home/ion:/bin/bash
+ana:x:1003:712:Ana Marin:/home/ana:/bin/sh
+`;
+
+// Practice files for the sandbox and for task questions without their own
+export const DEFAULT_FILES: Record<string, string | SandboxFile> = {
+  "notes.txt": `Processes and threads
+The scheduler picks the next process
+if the quantum expires the process is preempted
+Deadlock needs four conditions
+fi
+`,
+  "grades.csv": `name,group,grade
+Maria,711,9
+Ion,711,7
+Ana,712,10
+Vlad,712,5
+Elena,713,8
+`,
+  "script.sh": { content: "#!/bin/bash\necho Hello from the script\n", mode: "755" },
+  "program.c": `#include <stdio.h>
+
+int main(void) {
+    printf("hello\\n");
+    return 0;
+}
+`,
+  "docs/": "",
+  "docs/README": "Course notes for the operating systems exam\n",
+  "notes-link.txt": { link: "notes.txt" },
+  "latest": { symlink: "docs/README" },
+  "empty.txt": "",
+};
+
+const createFile = (fs: VirtualFs, path: string, spec: string | SandboxFile) => {
+  const file = typeof spec === "string" ? { content: spec } : spec;
+  if (path.endsWith("/")) {
+    makeDirectory(fs, path);
+  } else if (file.link !== undefined) {
+    makeLink(fs, file.link, path);
+  } else if (file.symlink !== undefined) {
+    makeSymlink(fs, file.symlink, path);
+  } else {
+    writeFile(fs, path, file.content ?? "");
+  }
+  if (file.mode !== undefined && !file.symlink) {
+    setMode(fs, path, parseInt(file.mode, 8));
+  }
+};
+
+// A fresh filesystem with /etc/passwd, /tmp and the user's home directory,
+// holding the task's files (or the practice files)
+export const createFs = (task: ShellTask = {}): VirtualFs => {
+  const fs: VirtualFs = { inodes: new Map(), nextInode: ROOT, clock: 0, cwd: "/" };
+  createInode(fs, "directory");
+  for (const directory of ["/etc", "/tmp", "/home", HOME]) makeDirectory(fs, directory);
+  writeFile(fs, "/etc/passwd", PASSWD);
+  setMode(fs, "/tmp", 0o777);
+
+  fs.cwd = HOME;
+  // Directories first, outermost first, then files, then the links to them,
+  // so the order they are listed in does not matter
+  const rank = ([path, spec]: [string, string | SandboxFile]) => {
+    if (path.endsWith("/")) return path.split("/").length;
+    return typeof spec !== "string" && (spec.link ?? spec.symlink) !== undefined ? 1001 : 1000;
+  };
+  const files = Object.entries(task.files ?? DEFAULT_FILES).sort((a, b) => rank(a) - rank(b));
+  for (const [path, spec] of files) createFile(fs, path, spec);
+
+  if (task.cwd) changeDirectory(fs, task.cwd);
+  return fs;
+};